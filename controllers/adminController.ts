@@ -2,6 +2,7 @@ import * as express from 'express';
 import * as jwt from 'jsonwebtoken';
 import { supabaseAdmin } from '../supabaseClient';
 import { User } from '@supabase/supabase-js';
+import { migrateAllMetadataKeys } from '../services/personalApiKeyService';
 
 // Add type definitions at the top to handle the imports
 declare var process: {
@@ -15,6 +16,14 @@ const CONFIG_TABLE = '_app_config';
 interface AppConfig {
     gemini_api_key: string | null;
     ai_provider_config: string | null;
+    // JSON price table used for AI cost accounting; see usageService.
+    ai_price_table: string | null;
+    // JSON settings for the generation cache; see generationCache.
+    generation_cache_config: string | null;
+    // JSON token-bucket limits per plan, route and API key; see rateLimitService.
+    rate_limit_config: string | null;
+    // JSON monthly v1 API quotas per plan; see apiQuotaService.
+    api_quota_config: string | null;
     dodo_secret_key: string | null;
     dodo_webhook_secret: string | null;
     site_url: string | null;
@@ -73,6 +82,10 @@ export const getCachedConfig = async (): Promise<AppConfig> => {
             const dbConfig = await fetchConfigFromDatabase();
             cachedConfig = {
                 ai_provider_config: dbConfig.ai_provider_config || '{}',
+                ai_price_table: dbConfig.ai_price_table || '{}',
+                generation_cache_config: dbConfig.generation_cache_config || '{}',
+                rate_limit_config: dbConfig.rate_limit_config || '{}',
+                api_quota_config: dbConfig.api_quota_config || '{}',
                 gemini_api_key: dbConfig.gemini_api_key || process.env.VITE_API_KEY || null,
                 site_url: dbConfig.site_url || process.env.SITE_URL || null,
                 // --- DODO TEST OVERRIDES ---
@@ -99,6 +112,10 @@ export const getCachedConfig = async (): Promise<AppConfig> => {
 
         cachedConfig = {
             ai_provider_config: dbConfig.ai_provider_config || '{}',
+            ai_price_table: dbConfig.ai_price_table || '{}',
+            generation_cache_config: dbConfig.generation_cache_config || '{}',
+            rate_limit_config: dbConfig.rate_limit_config || '{}',
+            api_quota_config: dbConfig.api_quota_config || '{}',
             gemini_api_key: dbConfig.gemini_api_key || process.env.VITE_API_KEY || null,
             dodo_secret_key: dbConfig.dodo_secret_key || process.env.DODO_SECRET_KEY || null,
             dodo_webhook_secret: dbConfig.dodo_webhook_secret || process.env.DODO_WEBHOOK_SECRET || null,
@@ -499,3 +516,17 @@ export const handleSyncSubscriptions = async (req: express.Request, res: express
         res.status(500).json({ error: `Failed to sync subscriptions: ${error.message}` });
     }
 };
+
+/**
+ * Moves every user's API keys out of app_metadata into the api_keys table. Until a user's
+ * keys are moved (by this or by the user managing their keys), they do not authenticate.
+ */
+export const handleMigrateApiKeys = async (req: express.Request, res: express.Response) => {
+    try {
+        const migratedUsers = await migrateAllMetadataKeys();
+        res.json({ message: `Moved the API keys of ${migratedUsers} user(s).`, migratedUsers });
+    } catch (error: any) {
+        console.error('[Admin] Error migrating API keys:', error);
+        res.status(500).json({ error: `Failed to migrate API keys: ${error.message}` });
+    }
+};
@@ -0,0 +1,77 @@
+import * as express from 'express';
+import * as aiService from '../services/aiService';
+import { aggregateUsage, USAGE_GROUPINGS, UsageGrouping } from '../services/usageService';
+import { getGenerationCacheStats, invalidateGenerationCache } from '../services/generationCache';
+
+// --- AI OPERATIONS (ADMIN) ---
+
+const DEFAULT_USAGE_RANGE_DAYS = 30;
+
+export const getGeminiKeyHealth = async (req: express.Request, res: express.Response) => {
+    try {
+        const keys = await aiService.getGeminiKeyHealth();
+        res.json({ keys });
+    } catch (e: any) {
+        console.error(`[Admin AI] ${e.message}`);
+        res.status(500).json({ error: e.message || 'Failed to read key health.' });
+    }
+};
+
+/**
+ * Aggregates AI usage and spend. Query: `groupBy` (day, provider, model, plan, user, endpoint, prompt;
+ * default day), `from` and `to` (ISO dates; default the last 30 days). With `groupBy=prompt` a generation
+ * counts once for each template version it used.
+ */
+export const getAiUsage = async (req: express.Request, res: express.Response) => {
+    const groupBy = (req.query.groupBy ?? 'day') as UsageGrouping;
+    if (!USAGE_GROUPINGS.includes(groupBy)) {
+        return res.status(400).json({ error: `Invalid "groupBy". Expected one of: ${USAGE_GROUPINGS.join(', ')}.` });
+    }
+    const to = req.query.to ? new Date(String(req.query.to)) : new Date();
+    const from = req.query.from ? new Date(String(req.query.from)) : new Date(to.getTime() - DEFAULT_USAGE_RANGE_DAYS * 24 * 60 * 60 * 1000);
+    if (isNaN(from.getTime()) || isNaN(to.getTime()) || from >= to) {
+        return res.status(400).json({ error: '"from" and "to" must be valid dates with "from" before "to".' });
+    }
+
+    try {
+        const groups = await aggregateUsage(from.toISOString(), to.toISOString(), groupBy);
+        const totals = groups.reduce((acc, g) => ({
+            calls: acc.calls + g.calls,
+            failedCalls: acc.failedCalls + g.failedCalls,
+            promptTokens: acc.promptTokens + g.promptTokens,
+            completionTokens: acc.completionTokens + g.completionTokens,
+            costUsd: acc.costUsd + g.costUsd,
+        }), { calls: 0, failedCalls: 0, promptTokens: 0, completionTokens: 0, costUsd: 0 });
+        totals.costUsd = Math.round(totals.costUsd * 1e6) / 1e6;
+        res.json({ from: from.toISOString(), to: to.toISOString(), groupBy, totals, groups });
+    } catch (e: any) {
+        console.error(`[Admin AI] ${e.message}`);
+        res.status(500).json({ error: e.message || 'Failed to aggregate AI usage.' });
+    }
+};
+
+export const getGenerationCache = async (req: express.Request, res: express.Response) => {
+    try {
+        res.json(await getGenerationCacheStats());
+    } catch (e: any) {
+        console.error(`[Admin AI] ${e.message}`);
+        res.status(500).json({ error: e.message || 'Failed to read the generation cache.' });
+    }
+};
+
+/**
+ * Clears the generation cache. Query: optional `modeler` and `prompt` to clear only matching entries.
+ */
+export const clearGenerationCache = async (req: express.Request, res: express.Response) => {
+    const { modeler, prompt } = req.query;
+    if ((modeler !== undefined && typeof modeler !== 'string') || (prompt !== undefined && typeof prompt !== 'string')) {
+        return res.status(400).json({ error: '"modeler" and "prompt" must be single values.' });
+    }
+    try {
+        const removed = await invalidateGenerationCache({ modeler, prompt });
+        res.json({ removed });
+    } catch (e: any) {
+        console.error(`[Admin AI] ${e.message}`);
+        res.status(500).json({ error: e.message || 'Failed to clear the generation cache.' });
+    }
+};
@@ -0,0 +1,166 @@
+import * as express from 'express';
+import { Type } from "@google/genai";
+import { User } from '@supabase/supabase-js';
+import { resolveRequestUser, consumeGenerationCredit, canUserGenerate } from '../userUtils';
+import * as aiService from '../services/aiService';
+import { definePromptTemplate, resolvePrompt } from '../services/promptService';
+import { CHART_TYPES, ChartResult, chartFromTable, isChartType, parseTable, validateChart } from '../services/chartService';
+import { ChartType } from '../types';
+
+// --- SCHEMAS & PROMPTS ---
+
+const colorProperty = { type: Type.STRING, description: "A hex color (e.g., '#4F46E5'). Use distinct, harmonious colors." };
+
+const labeledValuesSchema = (field: string, description: string) => ({
+  type: Type.OBJECT,
+  properties: {
+    title: { type: Type.STRING, description: "A concise title for the chart." },
+    [field]: {
+      type: Type.ARRAY,
+      description,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          label: { type: Type.STRING },
+          value: { type: Type.NUMBER, description: "A non-negative number." },
+          color: colorProperty,
+        },
+        required: ["label", "value", "color"],
+      },
+    },
+  },
+  required: ["title", field],
+});
+
+const seriesChartSchema = {
+  type: Type.OBJECT,
+  properties: {
+    title: { type: Type.STRING, description: "A concise title for the chart." },
+    xAxisLabel: { type: Type.STRING, nullable: true },
+    yAxisLabel: { type: Type.STRING, nullable: true },
+    categories: { type: Type.ARRAY, description: "The x-axis categories, in order.", items: { type: Type.STRING } },
+    series: {
+      type: Type.ARRAY,
+      description: "One entry per data series. Each series has exactly one value per category.",
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          label: { type: Type.STRING },
+          values: { type: Type.ARRAY, items: { type: Type.NUMBER } },
+          color: colorProperty,
+        },
+        required: ["label", "values", "color"],
+      },
+    },
+  },
+  required: ["title", "categories", "series"],
+};
+
+export const chartSchemas: Record<ChartType, any> = {
+  pie: labeledValuesSchema('slices', "The slices of the pie."),
+  funnel: labeledValuesSchema('stages', "The funnel stages, from the widest (first) to the narrowest (last)."),
+  bar: seriesChartSchema,
+  line: seriesChartSchema,
+};
+
+const chartSystemPrompt = `You are an expert data analyst. Your task is to produce the data for a {{chartType}} chart based on a user's prompt. The JSON must strictly adhere to the provided schema.
+1.  If the user provides figures, use them exactly. Otherwise use realistic, plausible figures and keep them internally consistent.
+2.  Keep labels short so they fit on the chart.
+3.  Give every slice, stage or series a distinct hex color.
+`;
+
+definePromptTemplate('chart-system', {
+  description: 'System instruction for generating chart data.',
+  role: 'system',
+  variables: ['chartType'],
+  defaultContent: chartSystemPrompt,
+});
+
+/**
+ * Asks the model for a chart and validates it. Shared by the internal and public endpoints.
+ */
+export const generateChartFromPrompt = async (type: ChartType, prompt: string, user: User, endpoint: string, userApiKey?: string) => {
+  const system = await resolvePrompt('chart-system', { chartType: type }, user.id);
+  const meta = aiService.createGenerationMeta({ endpoint, user, prompts: [system] });
+  const data = await aiService.generateJsonFromPrompt(
+    system.content,
+    `Generate the JSON for a ${type} chart for the following prompt: "${prompt}"`,
+    chartSchemas[type],
+    userApiKey,
+    meta
+  );
+  let result: ChartResult;
+  try {
+    result = validateChart(type, data);
+  } catch (e: any) {
+    // Unusable model output is a generation failure, not a bad request.
+    throw new Error(`The AI model returned an unusable chart: ${e.message.replace('INVALID_CHART_INPUT: ', '')}`);
+  }
+  return { ...result, meta };
+};
+
+/**
+ * Validates the chart type and, for table input, builds the chart without an AI call.
+ * Returns null when the chart has to be generated from `prompt` instead.
+ */
+export const chartFromTableInput = (body: any): ChartResult | null => {
+  const { type, table, tableFormat, title } = body;
+  if (table === undefined) return null;
+  if (tableFormat !== undefined && tableFormat !== 'csv' && tableFormat !== 'json') {
+    throw new Error('INVALID_CHART_INPUT: "tableFormat" must be csv or json.');
+  }
+  const raw = chartFromTable(type, parseTable(table, tableFormat), typeof title === 'string' ? title : '');
+  return validateChart(type, raw);
+};
+
+// --- CONTROLLER FUNCTIONS ---
+
+/**
+ * Generates pie, funnel, bar or line chart data from a `prompt`, or builds it from a CSV/JSON
+ * `table` (first column: labels; further numeric columns: values). Only prompts use a credit.
+ */
+export const handleGenerateChart = async (req: express.Request, res: express.Response) => {
+  try {
+    const user = await resolveRequestUser(req);
+    if (!user) {
+      return res.status(401).json({ error: 'Unauthorized: Invalid authentication token.' });
+    }
+
+    const { type, prompt, userApiKey } = req.body;
+    if (!isChartType(type)) {
+      return res.status(400).json({ error: `Invalid "type". Expected one of: ${CHART_TYPES.join(', ')}.` });
+    }
+
+    const fromTable = chartFromTableInput(req.body);
+    if (fromTable) {
+      return res.json({ type, ...fromTable, newGenerationBalance: null });
+    }
+    if (!prompt || typeof prompt !== 'string') {
+      return res.status(400).json({ error: 'Either a "table" or a "prompt" must be provided.' });
+    }
+
+    if (!userApiKey) {
+      const { allowed, error: limitError, generationBalance } = await canUserGenerate(user);
+      if (!allowed) {
+        const error = new Error(limitError);
+        (error as any).generationBalance = generationBalance;
+        throw error;
+      }
+    }
+
+    const { chart, warnings, meta } = await generateChartFromPrompt(type, prompt, user, '/generate-chart', userApiKey);
+
+    const newGenerationBalance = userApiKey ? null : await consumeGenerationCredit(user);
+
+    res.json({ type, chart, warnings, newGenerationBalance, meta });
+  } catch (e: any) {
+    if (e.message?.includes('GENERATION_LIMIT_EXCEEDED')) {
+      return res.status(429).json({ error: 'GENERATION_LIMIT_EXCEEDED', generationBalance: e.generationBalance });
+    }
+    if (e.message?.startsWith('INVALID_CHART_INPUT')) {
+      return res.status(400).json({ error: e.message.replace('INVALID_CHART_INPUT: ', ''), code: 'INVALID_CHART_INPUT' });
+    }
+    console.error(`[Backend Error] ${e.message} `);
+    res.status(500).json({ error: e.message || 'An unexpected error occurred.' });
+  }
+};
@@ -1,14 +1,10 @@
 import * as express from 'express';
 import * as aiService from '../services/aiService';
+import { resolveRequestUser } from '../userUtils';
+import { definePromptTemplate, resolvePrompt } from '../services/promptService';
+import { openSseStream, sendSseError } from '../sseUtils';
 
-export const handleChatWithAssistant = async (req: express.Request, res: express.Response) => {
-    try {
-        const { history } = req.body;
-        if (!history || !Array.isArray(history)) {
-            return res.status(400).json({ error: 'Invalid chat history provided.' });
-        }
-
-        const systemInstruction = `You are Archie, an expert AI assistant for CubeGen AI, a tool that generates architecture diagrams from text. Your primary goal is to help users, especially new ones, get the most out of the app. Your responses MUST be concise and friendly.
+const systemInstruction = `You are Archie, an expert AI assistant for CubeGen AI, a tool that generates architecture diagrams from text. Your primary goal is to help users, especially new ones, get the most out of the app. Your responses MUST be concise and friendly.
 
 **Core Knowledge about CubeGen AI:**
 
@@ -32,16 +28,63 @@ export const handleChatWithAssistant = async (req: express.Request, res: express
 3.  **Suggest Prompts:** When asked for a prompt idea, provide a creative, ready-to-use prompt inside a markdown code block labeled 'prompt'.
 4.  **Answer Questions:** Use the "Core Knowledge" above to answer questions. If asked who owns the app, state that "Divesh Sarkar is the founder of CubeGen AI."
 5.  **Initial Greeting:** Your very first message MUST be: "Hi! I'm Archie, your AI assistant. How can I help you design something today? You can ask me for a prompt idea!"`;
-        
-        const responseText = await aiService.generateChatResponse(history, systemInstruction, req.body.userApiKey);
+
+definePromptTemplate('chat-system', {
+    description: "System instruction for Archie, the in-app assistant.",
+    role: 'system',
+    variables: [],
+    defaultContent: systemInstruction,
+});
+
+export const handleChatWithAssistant = async (req: express.Request, res: express.Response) => {
+    try {
+        const { history } = req.body;
+        if (!history || !Array.isArray(history)) {
+            return res.status(400).json({ error: 'Invalid chat history provided.' });
+        }
+
+        // Chat works without an account; signed-in users are attributed in the usage log.
+        const user = await resolveRequestUser(req);
+        const system = await resolvePrompt('chat-system', {}, user?.id);
+        const meta = aiService.createGenerationMeta({ endpoint: '/chat', user, prompts: [system] });
+        const responseText = await aiService.generateChatResponse(history, system.content, req.body.userApiKey, meta);
 
         if (!responseText) {
-             return res.json({ response: "I'm sorry, I couldn't generate a response. Please try again." });
+             return res.json({ response: "I'm sorry, I couldn't generate a response. Please try again.", meta });
         }
 
-        res.json({ response: responseText });
+        res.json({ response: responseText, meta });
     } catch (e: any) {
         console.error(`[Backend Error] ${e.message}`);
         res.status(500).json({ error: e.message || 'Failed to get a response from the assistant.' });
     }
 };
+
+/**
+ * Streaming variant of `handleChatWithAssistant`. Emits `chunk` events with the reply
+ * as it is written, then a `result` event with the full response.
+ */
+export const handleChatWithAssistantStream = async (req: express.Request, res: express.Response) => {
+    const { history } = req.body;
+    if (!history || !Array.isArray(history)) {
+        return res.status(400).json({ error: 'Invalid chat history provided.' });
+    }
+
+    const stream = openSseStream(res);
+    try {
+        const user = await resolveRequestUser(req);
+        const system = await resolvePrompt('chat-system', {}, user?.id);
+        const meta = aiService.createGenerationMeta({ endpoint: '/chat/stream', user, prompts: [system] });
+        const responseText = await aiService.streamChatResponse(
+            history,
+            system.content,
+            { signal: stream.signal, onChunk: text => stream.send('chunk', { text }) },
+            req.body.userApiKey,
+            meta
+        );
+        stream.send('result', { response: responseText || "I'm sorry, I couldn't generate a response. Please try again.", meta });
+        stream.close();
+    } catch (e: any) {
+        sendSseError(stream, e, 'Failed to get a response from the assistant.');
+    }
+};
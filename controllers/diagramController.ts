@@ -0,0 +1,135 @@
+import * as express from 'express';
+import { resolveRequestUser } from '../userUtils';
+import * as diagramService from '../services/diagramService';
+
+const isDiagramPayload = (value: any) => !!value && typeof value === 'object' && Array.isArray(value.nodes);
+
+const parseRevision = (value: unknown): number | null => {
+    const revision = Number(value);
+    return Number.isInteger(revision) && revision > 0 ? revision : null;
+};
+
+const handleError = (res: express.Response, e: any, fallback: string) => {
+    if (e.message?.includes('DIAGRAM_NOT_FOUND')) {
+        return res.status(404).json({ error: e.message.replace('DIAGRAM_NOT_FOUND: ', '') });
+    }
+    if (e.message?.includes('DIAGRAM_CONFLICT')) {
+        return res.status(409).json({ error: e.message.replace('DIAGRAM_CONFLICT: ', '') });
+    }
+    console.error(`[Diagram Store] ${e.message}`);
+    res.status(500).json({ error: e.message || fallback });
+};
+
+export const handleListDiagrams = async (req: express.Request, res: express.Response) => {
+    try {
+        const user = await resolveRequestUser(req);
+        if (!user) return res.status(401).json({ error: 'Unauthorized: Invalid authentication token.' });
+        res.json(await diagramService.listDiagrams(user.id));
+    } catch (e: any) {
+        handleError(res, e, 'Failed to list diagrams.');
+    }
+};
+
+export const handleCreateDiagram = async (req: express.Request, res: express.Response) => {
+    try {
+        const user = await resolveRequestUser(req);
+        if (!user) return res.status(401).json({ error: 'Unauthorized: Invalid authentication token.' });
+
+        const { diagram, message } = req.body;
+        if (!isDiagramPayload(diagram)) {
+            return res.status(400).json({ error: 'Missing or invalid "diagram" in request body.' });
+        }
+        res.status(201).json(await diagramService.createDiagram(user.id, diagram, message));
+    } catch (e: any) {
+        handleError(res, e, 'Failed to save the diagram.');
+    }
+};
+
+export const handleGetDiagram = async (req: express.Request, res: express.Response) => {
+    try {
+        const user = await resolveRequestUser(req);
+        if (!user) return res.status(401).json({ error: 'Unauthorized: Invalid authentication token.' });
+        res.json(await diagramService.getDiagram(user.id, req.params.id));
+    } catch (e: any) {
+        handleError(res, e, 'Failed to fetch the diagram.');
+    }
+};
+
+export const handleUpdateDiagram = async (req: express.Request, res: express.Response) => {
+    try {
+        const user = await resolveRequestUser(req);
+        if (!user) return res.status(401).json({ error: 'Unauthorized: Invalid authentication token.' });
+
+        const { diagram, message } = req.body;
+        if (!isDiagramPayload(diagram)) {
+            return res.status(400).json({ error: 'Missing or invalid "diagram" in request body.' });
+        }
+        res.json(await diagramService.saveDiagramRevision(user.id, req.params.id, diagram, message));
+    } catch (e: any) {
+        handleError(res, e, 'Failed to save the diagram.');
+    }
+};
+
+export const handleDeleteDiagram = async (req: express.Request, res: express.Response) => {
+    try {
+        const user = await resolveRequestUser(req);
+        if (!user) return res.status(401).json({ error: 'Unauthorized: Invalid authentication token.' });
+        await diagramService.deleteDiagram(user.id, req.params.id);
+        res.status(204).send();
+    } catch (e: any) {
+        handleError(res, e, 'Failed to delete the diagram.');
+    }
+};
+
+export const handleListRevisions = async (req: express.Request, res: express.Response) => {
+    try {
+        const user = await resolveRequestUser(req);
+        if (!user) return res.status(401).json({ error: 'Unauthorized: Invalid authentication token.' });
+        res.json(await diagramService.listRevisions(user.id, req.params.id));
+    } catch (e: any) {
+        handleError(res, e, 'Failed to list revisions.');
+    }
+};
+
+export const handleGetRevision = async (req: express.Request, res: express.Response) => {
+    try {
+        const user = await resolveRequestUser(req);
+        if (!user) return res.status(401).json({ error: 'Unauthorized: Invalid authentication token.' });
+
+        const revision = parseRevision(req.params.revision);
+        if (!revision) return res.status(400).json({ error: 'Revision must be a positive integer.' });
+        res.json(await diagramService.getRevision(user.id, req.params.id, revision));
+    } catch (e: any) {
+        handleError(res, e, 'Failed to fetch the revision.');
+    }
+};
+
+export const handleRestoreRevision = async (req: express.Request, res: express.Response) => {
+    try {
+        const user = await resolveRequestUser(req);
+        if (!user) return res.status(401).json({ error: 'Unauthorized: Invalid authentication token.' });
+
+        const revision = parseRevision(req.params.revision);
+        if (!revision) return res.status(400).json({ error: 'Revision must be a positive integer.' });
+        res.json(await diagramService.restoreRevision(user.id, req.params.id, revision));
+    } catch (e: any) {
+        handleError(res, e, 'Failed to restore the revision.');
+    }
+};
+
+export const handleDiffRevisions = async (req: express.Request, res: express.Response) => {
+    try {
+        const user = await resolveRequestUser(req);
+        if (!user) return res.status(401).json({ error: 'Unauthorized: Invalid authentication token.' });
+
+        const from = parseRevision(req.query.from);
+        const to = parseRevision(req.query.to);
+        if (!from || !to) {
+            return res.status(400).json({ error: 'Query parameters "from" and "to" must be positive revision numbers.' });
+        }
+        const changes = await diagramService.diffRevisions(user.id, req.params.id, from, to);
+        res.json({ from, to, changes });
+    } catch (e: any) {
+        handleError(res, e, 'Failed to compare revisions.');
+    }
+};
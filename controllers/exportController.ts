@@ -0,0 +1,37 @@
+import * as express from 'express';
+import { authenticateUser } from '../userUtils';
+import { validateAndRepairDiagram } from '../services/diagramValidator';
+import { EXPORT_FORMATS, exportDiagram, isExportFormat } from '../services/exportService';
+
+/**
+ * Validates the export request body and sends the converted diagram as a file download.
+ * Shared by the internal route and the public v1 route.
+ */
+export const sendDiagramExport = (req: express.Request, res: express.Response) => {
+    const { diagram: rawDiagram } = req.body;
+    // The format may be given as a `?format=` query parameter or in the body.
+    const format = req.query.format ?? req.body.format;
+    if (!rawDiagram || typeof rawDiagram !== 'object' || !Array.isArray(rawDiagram.nodes)) {
+        return res.status(400).json({ error: 'Missing or invalid "diagram" in request body.' });
+    }
+    if (!isExportFormat(format)) {
+        return res.status(400).json({ error: `Invalid "format". Expected one of: ${EXPORT_FORMATS.join(', ')}.` });
+    }
+
+    const { diagram } = validateAndRepairDiagram(rawDiagram);
+    const file = exportDiagram(diagram, format);
+    res.type(file.mimeType).attachment(file.fileName).send(file.content);
+};
+
+export const handleExportDiagram = async (req: express.Request, res: express.Response) => {
+    try {
+        const user = await authenticateUser(req);
+        if (!user) {
+            return res.status(401).json({ error: 'Unauthorized: Invalid authentication token.' });
+        }
+        sendDiagramExport(req, res);
+    } catch (e: any) {
+        console.error(`[Backend Error] ${e.message}`);
+        res.status(500).json({ error: e.message || 'Failed to export the diagram.' });
+    }
+};
@@ -1,7 +1,16 @@
 import * as express from 'express';
 import { Type } from "@google/genai";
-import { authenticateUser, consumeGenerationCredit, canUserGenerate } from '../userUtils';
+import { resolveRequestUser, consumeGenerationCredit, canUserGenerate } from '../userUtils';
 import * as aiService from '../services/aiService';
+import { validateAndRepairDiagram } from '../services/diagramValidator';
+import { autoLayoutDiagram, LAYOUT_MODES } from '../services/layoutService';
+import { buildEditPrompt, mergeEditedDiagram } from '../services/diagramEditor';
+import { diffDiagrams } from '../services/diagramDiff';
+import { isRenderFormat, RENDER_FORMATS, renderDiagram } from '../services/renderService';
+import { definePromptTemplate, resolvePrompt } from '../services/promptService';
+import { withGenerationCache } from '../services/generationCache';
+import { buildNeuralNetwork, parseLayerSpec } from '../services/neuralNetworkBuilder';
+import { openSseStream, sendSseError } from '../sseUtils';
 
 // --- SCHEMAS & PROMPTS ---
 
@@ -72,39 +81,26 @@ export const responseSchema = {
   required: ["title", "architectureType", "nodes", "links"],
 };
 
-const neuralNetworkSchema = {
+// The model only describes the layers; `buildNeuralNetwork` emits the neurons and links.
+const layerSpecSchema = {
   type: Type.OBJECT,
   properties: {
     title: { type: Type.STRING, description: "A concise title for the neural network diagram (e.g., 'Simple Feedforward Network')." },
-    nodes: {
-      type: Type.ARRAY,
-      description: "A list of all neurons and layer labels.",
-      items: {
-        type: Type.OBJECT,
-        properties: {
-          id: { type: Type.STRING, description: "A unique identifier for the node (e.g., 'input-1', 'hidden-1-2')." },
-          label: { type: Type.STRING, description: "The name of the node. For neurons, this can be the ID. For labels, it describes the layer (e.g., 'Input Layer')." },
-          type: { type: Type.STRING, description: "The type of node. Must be either 'neuron' or 'layer-label'." },
-          layer: { type: Type.NUMBER, description: "The layer number this node belongs to (e.g., 0 for input, 1 for first hidden, etc.)." },
-        },
-        required: ["id", "label", "type", "layer"],
-      },
-    },
-    links: {
+    layers: {
       type: Type.ARRAY,
-      description: "A list of connections between the neurons, typically connecting all neurons in one layer to all neurons in the next.",
+      description: "The layers in order, from the input layer to the output layer.",
       items: {
         type: Type.OBJECT,
         properties: {
-          id: { type: Type.STRING, description: "A unique identifier for the link." },
-          source: { type: Type.STRING, description: "The 'id' of the source neuron." },
-          target: { type: Type.STRING, description: "The 'id' of the target neuron." },
+          name: { type: Type.STRING, description: "The layer's name (e.g., 'Input Layer', 'Hidden Layer 1', 'Output Layer')." },
+          size: { type: Type.INTEGER, description: "The number of neurons in the layer." },
+          activation: { type: Type.STRING, description: "The activation function (e.g., 'ReLU', 'Softmax'). Omit for the input layer.", nullable: true },
         },
-        required: ["id", "source", "target"],
+        required: ["name", "size"],
       },
     },
   },
-  required: ["title", "nodes", "links"],
+  required: ["title", "layers"],
 };
 
 export const systemPrompt = `You are an expert system architect. Your task is to generate a JSON representation of a software architecture diagram based on a user's prompt. The JSON must strictly adhere to the provided schema.
@@ -148,17 +144,79 @@ Rules:
 6.  **Shape Constraint (CRITICAL):** For this general architecture modeler, you MUST NOT use the 'neuron' type for any node, even if the topic is AI-related. The 'neuron' type is reserved for a different modeler. Instead, use appropriate, standard icons like 'llm', 'embedding-model', 'vector-database', etc. Use standard shapes like 'rectangle' or 'ellipse'.
 `;
 
+export const editSystemPrompt = `${systemPrompt}
+**Editing an Existing Diagram (CRITICAL):**
+You are modifying a diagram the user has already refined by hand. Apply ONLY the requested change.
+1.  Return the COMPLETE diagram, including every node, link and container that is not affected by the change.
+2.  Keep the 'id' of every existing element exactly as it is. Never rename ids.
+3.  Do not change the position, size, label or type of nodes the change does not concern.
+4.  Nodes marked \`locked: true\` must be returned unchanged and must not be removed.
+5.  Place new nodes near the components they connect to, and add them to the appropriate container.
+`;
+
+const neuralNetworkSystemPrompt = `You are an expert machine learning engineer. Your task is to describe the layers of the neural network in the user's prompt as JSON that strictly adheres to the provided schema.
+1.  List every layer in order, including the input and output layers.
+2.  Use realistic layer sizes for the described task. If the user gives sizes, use them exactly.
+3.  Give hidden and output layers their activation function.
+`;
+
+// The prompts above are the built-in defaults; admins can roll out edited versions (see promptService).
+definePromptTemplate('diagram-system', {
+  description: 'System instruction for generating architecture diagrams.',
+  role: 'system',
+  variables: [],
+  defaultContent: systemPrompt,
+  schema: responseSchema,
+});
+definePromptTemplate('diagram-edit-system', {
+  description: 'System instruction for editing an existing architecture diagram.',
+  role: 'system',
+  variables: [],
+  defaultContent: editSystemPrompt,
+  schema: responseSchema,
+});
+definePromptTemplate('neural-network-system', {
+  description: 'System instruction for describing the layers of a neural network.',
+  role: 'system',
+  variables: [],
+  defaultContent: neuralNetworkSystemPrompt,
+  schema: layerSpecSchema,
+});
+definePromptTemplate('neural-network', {
+  description: 'User prompt for describing the layers of a neural network.',
+  role: 'user',
+  variables: ['prompt'],
+  defaultContent: 'Describe the layers of the following neural network: "{{prompt}}"',
+  schema: layerSpecSchema,
+});
+definePromptTemplate('explain', {
+  description: 'User prompt for explaining an architecture diagram in markdown.',
+  role: 'user',
+  variables: ['diagram'],
+  defaultContent: 'Based on the following JSON data representing an architecture diagram, provide a concise, markdown - formatted explanation of what the system does, its key components, and how they interact.JSON: {{diagram}} ',
+});
+
 
 // --- CONTROLLER FUNCTIONS ---
 
 export const handleGenerateDiagram = async (req: express.Request, res: express.Response) => {
   try {
-    const user = await authenticateUser(req);
+    const user = await resolveRequestUser(req);
     if (!user) {
       return res.status(401).json({ error: 'Unauthorized: Invalid authentication token.' });
     }
 
-    const { prompt, userApiKey } = req.body;
+    const { prompt, userApiKey, layout = 'ai', noCache } = req.body;
+    if (!prompt || typeof prompt !== 'string') {
+      return res.status(400).json({ error: 'A "prompt" must be provided.' });
+    }
+    if (!LAYOUT_MODES.includes(layout)) {
+      return res.status(400).json({ error: `Invalid "layout". Expected one of: ${LAYOUT_MODES.join(', ')}.` });
+    }
+    const format = req.query.format ?? 'json';
+    if (format !== 'json' && !isRenderFormat(format)) {
+      return res.status(400).json({ error: `Invalid "format". Expected one of: json, ${RENDER_FORMATS.join(', ')}.` });
+    }
 
     // Check user's generation limit *before* making the API call
     if (!userApiKey) {
@@ -170,17 +228,172 @@ export const handleGenerateDiagram = async (req: express.Request, res: express.R
       }
     }
 
+    const system = await resolvePrompt('diagram-system', {}, user.id);
+    const meta = aiService.createGenerationMeta({ endpoint: '/generate-diagram', user, prompts: [system] });
+    const { value: data, cached, chargeCredit } = await withGenerationCache(
+      { modeler: 'architecture', prompt, prompts: [system], userApiKey, bypass: !!noCache },
+      meta,
+      () => aiService.generateJsonFromPrompt(
+        system.content,
+        `Generate the JSON for the following prompt: "${prompt}"`,
+        responseSchema,
+        userApiKey,
+        meta
+      )
+    );
+
+    const { diagram: validated, warnings } = validateAndRepairDiagram(data);
+    // With 'auto' layout the model's coordinates are discarded and recomputed server-side.
+    const diagram = layout === 'auto' ? autoLayoutDiagram(validated) : validated;
+
+    // Rendered before charging, so a failed rendering costs no credit.
+    const rendered = isRenderFormat(format) ? renderDiagram(diagram, format) : undefined;
+
+    // Only consume a credit if a personal key was NOT used (and, for cache hits, if admins charge for them).
+    const newGenerationBalance = userApiKey || !chargeCredit ? null : await consumeGenerationCredit(user);
+    res.json({ diagram, warnings, rendered, newGenerationBalance, cached, meta });
+  } catch (e: any) {
+    if (e.message?.includes('GENERATION_LIMIT_EXCEEDED')) {
+      return res.status(429).json({ error: 'GENERATION_LIMIT_EXCEEDED', generationBalance: e.generationBalance });
+    }
+    console.error(`[Backend Error] ${e.message} `);
+    res.status(500).json({ error: e.message || 'An unexpected error occurred.' });
+  }
+};
+
+/**
+ * Streaming variant of `handleGenerateDiagram`. Emits `progress` events while the model is
+ * writing, then a single `result` event with the validated diagram. Validation and limit
+ * errors are returned as plain JSON before the stream is opened.
+ */
+export const handleGenerateDiagramStream = async (req: express.Request, res: express.Response) => {
+  try {
+    const user = await resolveRequestUser(req);
+    if (!user) {
+      return res.status(401).json({ error: 'Unauthorized: Invalid authentication token.' });
+    }
+
+    const { prompt, userApiKey, layout = 'ai', noCache } = req.body;
+    if (!prompt || typeof prompt !== 'string') {
+      return res.status(400).json({ error: 'A "prompt" must be provided.' });
+    }
+    if (!LAYOUT_MODES.includes(layout)) {
+      return res.status(400).json({ error: `Invalid "layout". Expected one of: ${LAYOUT_MODES.join(', ')}.` });
+    }
+    const format = req.query.format ?? 'json';
+    if (format !== 'json' && !isRenderFormat(format)) {
+      return res.status(400).json({ error: `Invalid "format". Expected one of: json, ${RENDER_FORMATS.join(', ')}.` });
+    }
+
+    if (!userApiKey) {
+      const { allowed, error: limitError, generationBalance } = await canUserGenerate(user);
+      if (!allowed) {
+        const error = new Error(limitError);
+        (error as any).generationBalance = generationBalance;
+        throw error;
+      }
+    }
+
+    const stream = openSseStream(res);
+    try {
+      stream.send('progress', { stage: 'generating' });
+      // Partial JSON is not useful to the client, so only the amount received is reported.
+      let receivedChars = 0;
+      const system = await resolvePrompt('diagram-system', {}, user.id);
+      const meta = aiService.createGenerationMeta({ endpoint: '/generate-diagram/stream', user, prompts: [system] });
+      // A cache hit skips straight to validation without any `generating` progress.
+      const { value: data, cached, chargeCredit } = await withGenerationCache(
+        { modeler: 'architecture', prompt, prompts: [system], userApiKey, bypass: !!noCache },
+        meta,
+        () => aiService.streamJsonFromPrompt(
+          system.content,
+          `Generate the JSON for the following prompt: "${prompt}"`,
+          responseSchema,
+          {
+            signal: stream.signal,
+            onChunk: chunk => {
+              receivedChars += chunk.length;
+              stream.send('progress', { stage: 'generating', receivedChars });
+            },
+          },
+          userApiKey,
+          meta
+        )
+      );
+
+      stream.send('progress', { stage: 'validating' });
+      const { diagram: validated, warnings } = validateAndRepairDiagram(data);
+      if (layout === 'auto') stream.send('progress', { stage: 'layout' });
+      const diagram = layout === 'auto' ? autoLayoutDiagram(validated) : validated;
+
+      // Rendered before charging, so a failed rendering costs no credit.
+      if (isRenderFormat(format)) stream.send('progress', { stage: 'rendering' });
+      const rendered = isRenderFormat(format) ? renderDiagram(diagram, format) : undefined;
+
+      // The client may have left while the diagram was being validated or rendered; don't charge for it.
+      if (stream.signal.aborted) return;
+      const newGenerationBalance = userApiKey || !chargeCredit ? null : await consumeGenerationCredit(user);
+      stream.send('result', { diagram, warnings, rendered, newGenerationBalance, cached, meta });
+      stream.close();
+    } catch (e: any) {
+      sendSseError(stream, e, 'An unexpected error occurred.');
+    }
+  } catch (e: any) {
+    if (e.message?.includes('GENERATION_LIMIT_EXCEEDED')) {
+      return res.status(429).json({ error: 'GENERATION_LIMIT_EXCEEDED', generationBalance: e.generationBalance });
+    }
+    console.error(`[Backend Error] ${e.message} `);
+    res.status(500).json({ error: e.message || 'An unexpected error occurred.' });
+  }
+};
+
+export const handleEditDiagram = async (req: express.Request, res: express.Response) => {
+  try {
+    const user = await resolveRequestUser(req);
+    if (!user) {
+      return res.status(401).json({ error: 'Unauthorized: Invalid authentication token.' });
+    }
+
+    const { diagram: currentDiagram, instruction, userApiKey } = req.body;
+    if (!currentDiagram || typeof currentDiagram !== 'object' || !Array.isArray(currentDiagram.nodes)) {
+      return res.status(400).json({ error: 'Missing or invalid "diagram" in request body.' });
+    }
+    if (!instruction || typeof instruction !== 'string') {
+      return res.status(400).json({ error: 'Missing or invalid "instruction" in request body.' });
+    }
+    const format = req.query.format ?? 'json';
+    if (format !== 'json' && !isRenderFormat(format)) {
+      return res.status(400).json({ error: `Invalid "format". Expected one of: json, ${RENDER_FORMATS.join(', ')}.` });
+    }
+
+    if (!userApiKey) {
+      const { allowed, error: limitError, generationBalance } = await canUserGenerate(user);
+      if (!allowed) {
+        const error = new Error(limitError);
+        (error as any).generationBalance = generationBalance;
+        throw error;
+      }
+    }
+
+    const { diagram: original } = validateAndRepairDiagram(currentDiagram);
+    const system = await resolvePrompt('diagram-edit-system', {}, user.id);
+    const meta = aiService.createGenerationMeta({ endpoint: '/diagrams/edit', user, prompts: [system] });
     const data = await aiService.generateJsonFromPrompt(
-      systemPrompt,
-      `Generate the JSON for the following prompt: "${prompt}"`,
+      system.content,
+      buildEditPrompt(original, instruction),
       responseSchema,
-      userApiKey
+      userApiKey,
+      meta
     );
 
-    // Only consume a credit if a personal key was NOT used.
-    const newGenerationBalance = userApiKey ? null : await consumeGenerationCredit(user);
+    const { diagram: edited, warnings: validationWarnings } = validateAndRepairDiagram(data);
+    const { diagram, warnings: mergeWarnings } = mergeEditedDiagram(original, edited);
+    const changes = diffDiagrams(original, diagram);
 
-    res.json({ diagram: data, newGenerationBalance });
+    const rendered = isRenderFormat(format) ? renderDiagram(diagram, format) : undefined;
+
+    const newGenerationBalance = userApiKey ? null : await consumeGenerationCredit(user);
+    res.json({ diagram, changes, warnings: [...validationWarnings, ...mergeWarnings], rendered, newGenerationBalance, meta });
   } catch (e: any) {
     if (e.message?.includes('GENERATION_LIMIT_EXCEEDED')) {
       return res.status(429).json({ error: 'GENERATION_LIMIT_EXCEEDED', generationBalance: e.generationBalance });
@@ -190,13 +403,29 @@ export const handleGenerateDiagram = async (req: express.Request, res: express.R
   }
 };
 
+/**
+ * Builds a neural network diagram from a layer spec. The spec is either given directly as
+ * `layers` (e.g. `[4, 8, 8, 2]`), which needs no AI call or credit, or described by the model
+ * from `prompt`. `maxNeuronsPerLayer` controls when wide layers are collapsed.
+ */
 export const handleGenerateNeuralNetwork = async (req: express.Request, res: express.Response) => {
   try {
-    const user = await authenticateUser(req);
+    const user = await resolveRequestUser(req);
     if (!user) {
       return res.status(401).json({ error: 'Unauthorized: Invalid authentication token.' });
     }
-    const { prompt, userApiKey } = req.body;
+    const { prompt, layers, title, maxNeuronsPerLayer, userApiKey, noCache } = req.body;
+    if (maxNeuronsPerLayer !== undefined && (!Number.isInteger(maxNeuronsPerLayer) || maxNeuronsPerLayer < 1)) {
+      return res.status(400).json({ error: '"maxNeuronsPerLayer" must be a positive integer.' });
+    }
+
+    if (layers !== undefined) {
+      const spec = parseLayerSpec({ title, layers });
+      return res.json({ diagram: buildNeuralNetwork(spec, { maxNeuronsPerLayer }), spec, newGenerationBalance: null, cached: false });
+    }
+    if (!prompt || typeof prompt !== 'string') {
+      return res.status(400).json({ error: 'Either "layers" or a "prompt" must be provided.' });
+    }
 
     if (!userApiKey) {
       const { allowed, error: limitError, generationBalance } = await canUserGenerate(user);
@@ -207,37 +436,90 @@ export const handleGenerateNeuralNetwork = async (req: express.Request, res: exp
       }
     }
 
-    const data = await aiService.generateJsonFromPrompt(
-      systemPrompt, // Still use the base system prompt for context
-      `Generate the JSON for the following neural network prompt: "${prompt}"`,
-      neuralNetworkSchema,
-      userApiKey
+    const system = await resolvePrompt('neural-network-system', {}, user.id);
+    const userPrompt = await resolvePrompt('neural-network', { prompt }, user.id);
+    const meta = aiService.createGenerationMeta({ endpoint: '/generate-neural-network', user, prompts: [system, userPrompt] });
+    const { value: data, cached, chargeCredit } = await withGenerationCache(
+      { modeler: 'neural-network', prompt, prompts: [system, userPrompt], userApiKey, bypass: !!noCache },
+      meta,
+      () => aiService.generateJsonFromPrompt(
+        system.content,
+        userPrompt.content,
+        layerSpecSchema,
+        userApiKey,
+        meta
+      )
     );
+    // The model's spec goes through the same checks as a user-supplied one.
+    const spec = parseLayerSpec(data);
 
-    const newGenerationBalance = userApiKey ? null : await consumeGenerationCredit(user);
+    const newGenerationBalance = userApiKey || !chargeCredit ? null : await consumeGenerationCredit(user);
 
-    res.json({ diagram: data, newGenerationBalance });
+    res.json({ diagram: buildNeuralNetwork(spec, { maxNeuronsPerLayer }), spec, newGenerationBalance, cached, meta });
   } catch (e: any) {
     if (e.message?.includes('GENERATION_LIMIT_EXCEEDED')) {
       return res.status(429).json({ error: 'GENERATION_LIMIT_EXCEEDED', generationBalance: e.generationBalance });
     }
+    if (e.message?.startsWith('INVALID_LAYER_SPEC')) {
+      return res.status(400).json({ error: e.message.replace('INVALID_LAYER_SPEC: ', ''), code: 'INVALID_LAYER_SPEC' });
+    }
     console.error(`[Backend Error] ${e.message} `);
     res.status(500).json({ error: e.message || 'An unexpected error occurred.' });
   }
 };
 
+const buildExplanationPrompt = (diagramData: unknown, userId: string) =>
+  resolvePrompt('explain', { diagram: JSON.stringify(diagramData) }, userId);
+
 export const handleExplainArchitecture = async (req: express.Request, res: express.Response) => {
   try {
-    const user = await authenticateUser(req);
+    const user = await resolveRequestUser(req);
+    if (!user) {
+      return res.status(401).json({ error: 'Unauthorized: You must be logged in to use this feature.' });
+    }
+
+    const { diagramData, userApiKey } = req.body;
+
+    const prompt = await buildExplanationPrompt(diagramData, user.id);
+    const meta = aiService.createGenerationMeta({ endpoint: '/explain-architecture', user, prompts: [prompt] });
+    const explanation = await aiService.generateTextFromPrompt('', prompt.content, userApiKey, meta);
+    res.json({ explanation, meta });
+  } catch (e: any) {
+    console.error(`[Backend Error] ${e.message} `);
+    res.status(500).json({ error: e.message || 'An unexpected error occurred.' });
+  }
+};
+
+/**
+ * Streaming variant of `handleExplainArchitecture`. Emits `chunk` events with the
+ * explanation text as it is written, then a `result` event with the full text.
+ */
+export const handleExplainArchitectureStream = async (req: express.Request, res: express.Response) => {
+  try {
+    const user = await resolveRequestUser(req);
     if (!user) {
       return res.status(401).json({ error: 'Unauthorized: You must be logged in to use this feature.' });
     }
 
     const { diagramData, userApiKey } = req.body;
 
-    const prompt = `Based on the following JSON data representing an architecture diagram, provide a concise, markdown - formatted explanation of what the system does, its key components, and how they interact.JSON: ${JSON.stringify(diagramData)} `;
-    const explanation = await aiService.generateTextFromPrompt('', prompt, userApiKey);
-    res.json({ explanation });
+    const stream = openSseStream(res);
+    try {
+      stream.send('progress', { stage: 'generating' });
+      const prompt = await buildExplanationPrompt(diagramData, user.id);
+      const meta = aiService.createGenerationMeta({ endpoint: '/explain-architecture/stream', user, prompts: [prompt] });
+      const explanation = await aiService.streamTextFromPrompt(
+        '',
+        prompt.content,
+        { signal: stream.signal, onChunk: text => stream.send('chunk', { text }) },
+        userApiKey,
+        meta
+      );
+      stream.send('result', { explanation, meta });
+      stream.close();
+    } catch (e: any) {
+      sendSseError(stream, e, 'An unexpected error occurred.');
+    }
   } catch (e: any) {
     console.error(`[Backend Error] ${e.message} `);
     res.status(500).json({ error: e.message || 'An unexpected error occurred.' });
@@ -0,0 +1,82 @@
+import * as express from 'express';
+import { resolveRequestUser, consumeGenerationCredit, canUserGenerate } from '../userUtils';
+import * as aiService from '../services/aiService';
+import { applyPolish, IMPORT_FORMATS, ImportFormat, importInfrastructure, ImportSourceFile } from '../services/importService';
+import { autoLayoutDiagram } from '../services/layoutService';
+import { responseSchema } from './generationController';
+
+const polishSystemPrompt = `You are an expert system architect. You are given a diagram that was generated automatically from infrastructure-as-code. Your ONLY task is to improve its human-readable text.
+1.  Give the diagram a concise, descriptive 'title'.
+2.  Rewrite node and container 'label's so they are short and readable (e.g., 'aws_instance.web_1' becomes 'Web Server').
+3.  Write a one-sentence 'description' for each node explaining its role.
+4.  Do NOT add, remove or rename any node, link or container 'id'. Do NOT change 'type's, links or nesting. Return the complete diagram JSON.`;
+
+// The polish prompt embeds the whole diagram; larger imports can only be imported unpolished.
+const MAX_POLISH_DIAGRAM_CHARS = 60000;
+
+/**
+ * Builds a diagram from uploaded Terraform, docker-compose or Kubernetes files.
+ * The import itself is free; the optional AI polish pass consumes a generation credit.
+ */
+export const handleImportDiagram = async (req: express.Request, res: express.Response) => {
+    try {
+        const user = await resolveRequestUser(req);
+        if (!user) {
+            return res.status(401).json({ error: 'Unauthorized: Invalid authentication token.' });
+        }
+
+        const { content, files: rawFiles, format, polish = false, userApiKey } = req.body;
+        const files: ImportSourceFile[] = Array.isArray(rawFiles)
+            ? rawFiles.filter((f: any) => f && typeof f.content === 'string').map((f: any) => ({ name: typeof f.name === 'string' ? f.name : undefined, content: f.content }))
+            : typeof content === 'string' ? [{ content }] : [];
+        if (files.length === 0) {
+            return res.status(400).json({ error: 'Provide the file contents as "content" or as "files": [{ name, content }].' });
+        }
+        if (format !== undefined && !IMPORT_FORMATS.includes(format)) {
+            return res.status(400).json({ error: `Invalid "format". Expected one of: ${IMPORT_FORMATS.join(', ')}.` });
+        }
+
+        const { format: detectedFormat, diagram: imported, warnings } = importInfrastructure(files, format as ImportFormat | undefined);
+        if (!polish) {
+            return res.json({ diagram: imported, warnings, format: detectedFormat, newGenerationBalance: null });
+        }
+
+        const diagramJson = JSON.stringify(imported);
+        if (diagramJson.length > MAX_POLISH_DIAGRAM_CHARS) {
+            return res.status(400).json({ error: `The imported diagram is too large to polish (${diagramJson.length} characters of JSON; the limit is ${MAX_POLISH_DIAGRAM_CHARS}). Import it without "polish".`, code: 'POLISH_TOO_LARGE' });
+        }
+
+        if (!userApiKey) {
+            const { allowed, error: limitError, generationBalance } = await canUserGenerate(user);
+            if (!allowed) {
+                const error = new Error(limitError);
+                (error as any).generationBalance = generationBalance;
+                throw error;
+            }
+        }
+
+        const meta = aiService.createGenerationMeta({ endpoint: '/diagrams/import', user });
+        const polished = await aiService.generateJsonFromPrompt(
+            polishSystemPrompt,
+            `Improve the labels and descriptions of this diagram JSON: ${diagramJson}`,
+            responseSchema,
+            userApiKey,
+            meta
+        );
+        // Labels may have changed length, so node sizes are recomputed.
+        const diagram = autoLayoutDiagram(applyPolish(imported, polished));
+
+        const newGenerationBalance = userApiKey ? null : await consumeGenerationCredit(user);
+
+        res.json({ diagram, warnings, format: detectedFormat, newGenerationBalance, meta });
+    } catch (e: any) {
+        if (e.message?.includes('INVALID_IMPORT_SOURCE')) {
+            return res.status(400).json({ error: e.message.replace('INVALID_IMPORT_SOURCE: ', '') });
+        }
+        if (e.message?.includes('GENERATION_LIMIT_EXCEEDED')) {
+            return res.status(429).json({ error: 'GENERATION_LIMIT_EXCEEDED', generationBalance: e.generationBalance });
+        }
+        console.error(`[Backend Error] ${e.message}`);
+        res.status(500).json({ error: e.message || 'Failed to import the diagram.' });
+    }
+};
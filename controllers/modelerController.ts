@@ -0,0 +1,301 @@
+import * as express from 'express';
+import { Type } from "@google/genai";
+import { User } from '@supabase/supabase-js';
+import { resolveRequestUser, consumeGenerationCredit, canUserGenerate } from '../userUtils';
+import * as aiService from '../services/aiService';
+import { definePromptTemplate, resolvePrompt } from '../services/promptService';
+import { withGenerationCache } from '../services/generationCache';
+import { ModelResult } from '../services/modelers/common';
+import { SEQUENCE_MESSAGE_TYPES, SEQUENCE_PARTICIPANT_KINDS, validateSequenceDiagram } from '../services/modelers/sequence';
+import { ER_CARDINALITIES, validateErDiagram } from '../services/modelers/er';
+import { FLOWCHART_NODE_KINDS, validateFlowchart } from '../services/modelers/flowchart';
+import { parseSqlDdl } from '../services/importers/sqlDdl';
+
+// --- SCHEMAS & PROMPTS ---
+
+const sequenceSchema = {
+  type: Type.OBJECT,
+  properties: {
+    title: { type: Type.STRING, description: "A concise title for the sequence diagram." },
+    participants: {
+      type: Type.ARRAY,
+      description: "The actors and systems taking part, in left-to-right order.",
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          id: { type: Type.STRING, description: "A unique, kebab-case identifier (e.g., 'auth-service')." },
+          label: { type: Type.STRING },
+          kind: { type: Type.STRING, enum: SEQUENCE_PARTICIPANT_KINDS },
+        },
+        required: ["id", "label", "kind"],
+      },
+    },
+    messages: {
+      type: Type.ARRAY,
+      description: "The messages in chronological order.",
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          id: { type: Type.STRING, description: "A unique identifier (e.g., 'm1')." },
+          from: { type: Type.STRING, description: "The 'id' of the sending participant." },
+          to: { type: Type.STRING, description: "The 'id' of the receiving participant." },
+          label: { type: Type.STRING, description: "The call or event, e.g. 'POST /login'." },
+          type: { type: Type.STRING, enum: SEQUENCE_MESSAGE_TYPES },
+        },
+        required: ["id", "from", "to", "label", "type"],
+      },
+    },
+    activations: {
+      type: Type.ARRAY,
+      description: "The periods in which a participant is busy handling a request.",
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          participant: { type: Type.STRING },
+          startMessage: { type: Type.STRING, description: "The 'id' of the message that starts the activation." },
+          endMessage: { type: Type.STRING, description: "The 'id' of the message that ends it, usually the reply." },
+        },
+        required: ["participant", "startMessage", "endMessage"],
+      },
+    },
+  },
+  required: ["title", "participants", "messages", "activations"],
+};
+
+const erSchema = {
+  type: Type.OBJECT,
+  properties: {
+    title: { type: Type.STRING, description: "A concise title for the data model." },
+    entities: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          id: { type: Type.STRING, description: "A unique, kebab-case identifier (e.g., 'order-item')." },
+          name: { type: Type.STRING, description: "The table or entity name." },
+          attributes: {
+            type: Type.ARRAY,
+            items: {
+              type: Type.OBJECT,
+              properties: {
+                name: { type: Type.STRING },
+                type: { type: Type.STRING, description: "A SQL column type, e.g. 'uuid' or 'varchar(255)'." },
+                primaryKey: { type: Type.BOOLEAN, nullable: true },
+                foreignKey: { type: Type.BOOLEAN, nullable: true },
+                unique: { type: Type.BOOLEAN, nullable: true },
+                nullable: { type: Type.BOOLEAN, nullable: true },
+              },
+              required: ["name", "type"],
+            },
+          },
+        },
+        required: ["id", "name", "attributes"],
+      },
+    },
+    relationships: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          id: { type: Type.STRING },
+          from: { type: Type.STRING, description: "The 'id' of the entity holding the foreign key." },
+          to: { type: Type.STRING, description: "The 'id' of the referenced entity." },
+          cardinality: { type: Type.STRING, enum: ER_CARDINALITIES, description: "Read from 'from' to 'to'." },
+          label: { type: Type.STRING, nullable: true },
+          fromAttributes: { type: Type.ARRAY, nullable: true, items: { type: Type.STRING } },
+          toAttributes: { type: Type.ARRAY, nullable: true, items: { type: Type.STRING } },
+        },
+        required: ["id", "from", "to", "cardinality"],
+      },
+    },
+  },
+  required: ["title", "entities", "relationships"],
+};
+
+const flowchartSchema = {
+  type: Type.OBJECT,
+  properties: {
+    title: { type: Type.STRING, description: "A concise title for the flowchart." },
+    nodes: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          id: { type: Type.STRING, description: "A unique, kebab-case identifier (e.g., 'check-stock')." },
+          label: { type: Type.STRING },
+          kind: { type: Type.STRING, enum: FLOWCHART_NODE_KINDS },
+        },
+        required: ["id", "label", "kind"],
+      },
+    },
+    edges: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          id: { type: Type.STRING },
+          source: { type: Type.STRING },
+          target: { type: Type.STRING },
+          label: { type: Type.STRING, nullable: true, description: "The branch condition for edges leaving a decision." },
+        },
+        required: ["id", "source", "target"],
+      },
+    },
+  },
+  required: ["title", "nodes", "edges"],
+};
+
+const sequenceSystemPrompt = `You are an expert software architect. Your task is to produce a sequence diagram based on a user's prompt. The JSON must strictly adhere to the provided schema.
+1.  List the participants in the order they first take part. Use 'actor' for people, 'database' and 'queue' for data stores and brokers, and 'external' for third-party systems.
+2.  List the messages in chronological order. Use 'sync' for calls that wait for an answer, 'async' for fire-and-forget events, 'reply' for responses and 'self' for internal steps.
+3.  Every synchronous call should have a matching 'reply'. Add an activation from the call to its reply for the participant handling it.
+4.  Message labels should be short and concrete (e.g., 'POST /orders', 'OrderCreated').
+`;
+
+const erSystemPrompt = `You are an expert database designer. Your task is to produce an entity-relationship model based on a user's prompt. The JSON must strictly adhere to the provided schema.
+1.  Give every entity a primary key and realistic, typed attributes. Mark foreign key columns with 'foreignKey'.
+2.  Add a relationship for every foreign key, from the entity holding it to the referenced entity, with its columns in 'fromAttributes' and 'toAttributes'.
+3.  Model many-to-many relationships with a join entity unless the user asks for a conceptual model.
+4.  Use one naming style consistently (snake_case unless the user uses another).
+`;
+
+const flowchartSystemPrompt = `You are an expert process analyst. Your task is to produce a flowchart based on a user's prompt. The JSON must strictly adhere to the provided schema.
+1.  Begin with exactly one 'start' node and end every path in an 'end' node.
+2.  Use 'decision' for questions; every decision needs at least two outgoing edges, each labelled with its condition (e.g., 'Yes', 'No').
+3.  Use 'input-output' for reading or showing data and 'subprocess' for steps that are a process of their own.
+4.  Every node must be reachable from the start node. Keep labels short and action-oriented.
+`;
+
+definePromptTemplate('sequence-system', {
+  description: 'System instruction for generating sequence diagrams.',
+  role: 'system',
+  variables: [],
+  defaultContent: sequenceSystemPrompt,
+  schema: sequenceSchema,
+});
+
+definePromptTemplate('er-system', {
+  description: 'System instruction for generating entity-relationship diagrams.',
+  role: 'system',
+  variables: [],
+  defaultContent: erSystemPrompt,
+  schema: erSchema,
+});
+
+definePromptTemplate('flowchart-system', {
+  description: 'System instruction for generating flowcharts.',
+  role: 'system',
+  variables: [],
+  defaultContent: flowchartSystemPrompt,
+  schema: flowchartSchema,
+});
+
+export type Modeler = 'sequence' | 'er' | 'flowchart';
+
+const MODELERS: Record<Modeler, { name: string; promptKey: string; schema: any; validate: (input: any) => ModelResult<unknown> }> = {
+  sequence: { name: 'sequence diagram', promptKey: 'sequence-system', schema: sequenceSchema, validate: validateSequenceDiagram },
+  er: { name: 'ER diagram', promptKey: 'er-system', schema: erSchema, validate: validateErDiagram },
+  flowchart: { name: 'flowchart', promptKey: 'flowchart-system', schema: flowchartSchema, validate: validateFlowchart },
+};
+
+/**
+ * Asks the model for a sequence diagram, ER diagram or flowchart and validates it.
+ * Shared by the internal and public endpoints.
+ */
+export const generateModel = async (modeler: Modeler, prompt: string, user: User, endpoint: string, options: { userApiKey?: string; noCache?: boolean } = {}) => {
+  const { name, promptKey, schema, validate } = MODELERS[modeler];
+  const system = await resolvePrompt(promptKey, {}, user.id);
+  const meta = aiService.createGenerationMeta({ endpoint, user, prompts: [system] });
+  const { value: data, cached, chargeCredit } = await withGenerationCache(
+    { modeler, prompt, prompts: [system], userApiKey: options.userApiKey, bypass: !!options.noCache },
+    meta,
+    () => aiService.generateJsonFromPrompt(
+      system.content,
+      `Generate the JSON for a ${name} for the following prompt: "${prompt}"`,
+      schema,
+      options.userApiKey,
+      meta
+    )
+  );
+  let result: ModelResult<unknown>;
+  try {
+    result = validate(data);
+  } catch (e: any) {
+    // Unusable model output is a generation failure, not a bad request.
+    throw new Error(`The AI model returned an unusable ${name}: ${e.message.replace('INVALID_MODEL: ', '')}`);
+  }
+  return { ...result, cached, chargeCredit, meta };
+};
+
+/**
+ * Reads the tables and foreign keys of a SQL DDL script into a validated ER diagram.
+ */
+export const erDiagramFromSql = (body: any) => {
+  const { content, title } = body;
+  if (typeof content !== 'string' || !content.trim()) {
+    throw new Error('INVALID_IMPORT_SOURCE: Provide the SQL script as "content".');
+  }
+  return validateErDiagram(parseSqlDdl(content, typeof title === 'string' && title.trim() ? title.trim() : undefined));
+};
+
+// --- CONTROLLER FUNCTIONS ---
+
+const createGenerateHandler = (modeler: Modeler, endpoint: string) =>
+  async (req: express.Request, res: express.Response) => {
+    try {
+      const user = await resolveRequestUser(req);
+      if (!user) {
+        return res.status(401).json({ error: 'Unauthorized: Invalid authentication token.' });
+      }
+
+      const { prompt, userApiKey, noCache } = req.body;
+      if (!prompt || typeof prompt !== 'string') {
+        return res.status(400).json({ error: 'Missing or invalid "prompt" in request body.' });
+      }
+
+      if (!userApiKey) {
+        const { allowed, error: limitError, generationBalance } = await canUserGenerate(user);
+        if (!allowed) {
+          const error = new Error(limitError);
+          (error as any).generationBalance = generationBalance;
+          throw error;
+        }
+      }
+
+      const { model, warnings, cached, chargeCredit, meta } = await generateModel(modeler, prompt, user, endpoint, { userApiKey, noCache });
+
+      const newGenerationBalance = userApiKey || !chargeCredit ? null : await consumeGenerationCredit(user);
+
+      res.json({ model, warnings, newGenerationBalance, cached, meta });
+    } catch (e: any) {
+      if (e.message?.includes('GENERATION_LIMIT_EXCEEDED')) {
+        return res.status(429).json({ error: 'GENERATION_LIMIT_EXCEEDED', generationBalance: e.generationBalance });
+      }
+      console.error(`[Backend Error] ${e.message} `);
+      res.status(500).json({ error: e.message || 'An unexpected error occurred.' });
+    }
+  };
+
+export const handleGenerateSequenceDiagram = createGenerateHandler('sequence', '/generate-sequence-diagram');
+export const handleGenerateErDiagram = createGenerateHandler('er', '/generate-er-diagram');
+export const handleGenerateFlowchart = createGenerateHandler('flowchart', '/generate-flowchart');
+
+/**
+ * Builds an ER diagram from an uploaded SQL DDL script. No AI is involved, so no credit is used.
+ */
+export const handleImportSqlDdl = async (req: express.Request, res: express.Response) => {
+  try {
+    const user = await resolveRequestUser(req);
+    if (!user) {
+      return res.status(401).json({ error: 'Unauthorized: Invalid authentication token.' });
+    }
+    const { model, warnings } = erDiagramFromSql(req.body);
+    res.json({ model, warnings, newGenerationBalance: null });
+  } catch (e: any) {
+    if (e.message?.startsWith('INVALID_IMPORT_SOURCE')) {
+      return res.status(400).json({ error: e.message.replace('INVALID_IMPORT_SOURCE: ', '') });
+    }
+    console.error(`[Backend Error] ${e.message}`);
+    res.status(500).json({ error: e.message || 'Failed to import the SQL.' });
+  }
+};
@@ -0,0 +1,111 @@
+import * as express from 'express';
+import * as aiService from '../services/aiService';
+import * as promptService from '../services/promptService';
+
+// --- PROMPT TEMPLATES (ADMIN) ---
+
+// Maps the service's error prefixes to HTTP statuses.
+const ERROR_STATUSES: Array<[string, number]> = [
+    ['INVALID_PROMPT_TEMPLATE', 400],
+    ['PROMPT_NOT_FOUND', 404],
+];
+
+const handleError = (res: express.Response, e: any, fallback: string) => {
+    const match = ERROR_STATUSES.find(([code]) => e.message?.startsWith(code));
+    if (match) {
+        const [code, status] = match;
+        return res.status(status).json({ error: e.message.replace(`${code}: `, ''), code });
+    }
+    console.error(`[Prompts] ${e.message}`);
+    res.status(500).json({ error: e.message || fallback });
+};
+
+export const handleListPrompts = async (req: express.Request, res: express.Response) => {
+    try {
+        const prompts = await Promise.all(promptService.listPromptDefinitions().map(async ({ key, description, role, variables }) => ({
+            key,
+            description,
+            role,
+            variables,
+            rollout: await promptService.getRollout(key),
+        })));
+        res.json({ prompts });
+    } catch (e: any) {
+        handleError(res, e, 'Failed to list prompt templates.');
+    }
+};
+
+export const handleGetPrompt = async (req: express.Request, res: express.Response) => {
+    try {
+        const { key } = req.params;
+        const { description, role, variables } = promptService.getPromptDefinition(key);
+        const [versions, rollout] = await Promise.all([promptService.listPromptVersions(key), promptService.getRollout(key)]);
+        res.json({ key, description, role, variables, rollout, versions });
+    } catch (e: any) {
+        handleError(res, e, 'Failed to fetch the prompt template.');
+    }
+};
+
+export const handleCreatePromptVersion = async (req: express.Request, res: express.Response) => {
+    try {
+        const { content, description } = req.body;
+        if (typeof content !== 'string') {
+            return res.status(400).json({ error: 'Missing or invalid "content" in request body.' });
+        }
+        res.status(201).json(await promptService.createPromptVersion(req.params.key, content, typeof description === 'string' ? description : undefined));
+    } catch (e: any) {
+        handleError(res, e, 'Failed to save the prompt template.');
+    }
+};
+
+export const handleSetPromptRollout = async (req: express.Request, res: express.Response) => {
+    try {
+        const { allocations } = req.body;
+        const rollout = await promptService.setRollout(req.params.key, allocations);
+        res.json({ key: req.params.key, rollout });
+    } catch (e: any) {
+        handleError(res, e, 'Failed to update the rollout.');
+    }
+};
+
+/**
+ * Renders a template with the given variables and, with `run: true`, sends it to the AI.
+ * The template is either unsaved `content` or a stored `version` (default: the built-in default).
+ * System templates are run against `input` as the user prompt; user templates against an
+ * optional `systemInstruction`.
+ */
+export const handlePreviewPrompt = async (req: express.Request, res: express.Response) => {
+    try {
+        const { key } = req.params;
+        const { content, version = 0, variables = {}, run = false, input, systemInstruction = '' } = req.body;
+        const definition = promptService.getPromptDefinition(key);
+        if (variables === null || typeof variables !== 'object') {
+            return res.status(400).json({ error: '"variables" must be an object.' });
+        }
+
+        let template: string;
+        if (typeof content === 'string') {
+            promptService.validateTemplate(key, content);
+            template = content;
+        } else {
+            if (!Number.isInteger(version) || version < 0) {
+                return res.status(400).json({ error: '"version" must be a non-negative integer.' });
+            }
+            template = (await promptService.getPromptVersion(key, version)).content;
+        }
+        const rendered = promptService.renderTemplate(template, variables);
+        if (!run) return res.json({ key, rendered });
+
+        if (definition.role === 'system' && (typeof input !== 'string' || !input)) {
+            return res.status(400).json({ error: 'An "input" user prompt is required to run a system template.' });
+        }
+        const [system, userPrompt] = definition.role === 'system' ? [rendered, input] : [String(systemInstruction), rendered];
+        const meta = aiService.createGenerationMeta({ endpoint: '/admin/prompts/preview' });
+        const output = definition.schema
+            ? await aiService.generateJsonFromPrompt(system, userPrompt, definition.schema, undefined, meta)
+            : await aiService.generateTextFromPrompt(system, userPrompt, undefined, meta);
+        res.json({ key, rendered, output, meta });
+    } catch (e: any) {
+        handleError(res, e, 'Failed to preview the prompt template.');
+    }
+};
@@ -1,7 +1,77 @@
 import * as express from 'express';
+import { User } from '@supabase/supabase-js';
+import { supabaseAdmin } from '../supabaseClient';
 import * as aiService from '../services/aiService';
-import { responseSchema as diagramResponseSchema, systemPrompt as diagramSystemPrompt } from './generationController'; // Re-use the schema and prompt
+import { validateAndRepairDiagram } from '../services/diagramValidator';
+import { autoLayoutDiagram, LAYOUT_MODES } from '../services/layoutService';
+import { buildEditPrompt, mergeEditedDiagram } from '../services/diagramEditor';
+import { diffDiagrams } from '../services/diagramDiff';
+import { isRenderFormat, RENDER_FORMATS, renderDiagram } from '../services/renderService';
+import { resolvePrompt } from '../services/promptService';
+import { withGenerationCache } from '../services/generationCache';
+import { sendDiagramExport } from './exportController';
+import { responseSchema as diagramResponseSchema } from './generationController'; // Re-use the schema; the prompts are shared templates
+import { chartFromTableInput, generateChartFromPrompt } from './chartController';
+import { CHART_TYPES, isChartType } from '../services/chartService';
+import { erDiagramFromSql, generateModel, Modeler } from './modelerController';
+import { countBillableCalls, currentPeriod, getApiQuotaConfig, getPlanQuota, recordApiCall, summarizeApiUsage } from '../services/apiQuotaService';
+import { listApiKeys } from '../services/personalApiKeyService';
+import { countUnfinishedJobs, enqueueJob, getJob, registerJobHandler } from '../services/jobQueue';
+import { createJobCallback } from '../services/jobs/callback';
 
+interface PublicDiagramRequest {
+    prompt: string;
+    layout: string;
+    format: string;
+    noCache: boolean;
+}
+
+interface DiagramJobInput {
+    request: PublicDiagramRequest;
+    apiKeyId: string | null;
+}
+
+const GENERATE_DIAGRAM_JOB = 'diagram.generate';
+
+const generatePublicDiagram = async ({ prompt, layout, format, noCache }: PublicDiagramRequest, user: User) => {
+    // The user's personal API key (used for auth) is NOT passed to the AI service.
+    // This ensures the public API always uses the app's centrally managed, rotating key pool.
+    const system = await resolvePrompt('diagram-system', {}, user.id);
+    const meta = aiService.createGenerationMeta({ endpoint: '/v1/diagrams/generate', user, prompts: [system] });
+    const { value: data, cached } = await withGenerationCache(
+        { modeler: 'architecture', prompt, prompts: [system], bypass: noCache },
+        meta,
+        () => aiService.generateJsonFromPrompt(
+            system.content,
+            `Generate the JSON for the following prompt: "${prompt}"`,
+            diagramResponseSchema,
+            undefined,
+            meta
+        )
+    );
+
+    const { diagram: validated, warnings } = validateAndRepairDiagram(data);
+    const diagram = layout === 'auto' ? autoLayoutDiagram(validated) : validated;
+
+    const rendered = isRenderFormat(format) ? renderDiagram(diagram, format) : undefined;
+    return { diagram, warnings, rendered, cached, meta };
+};
+
+// Async generations run as jobs; the owner is loaded again because jobs only keep their id.
+// The request that queued the job was not billable; a job is billed once, when it succeeds.
+registerJobHandler(GENERATE_DIAGRAM_JOB, async ({ request, apiKeyId }: DiagramJobInput, job) => {
+    const { data: { user }, error } = await supabaseAdmin.auth.admin.getUserById(job.userId);
+    if (error) throw error;
+    if (!user) throw new Error('The user who started this job no longer exists.');
+    const result = await generatePublicDiagram(request, user);
+    await recordApiCall({ userId: user.id, apiKeyId, route: '/diagrams/generate?async=true', status: 200, billable: true });
+    return result;
+});
+
+/**
+ * Generates a diagram. With `?async=true` the generation runs as a job instead: the response
+ * is a 202 with the job, which can be polled at GET /v1/jobs/:id or reported to `callbackUrl`.
+ */
 export const handlePublicGenerateDiagram = async (req: express.Request, res: express.Response) => {
     // The user is attached by the apiKeyAuth middleware
     if (!req.user) {
@@ -10,20 +80,217 @@ export const handlePublicGenerateDiagram = async (req: express.Request, res: exp
     }
 
     try {
-        const { prompt } = req.body;
+        const { prompt, layout = 'ai', noCache, callbackUrl, callbackSecret } = req.body;
         if (!prompt || typeof prompt !== 'string') {
             return res.status(400).json({ error: 'Missing or invalid "prompt" in request body.' });
         }
-        
-        // The user's personal API key (used for auth) is NOT passed to the AI service.
-        // This ensures the public API always uses the app's centrally managed, rotating key pool.
+        if (!LAYOUT_MODES.includes(layout)) {
+            return res.status(400).json({ error: `Invalid "layout". Expected one of: ${LAYOUT_MODES.join(', ')}.` });
+        }
+        const format = req.query.format ?? 'json';
+        if (format !== 'json' && !isRenderFormat(format)) {
+            return res.status(400).json({ error: `Invalid "format". Expected one of: json, ${RENDER_FORMATS.join(', ')}.` });
+        }
+        const request: PublicDiagramRequest = { prompt, layout, format, noCache: !!noCache };
+
+        if (req.query.async !== 'true') {
+            if (callbackUrl !== undefined) {
+                return res.status(400).json({ error: '"callbackUrl" is only supported with ?async=true.' });
+            }
+            return res.json(await generatePublicDiagram(request, req.user));
+        }
+
+        const input: DiagramJobInput = { request, apiKeyId: req.apiKey?.id ?? null };
+        const job = await enqueueJob({
+            type: GENERATE_DIAGRAM_JOB,
+            userId: req.user.id,
+            input,
+            callback: createJobCallback(callbackUrl, callbackSecret),
+        });
+        res.locals.billable = false;
+        res.status(202).location(`/api/v1/jobs/${job.id}`).json({ job });
+    } catch (e: any) {
+        if (e.message?.startsWith('INVALID_JOB_REQUEST')) {
+            return res.status(400).json({ error: e.message.replace('INVALID_JOB_REQUEST: ', '') });
+        }
+        console.error(`[Public API Error] ${e.message}`);
+        res.status(500).json({ error: e.message || 'An internal server error occurred.' });
+    }
+};
+
+export const handlePublicGetJob = async (req: express.Request, res: express.Response) => {
+    if (!req.user) {
+        return res.status(401).json({ error: 'Unauthorized.' });
+    }
+
+    try {
+        const job = await getJob(req.user.id, req.params.id);
+        if (!job) {
+            return res.status(404).json({ error: 'Job not found.' });
+        }
+        res.json({ job });
+    } catch (e: any) {
+        console.error(`[Public API Error] ${e.message}`);
+        res.status(500).json({ error: e.message || 'An internal server error occurred.' });
+    }
+};
+
+export const handlePublicEditDiagram = async (req: express.Request, res: express.Response) => {
+    if (!req.user) {
+        return res.status(401).json({ error: 'Unauthorized.' });
+    }
+
+    try {
+        const { diagram: currentDiagram, instruction } = req.body;
+        if (!currentDiagram || typeof currentDiagram !== 'object' || !Array.isArray(currentDiagram.nodes)) {
+            return res.status(400).json({ error: 'Missing or invalid "diagram" in request body.' });
+        }
+        if (!instruction || typeof instruction !== 'string') {
+            return res.status(400).json({ error: 'Missing or invalid "instruction" in request body.' });
+        }
+        const format = req.query.format ?? 'json';
+        if (format !== 'json' && !isRenderFormat(format)) {
+            return res.status(400).json({ error: `Invalid "format". Expected one of: json, ${RENDER_FORMATS.join(', ')}.` });
+        }
+
+        const { diagram: original } = validateAndRepairDiagram(currentDiagram);
+        const system = await resolvePrompt('diagram-edit-system', {}, req.user.id);
+        const meta = aiService.createGenerationMeta({ endpoint: '/v1/diagrams/edit', user: req.user, prompts: [system] });
         const data = await aiService.generateJsonFromPrompt(
-            diagramSystemPrompt,
-            `Generate the JSON for the following prompt: "${prompt}"`,
-            diagramResponseSchema
+            system.content,
+            buildEditPrompt(original, instruction),
+            diagramResponseSchema,
+            undefined,
+            meta
         );
-        
-        res.json({ diagram: data });
+
+        const { diagram: edited, warnings: validationWarnings } = validateAndRepairDiagram(data);
+        const { diagram, warnings: mergeWarnings } = mergeEditedDiagram(original, edited);
+
+        const rendered = isRenderFormat(format) ? renderDiagram(diagram, format) : undefined;
+        res.json({ diagram, changes: diffDiagrams(original, diagram), warnings: [...validationWarnings, ...mergeWarnings], rendered, meta });
+    } catch (e: any) {
+        console.error(`[Public API Error] ${e.message}`);
+        res.status(500).json({ error: e.message || 'An internal server error occurred.' });
+    }
+};
+
+export const handlePublicExportDiagram = async (req: express.Request, res: express.Response) => {
+    if (!req.user) {
+        return res.status(401).json({ error: 'Unauthorized.' });
+    }
+
+    try {
+        sendDiagramExport(req, res);
+    } catch (e: any) {
+        console.error(`[Public API Error] ${e.message}`);
+        res.status(500).json({ error: e.message || 'An internal server error occurred.' });
+    }
+};
+
+export const handlePublicGenerateChart = async (req: express.Request, res: express.Response) => {
+    if (!req.user) {
+        return res.status(401).json({ error: 'Unauthorized.' });
+    }
+
+    try {
+        const { type, prompt } = req.body;
+        if (!isChartType(type)) {
+            return res.status(400).json({ error: `Invalid "type". Expected one of: ${CHART_TYPES.join(', ')}.` });
+        }
+
+        const fromTable = chartFromTableInput(req.body);
+        if (fromTable) {
+            return res.json({ type, ...fromTable });
+        }
+        if (!prompt || typeof prompt !== 'string') {
+            return res.status(400).json({ error: 'Either a "table" or a "prompt" must be provided.' });
+        }
+
+        // Like diagrams, public API charts always use the app's centrally managed keys.
+        const { chart, warnings, meta } = await generateChartFromPrompt(type, prompt, req.user, '/v1/charts/generate');
+        res.json({ type, chart, warnings, meta });
+    } catch (e: any) {
+        if (e.message?.startsWith('INVALID_CHART_INPUT')) {
+            return res.status(400).json({ error: e.message.replace('INVALID_CHART_INPUT: ', ''), code: 'INVALID_CHART_INPUT' });
+        }
+        console.error(`[Public API Error] ${e.message}`);
+        res.status(500).json({ error: e.message || 'An internal server error occurred.' });
+    }
+};
+
+const createPublicGenerateHandler = (modeler: Modeler, endpoint: string) =>
+    async (req: express.Request, res: express.Response) => {
+        if (!req.user) {
+            return res.status(401).json({ error: 'Unauthorized.' });
+        }
+
+        try {
+            const { prompt, noCache } = req.body;
+            if (!prompt || typeof prompt !== 'string') {
+                return res.status(400).json({ error: 'Missing or invalid "prompt" in request body.' });
+            }
+            const { model, warnings, cached, meta } = await generateModel(modeler, prompt, req.user, endpoint, { noCache });
+            res.json({ model, warnings, cached, meta });
+        } catch (e: any) {
+            console.error(`[Public API Error] ${e.message}`);
+            res.status(500).json({ error: e.message || 'An internal server error occurred.' });
+        }
+    };
+
+export const handlePublicGenerateSequenceDiagram = createPublicGenerateHandler('sequence', '/v1/sequence-diagrams/generate');
+export const handlePublicGenerateErDiagram = createPublicGenerateHandler('er', '/v1/er-diagrams/generate');
+export const handlePublicGenerateFlowchart = createPublicGenerateHandler('flowchart', '/v1/flowcharts/generate');
+
+export const handlePublicImportSqlDdl = async (req: express.Request, res: express.Response) => {
+    if (!req.user) {
+        return res.status(401).json({ error: 'Unauthorized.' });
+    }
+
+    try {
+        const { model, warnings } = erDiagramFromSql(req.body);
+        res.json({ model, warnings });
+    } catch (e: any) {
+        if (e.message?.startsWith('INVALID_IMPORT_SOURCE')) {
+            return res.status(400).json({ error: e.message.replace('INVALID_IMPORT_SOURCE: ', '') });
+        }
+        console.error(`[Public API Error] ${e.message}`);
+        res.status(500).json({ error: e.message || 'An internal server error occurred.' });
+    }
+};
+
+/**
+ * Reports the caller's v1 usage in the current month: billable calls and unfinished async jobs
+ * against the plan's quota, and every call broken down by API key and by route.
+ */
+export const handlePublicGetUsage = async (req: express.Request, res: express.Response) => {
+    if (!req.user) {
+        return res.status(401).json({ error: 'Unauthorized.' });
+    }
+
+    try {
+        const plan = req.user.user_metadata?.plan || 'free';
+        const period = currentPeriod();
+        const config = await getApiQuotaConfig();
+        const quota = config.enabled ? getPlanQuota(config, plan) : null;
+        const [used, reserved, { byKey, byRoute }, keys] = await Promise.all([
+            countBillableCalls(req.user.id, period),
+            countUnfinishedJobs(req.user.id),
+            summarizeApiUsage(req.user.id, period),
+            listApiKeys(req.user),
+        ]);
+        const keysById = new Map(keys.map(key => [key.id, key]));
+
+        res.json({
+            period,
+            plan,
+            quota,
+            used,
+            reserved,
+            remaining: quota ? Math.max(0, quota.monthlyRequests - used - reserved) : null,
+            byKey: byKey.map(group => ({ ...group, name: keysById.get(group.key)?.name ?? null, prefix: keysById.get(group.key)?.prefix ?? null })),
+            byRoute,
+        });
     } catch (e: any) {
         console.error(`[Public API Error] ${e.message}`);
         res.status(500).json({ error: e.message || 'An internal server error occurred.' });
@@ -0,0 +1,104 @@
+import * as express from 'express';
+import { resolveRequestUser } from '../userUtils';
+import * as shareService from '../services/shareService';
+import { isRenderFormat, RENDER_FORMATS, renderDiagram, RenderedDiagram } from '../services/renderService';
+import { createLruCache } from '../services/cache/lru';
+
+// PNG renderings of shared diagrams, by token and revision, so a popular link is rasterized
+// once per revision rather than on every view.
+const pngCache = createLruCache<RenderedDiagram>(200, 10 * 60 * 1000);
+
+// Maps the service's error prefixes to HTTP statuses.
+const ERROR_STATUSES: Array<[string, number]> = [
+    ['INVALID_SHARE_OPTIONS', 400],
+    ['SHARE_PASSWORD_REQUIRED', 401],
+    ['SHARE_PASSWORD_INVALID', 403],
+    ['DIAGRAM_NOT_FOUND', 404],
+    ['SHARE_NOT_FOUND', 404],
+    ['SHARE_EXPIRED', 410],
+    ['SHARE_PASSWORD_LOCKED', 429],
+];
+
+const handleError = (res: express.Response, e: any, fallback: string) => {
+    const match = ERROR_STATUSES.find(([code]) => e.message?.startsWith(code));
+    if (match) {
+        const [code, status] = match;
+        return res.status(status).json({ error: e.message.replace(`${code}: `, ''), code });
+    }
+    console.error(`[Diagram Share] ${e.message}`);
+    res.status(500).json({ error: e.message || fallback });
+};
+
+export const handleCreateShare = async (req: express.Request, res: express.Response) => {
+    try {
+        const user = await resolveRequestUser(req);
+        if (!user) return res.status(401).json({ error: 'Unauthorized: Invalid authentication token.' });
+
+        const { password, expiresAt } = req.body ?? {};
+        if (password !== undefined && (typeof password !== 'string' || password.length < shareService.MIN_SHARE_PASSWORD_LENGTH)) {
+            return res.status(400).json({ error: `"password" must be a string of at least ${shareService.MIN_SHARE_PASSWORD_LENGTH} characters.` });
+        }
+        const expiry = expiresAt !== undefined ? new Date(expiresAt) : undefined;
+        if (expiry && isNaN(expiry.getTime())) {
+            return res.status(400).json({ error: '"expiresAt" must be an ISO 8601 date.' });
+        }
+
+        const share = await shareService.createShare(user.id, req.params.id, { password, expiresAt: expiry });
+        res.status(201).json(share);
+    } catch (e: any) {
+        handleError(res, e, 'Failed to create the share link.');
+    }
+};
+
+export const handleListShares = async (req: express.Request, res: express.Response) => {
+    try {
+        const user = await resolveRequestUser(req);
+        if (!user) return res.status(401).json({ error: 'Unauthorized: Invalid authentication token.' });
+        res.json(await shareService.listShares(user.id, req.params.id));
+    } catch (e: any) {
+        handleError(res, e, 'Failed to list share links.');
+    }
+};
+
+export const handleRevokeShare = async (req: express.Request, res: express.Response) => {
+    try {
+        const user = await resolveRequestUser(req);
+        if (!user) return res.status(401).json({ error: 'Unauthorized: Invalid authentication token.' });
+        res.json(await shareService.revokeShare(user.id, req.params.id, req.params.shareId));
+    } catch (e: any) {
+        handleError(res, e, 'Failed to revoke the share link.');
+    }
+};
+
+/**
+ * Public, unauthenticated view of a shared diagram. The password may be sent in the
+ * `X-Share-Password` header (GET) or as `password` in the JSON body (POST).
+ * An SVG rendering is included by default; `?format=png` returns a PNG instead.
+ */
+export const handleGetSharedDiagram = async (req: express.Request, res: express.Response) => {
+    try {
+        const format = req.query.format ?? 'svg';
+        if (!isRenderFormat(format)) {
+            return res.status(400).json({ error: `Invalid "format". Expected one of: ${RENDER_FORMATS.join(', ')}.` });
+        }
+        const headerPassword = req.headers['x-share-password'];
+        const password = typeof req.body?.password === 'string' ? req.body.password : typeof headerPassword === 'string' ? headerPassword : undefined;
+
+        const shared = await shareService.getSharedDiagram(req.params.token, password);
+
+        // The diagram is still useful without a rendering, so a render failure is not fatal.
+        const cacheKey = `${req.params.token}:${shared.revision}`;
+        let rendered = format === 'png' ? pngCache.get(cacheKey) : undefined;
+        try {
+            if (!rendered) rendered = renderDiagram(shared.data, format);
+            if (format === 'png') pngCache.set(cacheKey, rendered);
+        } catch (renderError: any) {
+            console.error(`[Diagram Share] Rendering failed: ${renderError.message}`);
+        }
+
+        res.set('Cache-Control', 'no-store');
+        res.json({ title: shared.title, revision: shared.revision, updatedAt: shared.updated_at, diagram: shared.data, rendered });
+    } catch (e: any) {
+        handleError(res, e, 'Failed to load the shared diagram.');
+    }
+};
@@ -1,8 +1,9 @@
 import * as express from 'express';
+import { User } from '@supabase/supabase-js';
 import { supabaseAdmin } from '../supabaseClient';
 import { authenticateUser } from '../userUtils';
 import { getDodoClient } from '../dodo-payments';
-import crypto from 'crypto';
+import { API_KEY_SCOPES, createApiKey, isApiKeyActive, LEGACY_KEY_NAME, listApiKeys, revokeApiKey } from '../services/personalApiKeyService';
 
 // --- HELPER FUNCTIONS ---
 const handleError = (res: express.Response, error: unknown, defaultMessage: string = 'An unexpected error occurred.') => {
@@ -13,20 +14,42 @@ const handleError = (res: express.Response, error: unknown, defaultMessage: stri
 
 // --- USER API KEY MANAGEMENT ---
 
-export const handleGetApiKey = async (req: express.Request, res: express.Response) => {
+// Maps the key service's error prefixes to HTTP statuses.
+const API_KEY_ERROR_STATUSES: Array<[string, number]> = [
+    ['INVALID_API_KEY_REQUEST', 400],
+    ['API_KEY_NOT_FOUND', 404],
+    ['API_KEY_LIMIT_REACHED', 409],
+];
+
+const handleApiKeyError = (res: express.Response, e: any, defaultMessage: string) => {
+    const match = API_KEY_ERROR_STATUSES.find(([code]) => e?.message?.startsWith(code));
+    if (match) {
+        const [code, status] = match;
+        return res.status(status).json({ error: e.message.replace(`${code}: `, ''), code });
+    }
+    return handleError(res, e, defaultMessage);
+};
+
+/**
+ * Lists the user's API keys. Only the visible prefix of each key is returned.
+ */
+export const handleListApiKeys = async (req: express.Request, res: express.Response) => {
     const user = await authenticateUser(req);
     if (!user) {
         return res.status(401).json({ error: 'Unauthorized.' });
     }
     try {
-        const apiKey = user.app_metadata?.personal_api_key || null;
-        res.json({ apiKey });
+        res.json({ keys: await listApiKeys(user), availableScopes: API_KEY_SCOPES });
     } catch (e) {
-        handleError(res, e, 'Failed to retrieve API key.');
+        handleApiKeyError(res, e, 'Failed to retrieve API keys.');
     }
 };
 
-export const handleGenerateApiKey = async (req: express.Request, res: express.Response) => {
+/**
+ * Creates a named key with `scopes` (default: all) and an optional `expiresAt`.
+ * The full key is only part of this response.
+ */
+export const handleCreateApiKey = async (req: express.Request, res: express.Response) => {
     const user = await authenticateUser(req);
     if (!user) {
         return res.status(401).json({ error: 'Unauthorized.' });
@@ -38,40 +61,95 @@ export const handleGenerateApiKey = async (req: express.Request, res: express.Re
     }
 
     try {
-        const newKey = `cg_sk_${crypto.randomBytes(20).toString('hex')}`;
-        
-        const { data, error } = await supabaseAdmin.auth.admin.updateUserById(
-            user.id,
-            { app_metadata: { ...user.app_metadata, personal_api_key: newKey } }
-        );
+        const { name, scopes, expiresAt } = req.body;
+        const { apiKey, key } = await createApiKey(user, { name, scopes, expiresAt });
+        res.status(201).json({ apiKey, key });
+    } catch (e) {
+        handleApiKeyError(res, e, 'Failed to generate API key.');
+    }
+};
 
-        if (error || !data.user) {
-            throw error || new Error('Failed to update user with new key.');
-        }
+export const handleRevokeApiKey = async (req: express.Request, res: express.Response) => {
+    const user = await authenticateUser(req);
+    if (!user) {
+        return res.status(401).json({ error: 'Unauthorized.' });
+    }
 
-        res.status(201).json({ apiKey: newKey });
+    try {
+        await revokeApiKey(user, req.params.keyId);
+        res.status(204).send(); // No content
     } catch (e) {
-        handleError(res, e, 'Failed to generate API key.');
+        handleApiKeyError(res, e, 'Failed to revoke API key.');
     }
 };
 
-export const handleRevokeApiKey = async (req: express.Request, res: express.Response) => {
+// --- DEPRECATED SINGLE-KEY ROUTES ---
+// `/user/api-key` predates named keys and is kept for clients that still use it. It manages the
+// active keys named LEGACY_KEY_NAME; new clients should use `/user/api-keys`.
+
+const markDeprecated = (res: express.Response) => {
+    res.set({ Deprecation: 'true', Link: '</api/user/api-keys>; rel="successor-version"' });
+};
+
+const legacyKeys = async (user: User) =>
+    (await listApiKeys(user)).filter(key => key.name === LEGACY_KEY_NAME && isApiKeyActive(key));
+
+/**
+ * Returns the newest legacy key. Keys are no longer stored in full, so `apiKey` is only its prefix.
+ */
+export const handleGetLegacyApiKey = async (req: express.Request, res: express.Response) => {
     const user = await authenticateUser(req);
     if (!user) {
         return res.status(401).json({ error: 'Unauthorized.' });
     }
+    markDeprecated(res);
+    try {
+        const key = (await legacyKeys(user)).pop();
+        res.json({ apiKey: key ? `${key.prefix}…` : null });
+    } catch (e) {
+        handleApiKeyError(res, e, 'Failed to retrieve API key.');
+    }
+};
+
+/**
+ * Replaces the legacy key with a new one that has every scope, as the route always did.
+ */
+export const handleGenerateLegacyApiKey = async (req: express.Request, res: express.Response) => {
+    const user = await authenticateUser(req);
+    if (!user) {
+        return res.status(401).json({ error: 'Unauthorized.' });
+    }
+    markDeprecated(res);
+
+    const plan = user.user_metadata?.plan || 'free';
+    if (!['pro', 'business'].includes(plan)) {
+        return res.status(403).json({ error: 'Forbidden: API key generation is a premium feature.' });
+    }
 
     try {
-        const { error } = await supabaseAdmin.auth.admin.updateUserById(
-            user.id,
-            { app_metadata: { ...user.app_metadata, personal_api_key: null } }
-        );
-        
-        if (error) throw error;
+        for (const key of await legacyKeys(user)) {
+            await revokeApiKey(user, key.id);
+        }
+        const { apiKey } = await createApiKey(user, { name: LEGACY_KEY_NAME });
+        res.status(201).json({ apiKey });
+    } catch (e) {
+        handleApiKeyError(res, e, 'Failed to generate API key.');
+    }
+};
 
+export const handleRevokeLegacyApiKey = async (req: express.Request, res: express.Response) => {
+    const user = await authenticateUser(req);
+    if (!user) {
+        return res.status(401).json({ error: 'Unauthorized.' });
+    }
+    markDeprecated(res);
+    try {
+        for (const key of await legacyKeys(user)) {
+            await revokeApiKey(user, key.id);
+        }
         res.status(204).send(); // No content
     } catch (e) {
-        handleError(res, e, 'Failed to revoke API key.');
+        handleApiKeyError(res, e, 'Failed to revoke API key.');
     }
 };
 
@@ -74,6 +74,7 @@ if (process.env.DODO_MODE === 'test') {
 import express from 'express';
 import cors from 'cors';
 import apiRoutes from './routes'; // Import the centralized routes
+import { migrateMetadataKeysInBackground } from './services/personalApiKeyService';
 
 const app = express();
 const port = 3000;
@@ -102,6 +103,8 @@ const corsOptions: cors.CorsOptions = {
     },
     methods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS'],
     allowedHeaders: ['Content-Type', 'Authorization'],
+    // Lets the frontend read the rate limit state of its requests.
+    exposedHeaders: ['RateLimit-Limit', 'RateLimit-Remaining', 'RateLimit-Reset', 'RateLimit-Policy', 'Retry-After'],
     credentials: true,
 };
 
@@ -120,4 +123,6 @@ app.use('/api', apiRoutes);
 // --- Server Startup ---
 app.listen(port, () => {
     console.log(`[Backend] CubeGen AI server listening at http://localhost:${port}`);
+    // Moves API keys still kept in app_metadata into the api_keys table.
+    migrateMetadataKeysInBackground();
 });
@@ -1,12 +1,14 @@
 import * as express from 'express';
-import { supabaseAdmin } from '../supabaseClient';
 import { User } from '@supabase/supabase-js';
+import { ApiKeyScope, ApiKeySummary, findApiKeyOwner, isApiKeyActive, isLastUsedStale, summarizeApiKey, touchApiKey } from '../services/personalApiKeyService';
 
 // Extend the Express Request type to include our user property
 declare global {
     namespace Express {
         interface Request {
             user?: User;
+            // The personal API key the request was authenticated with (v1 routes only).
+            apiKey?: ApiKeySummary;
         }
     }
 }
@@ -20,27 +22,41 @@ export const apiKeyAuth = async (req: express.Request, res: express.Response, ne
     const apiKey = authHeader.split(' ')[1];
 
     try {
-        // Find the user whose app_metadata contains the personal_api_key
-        const { data: { users }, error: findError } = await supabaseAdmin.auth.admin.listUsers();
-        if (findError) throw findError;
-
-        const targetUser = users.find((u: User) => u.app_metadata?.personal_api_key === apiKey);
-
-        if (!targetUser) {
+        const match = await findApiKeyOwner(apiKey);
+        if (!match) {
             return res.status(401).json({ error: 'Unauthorized: Invalid API key.' });
         }
+        const { user: targetUser, key } = match;
+        if (!isApiKeyActive(key)) {
+            return res.status(401).json({ error: `Unauthorized: This API key has ${key.revokedAt ? 'been revoked' : 'expired'}.` });
+        }
 
         const plan = targetUser.user_metadata?.plan || 'free';
         if (!['pro', 'business'].includes(plan)) {
             return res.status(403).json({ error: 'Forbidden: This API key is not associated with a Pro or Business plan.' });
         }
 
+        if (isLastUsedStale(key)) {
+            touchApiKey(key).catch(e => console.error(`[API Key Auth] Failed to record key usage: ${e.message}`));
+        }
+
         // Attach user to the request object for use in controllers
         req.user = targetUser;
+        req.apiKey = summarizeApiKey(key);
         next();
 
     } catch (e) {
         console.error("[API Key Auth] Unhandled exception in middleware:", e);
         return res.status(500).json({ error: "Internal server error during authentication." });
     }
-};
\ No newline at end of file
+};
+
+/**
+ * Rejects v1 requests whose API key was not granted `scope`. Must run after `apiKeyAuth`.
+ */
+export const requireScope = (scope: ApiKeyScope) => (req: express.Request, res: express.Response, next: express.NextFunction) => {
+    if (!req.apiKey?.scopes.includes(scope)) {
+        return res.status(403).json({ error: `Forbidden: This API key does not have the "${scope}" scope.`, code: 'INSUFFICIENT_SCOPE', requiredScope: scope });
+    }
+    next();
+};
@@ -0,0 +1,63 @@
+import * as express from 'express';
+import { getQuotaStatus, recordApiCall } from '../services/apiQuotaService';
+
+/**
+ * Records every v1 call once its response is sent. Must run after `apiKeyAuth`.
+ */
+export const meterApiUsage = (req: express.Request, res: express.Response, next: express.NextFunction) => {
+    const user = req.user;
+    if (user) {
+        res.on('finish', () => {
+            recordApiCall({
+                userId: user.id,
+                apiKeyId: req.apiKey?.id ?? null,
+                // The route pattern (e.g. '/diagrams/:id') groups calls better than the URL.
+                route: req.route?.path ?? req.originalUrl.split('?')[0],
+                status: res.statusCode,
+                billable: res.locals.billable === true,
+            });
+        });
+    }
+    next();
+};
+
+/**
+ * Marks a v1 route as billable and enforces the owner's monthly quota (see apiQuotaService).
+ * Over the quota, plans with `block` overage get a 429; plans with `warn` overage are let
+ * through with an `X-Quota-Overage` header.
+ */
+export const enforceApiQuota = async (req: express.Request, res: express.Response, next: express.NextFunction) => {
+    if (!req.user) return next();
+    res.locals.billable = true;
+    try {
+        const status = await getQuotaStatus(req.user.id, req.user.user_metadata?.plan || 'free');
+        if (!status?.quota) return next();
+
+        const { quota, used, reserved, period } = status;
+        // Unfinished async jobs hold a unit each, so queueing jobs cannot outrun the quota.
+        const consumed = used + reserved;
+        res.set({
+            'X-Quota-Limit': String(quota.monthlyRequests),
+            'X-Quota-Remaining': String(Math.max(0, quota.monthlyRequests - consumed - 1)),
+            'X-Quota-Reset': period.end,
+        });
+        if (status.exceeded && quota.overage === 'block') {
+            return res.status(429).json({
+                error: `Monthly API quota of ${quota.monthlyRequests} requests exceeded. It resets at ${period.end}.`,
+                code: 'QUOTA_EXCEEDED',
+                limit: quota.monthlyRequests,
+                used,
+                reserved,
+                resetsAt: period.end,
+            });
+        }
+        if (status.exceeded) {
+            res.set('X-Quota-Overage', String(consumed - quota.monthlyRequests + 1));
+        }
+        next();
+    } catch (e: any) {
+        // Metering problems should not take the API down with them.
+        console.error(`[API Quota] Failed to check the quota; allowing the request: ${e.message}`);
+        next();
+    }
+};
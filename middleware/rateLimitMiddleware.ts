@@ -0,0 +1,47 @@
+import * as express from 'express';
+import { resolveRequestUser } from '../userUtils';
+import { checkRateLimit } from '../services/rateLimitService';
+
+/**
+ * Limits requests to a route with the caller's token bucket (see rateLimitService) and sets the
+ * `RateLimit-*` headers. On v1 routes it must run after `apiKeyAuth` so the key is known.
+ * @param route The name the route's limits are configured under, e.g. 'chat'.
+ */
+export const rateLimit = (route: string) => async (req: express.Request, res: express.Response, next: express.NextFunction) => {
+    try {
+        // The user is kept on the request, so handlers using resolveRequestUser don't authenticate
+        // again. Anonymous callers are limited by IP.
+        const user = await resolveRequestUser(req);
+        if (user) req.user = user;
+        const identity = req.apiKey ? `key:${req.apiKey.id}` : user ? `user:${user.id}` : `ip:${req.ip}`;
+        const outcome = await checkRateLimit({ route, plan: user?.user_metadata?.plan || 'free', identity, apiKeyId: req.apiKey?.id });
+        if (!outcome) return next();
+
+        const { rule, plan, result } = outcome;
+        const windowSeconds = Math.ceil((rule.capacity / rule.refillPerMinute) * 60);
+        res.set({
+            'RateLimit-Limit': String(rule.capacity),
+            'RateLimit-Remaining': String(result.remaining),
+            'RateLimit-Reset': String(Math.ceil(result.resetMs / 1000)),
+            'RateLimit-Policy': `${rule.capacity};w=${windowSeconds}`,
+        });
+
+        if (!result.allowed) {
+            const retryAfterSeconds = Math.max(1, Math.ceil(result.retryAfterMs / 1000));
+            res.set('Retry-After', String(retryAfterSeconds));
+            return res.status(429).json({
+                error: `Rate limit exceeded. Try again in ${retryAfterSeconds} second${retryAfterSeconds === 1 ? '' : 's'}.`,
+                code: 'RATE_LIMIT_EXCEEDED',
+                route,
+                plan,
+                limit: rule.capacity,
+                refillPerMinute: rule.refillPerMinute,
+                retryAfterSeconds,
+            });
+        }
+        next();
+    } catch (e: any) {
+        console.error(`[Rate Limit] Unhandled exception; allowing the request: ${e.message}`);
+        next();
+    }
+};
@@ -1,10 +1,34 @@
 import * as express from 'express';
 import {
     handleGenerateDiagram,
+    handleGenerateDiagramStream,
+    handleEditDiagram,
     handleGenerateNeuralNetwork,
-    handleExplainArchitecture
+    handleExplainArchitecture,
+    handleExplainArchitectureStream
 } from './controllers/generationController';
-import { handleChatWithAssistant } from './controllers/chatController';
+import { handleChatWithAssistant, handleChatWithAssistantStream } from './controllers/chatController';
+import { handleGenerateChart } from './controllers/chartController';
+import { handleGenerateErDiagram, handleGenerateFlowchart, handleGenerateSequenceDiagram, handleImportSqlDdl } from './controllers/modelerController';
+import { handleExportDiagram } from './controllers/exportController';
+import { handleImportDiagram } from './controllers/importController';
+import {
+    handleListDiagrams,
+    handleCreateDiagram,
+    handleGetDiagram,
+    handleUpdateDiagram,
+    handleDeleteDiagram,
+    handleListRevisions,
+    handleGetRevision,
+    handleRestoreRevision,
+    handleDiffRevisions
+} from './controllers/diagramController';
+import {
+    handleCreateShare,
+    handleListShares,
+    handleRevokeShare,
+    handleGetSharedDiagram
+} from './controllers/shareController';
 import {
     createCheckoutSession,
     handleDodoWebhook
@@ -20,12 +44,24 @@ import {
     handleAdminLogout,
     getAdminUsers,
     handleAdminUpdateUserPlan,
-    handleSyncSubscriptions
+    handleSyncSubscriptions,
+    handleMigrateApiKeys
 } from './controllers/adminController';
+import { clearGenerationCache, getAiUsage, getGeminiKeyHealth, getGenerationCache } from './controllers/aiAdminController';
+import {
+    handleListPrompts,
+    handleGetPrompt,
+    handleCreatePromptVersion,
+    handleSetPromptRollout,
+    handlePreviewPrompt
+} from './controllers/promptController';
 import {
-    handleGetApiKey,
-    handleGenerateApiKey,
+    handleListApiKeys,
+    handleCreateApiKey,
     handleRevokeApiKey,
+    handleGetLegacyApiKey,
+    handleGenerateLegacyApiKey,
+    handleRevokeLegacyApiKey,
     handleGetActivePlans,
     handleSwitchPlan,
     handleCancelSubscription
@@ -40,16 +76,53 @@ import {
     uploadImageHandler
 } from './controllers/blogController';
 import { isAdmin } from './middleware/authMiddleware';
-import { handlePublicGenerateDiagram } from './controllers/publicApiController';
-import { apiKeyAuth } from './middleware/apiKeyAuthMiddleware';
+import {
+    handlePublicGenerateDiagram,
+    handlePublicEditDiagram,
+    handlePublicExportDiagram,
+    handlePublicGenerateChart,
+    handlePublicGenerateSequenceDiagram,
+    handlePublicGenerateErDiagram,
+    handlePublicGenerateFlowchart,
+    handlePublicImportSqlDdl,
+    handlePublicGetUsage,
+    handlePublicGetJob,
+} from './controllers/publicApiController';
+import { apiKeyAuth, requireScope } from './middleware/apiKeyAuthMiddleware';
+import { rateLimit } from './middleware/rateLimitMiddleware';
+import { enforceApiQuota, meterApiUsage } from './middleware/apiQuotaMiddleware';
 
 
 const router = express.Router();
 const v1Router = express.Router(); // Create a new router for version 1 of the public API
 
 // --- PUBLIC API V1 ROUTES ---
-// These routes are for external applications using a personal API key.
-v1Router.post('/diagrams/generate', handlePublicGenerateDiagram);
+// These routes are for external applications using a personal API key. Each route
+// requires a scope, which is granted per key when the key is created. Generation routes
+// count towards the monthly quota (enforceApiQuota); `/usage` is open to every key.
+// `/diagrams/generate?async=true` queues the generation as a job, polled at `/jobs/:id`.
+v1Router.post('/diagrams/generate', requireScope('diagrams:generate'), rateLimit('v1-generate'), enforceApiQuota, handlePublicGenerateDiagram);
+v1Router.post('/diagrams/edit', requireScope('diagrams:generate'), rateLimit('v1-generate'), enforceApiQuota, handlePublicEditDiagram);
+v1Router.post('/diagrams/export', requireScope('diagrams:export'), handlePublicExportDiagram);
+v1Router.post('/charts/generate', requireScope('charts:generate'), rateLimit('v1-generate'), enforceApiQuota, handlePublicGenerateChart);
+v1Router.post('/sequence-diagrams/generate', requireScope('diagrams:generate'), rateLimit('v1-generate'), enforceApiQuota, handlePublicGenerateSequenceDiagram);
+v1Router.post('/er-diagrams/generate', requireScope('diagrams:generate'), rateLimit('v1-generate'), enforceApiQuota, handlePublicGenerateErDiagram);
+v1Router.post('/er-diagrams/import-sql', requireScope('diagrams:generate'), handlePublicImportSqlDdl);
+v1Router.post('/flowcharts/generate', requireScope('diagrams:generate'), rateLimit('v1-generate'), enforceApiQuota, handlePublicGenerateFlowchart);
+v1Router.get('/usage', handlePublicGetUsage);
+v1Router.get('/jobs/:id', requireScope('diagrams:generate'), handlePublicGetJob);
+v1Router.get('/diagrams', requireScope('diagrams:read'), handleListDiagrams);
+v1Router.post('/diagrams', requireScope('diagrams:write'), handleCreateDiagram);
+v1Router.get('/diagrams/:id', requireScope('diagrams:read'), handleGetDiagram);
+v1Router.put('/diagrams/:id', requireScope('diagrams:write'), handleUpdateDiagram);
+v1Router.delete('/diagrams/:id', requireScope('diagrams:write'), handleDeleteDiagram);
+v1Router.get('/diagrams/:id/revisions', requireScope('diagrams:read'), handleListRevisions);
+v1Router.get('/diagrams/:id/revisions/:revision', requireScope('diagrams:read'), handleGetRevision);
+v1Router.post('/diagrams/:id/revisions/:revision/restore', requireScope('diagrams:write'), handleRestoreRevision);
+v1Router.get('/diagrams/:id/diff', requireScope('diagrams:read'), handleDiffRevisions);
+v1Router.get('/diagrams/:id/shares', requireScope('diagrams:read'), handleListShares);
+v1Router.post('/diagrams/:id/shares', requireScope('diagrams:write'), handleCreateShare);
+v1Router.delete('/diagrams/:id/shares/:shareId', requireScope('diagrams:write'), handleRevokeShare);
 
 
 // --- PAYMENT & WEBHOOK ROUTES ---
@@ -69,16 +142,54 @@ router.post('/recover-by-payment-id', express.json(), handleRecoverByPaymentId);
 
 
 // --- GEMINI API PROXY ROUTES (for internal app use) ---
-
-router.post('/generate-diagram', express.json(), handleGenerateDiagram);
-router.post('/generate-neural-network', express.json(), handleGenerateNeuralNetwork);
-router.post('/explain-architecture', express.json(), handleExplainArchitecture);
-router.post('/chat', express.json(), handleChatWithAssistant);
+// Each route is rate limited under the name given to `rateLimit`; see rateLimitService.
+
+router.post('/generate-diagram', express.json(), rateLimit('generate'), handleGenerateDiagram);
+router.post('/diagrams/edit', express.json(), rateLimit('generate'), handleEditDiagram);
+router.post('/generate-neural-network', express.json(), rateLimit('generate'), handleGenerateNeuralNetwork);
+router.post('/generate-chart', express.json({ limit: '1mb' }), rateLimit('generate'), handleGenerateChart);
+router.post('/generate-sequence-diagram', express.json(), rateLimit('generate'), handleGenerateSequenceDiagram);
+router.post('/generate-er-diagram', express.json(), rateLimit('generate'), handleGenerateErDiagram);
+router.post('/generate-flowchart', express.json(), rateLimit('generate'), handleGenerateFlowchart);
+router.post('/explain-architecture', express.json(), rateLimit('explain'), handleExplainArchitecture);
+router.post('/chat', express.json(), rateLimit('chat'), handleChatWithAssistant);
+
+// Server-Sent Events variants of the routes above.
+router.post('/generate-diagram/stream', express.json(), rateLimit('generate'), handleGenerateDiagramStream);
+router.post('/explain-architecture/stream', express.json(), rateLimit('explain'), handleExplainArchitectureStream);
+router.post('/chat/stream', express.json(), rateLimit('chat'), handleChatWithAssistantStream);
+
+// --- DIAGRAM IMPORT & EXPORT ROUTES ---
+router.post('/diagrams/import', express.json({ limit: '5mb' }), rateLimit('generate'), handleImportDiagram);
+router.post('/er-diagrams/import-sql', express.json({ limit: '5mb' }), rateLimit('generate'), handleImportSqlDdl);
+router.post('/diagrams/export', express.json(), handleExportDiagram);
+
+// --- SAVED DIAGRAM ROUTES ---
+router.get('/diagrams', handleListDiagrams);
+router.post('/diagrams', express.json({ limit: '2mb' }), handleCreateDiagram);
+router.get('/diagrams/:id', handleGetDiagram);
+router.put('/diagrams/:id', express.json({ limit: '2mb' }), handleUpdateDiagram);
+router.delete('/diagrams/:id', handleDeleteDiagram);
+router.get('/diagrams/:id/revisions', handleListRevisions);
+router.get('/diagrams/:id/revisions/:revision', handleGetRevision);
+router.post('/diagrams/:id/revisions/:revision/restore', handleRestoreRevision);
+router.get('/diagrams/:id/diff', handleDiffRevisions);
+router.get('/diagrams/:id/shares', handleListShares);
+router.post('/diagrams/:id/shares', express.json(), handleCreateShare);
+router.delete('/diagrams/:id/shares/:shareId', handleRevokeShare);
+
+// --- SHARED DIAGRAM ROUTES (PUBLIC) ---
+router.get('/shared/:token', rateLimit('shared'), handleGetSharedDiagram);
+router.post('/shared/:token', express.json(), rateLimit('shared'), handleGetSharedDiagram);
 
 // --- USER MANAGEMENT ROUTES ---
-router.get('/user/api-key', handleGetApiKey);
-router.post('/user/api-key', express.json(), handleGenerateApiKey);
-router.delete('/user/api-key', handleRevokeApiKey);
+router.get('/user/api-keys', handleListApiKeys);
+router.post('/user/api-keys', express.json(), handleCreateApiKey);
+router.delete('/user/api-keys/:keyId', handleRevokeApiKey);
+// Deprecated single-key routes, kept until clients move to /user/api-keys.
+router.get('/user/api-key', handleGetLegacyApiKey);
+router.post('/user/api-key', express.json(), handleGenerateLegacyApiKey);
+router.delete('/user/api-key', handleRevokeLegacyApiKey);
 router.get('/user/active-plans', handleGetActivePlans);
 router.post('/user/switch-plan', express.json(), handleSwitchPlan);
 router.post('/user/cancel-subscription', express.json(), handleCancelSubscription);
@@ -95,6 +206,16 @@ router.post('/admin/config', express.json(), isAdmin, updateAdminConfig);
 router.get('/admin/users', isAdmin, getAdminUsers);
 router.post('/admin/users/:userId/update-plan', express.json(), isAdmin, handleAdminUpdateUserPlan);
 router.post('/admin/sync-subscriptions', isAdmin, handleSyncSubscriptions);
+router.post('/admin/api-keys/migrate', isAdmin, handleMigrateApiKeys);
+router.get('/admin/ai/key-health', isAdmin, getGeminiKeyHealth);
+router.get('/admin/ai/usage', isAdmin, getAiUsage);
+router.get('/admin/ai/cache', isAdmin, getGenerationCache);
+router.delete('/admin/ai/cache', isAdmin, clearGenerationCache);
+router.get('/admin/prompts', isAdmin, handleListPrompts);
+router.get('/admin/prompts/:key', isAdmin, handleGetPrompt);
+router.post('/admin/prompts/:key/versions', express.json({ limit: '1mb' }), isAdmin, handleCreatePromptVersion);
+router.put('/admin/prompts/:key/rollout', express.json(), isAdmin, handleSetPromptRollout);
+router.post('/admin/prompts/:key/preview', express.json({ limit: '1mb' }), isAdmin, handlePreviewPrompt);
 
 // --- ADMIN BLOG ROUTES ---
 router.get('/admin/blog/posts', isAdmin, getAdminPosts);
@@ -105,8 +226,8 @@ router.post('/admin/blog/upload-image', express.json({ limit: '10mb' }), isAdmin
 
 
 // Mount the v1 router with its specific middleware
-// It needs express.json() for body parsing and apiKeyAuth for authentication.
-router.use('/v1', express.json(), apiKeyAuth, v1Router);
+// It needs express.json() for body parsing, apiKeyAuth for authentication and meterApiUsage to record each call.
+router.use('/v1', express.json(), apiKeyAuth, meterApiUsage, v1Router);
 
 
 export default router;
@@ -1,162 +1,154 @@
-import { GoogleGenAI } from "@google/genai";
-import OpenAI, { ClientOptions } from 'openai';
 import { getCachedConfig } from '../controllers/adminController';
-
-// Type for a single provider's configuration
-export interface ProviderDetail {
-    apiKey?: string;
-    apiKeyPool?: string;
-    model?: string;
-    baseURL?: string;
-}
+import { PROVIDERS, PROVIDER_NAMES, ProviderName, isProviderName } from './providers';
+import { User } from '@supabase/supabase-js';
+import { AiProvider, GenerationRequest, ProviderDetail, ProviderResult, StreamOptions, TokenUsage } from './providers/types';
+import { parseKeyPool } from './providers/gemini';
+import { getKeyHealth, KeyHealth } from './providers/geminiKeyPool';
+import { validateAgainstSchema } from './providers/schemaValidation';
+import { CircuitBreakerSettings, DEFAULT_CIRCUIT_BREAKER, recordFailure, recordSuccess, releaseProbe, tryAcquire } from './providers/circuitBreaker';
+import { calculateCost, getPriceTable, recordUsage } from './usageService';
+import { PromptVersion } from './promptService';
+
+export type { ProviderDetail, StreamOptions, TokenUsage } from './providers/types';
+export type { ProviderName } from './providers';
 
 export interface AiProviderConfig {
-    activeProvider: 'gemini' | 'openai' | 'deepseek';
-    providers: {
-        [key: string]: ProviderDetail;
-        gemini: ProviderDetail;
-        openai: ProviderDetail;
-        deepseek: ProviderDetail;
-    }
+    activeProvider: ProviderName;
+    // Tried in order, after `activeProvider`, when the providers before them fail.
+    fallbackProviders?: ProviderName[];
+    circuitBreaker?: Partial<CircuitBreakerSettings>;
+    providers: Partial<Record<ProviderName, ProviderDetail>>;
 }
 
-// Module-level index to implement a round-robin strategy for key selection.
-// This ensures concurrent requests are distributed across the key pool.
-// Initialize with a random value to prevent "thundering herd" on the first key
-// when multiple server instances start up simultaneously.
-let currentKeyIndex = Math.floor(Math.random() * 100);
-
-const callGeminiWithRetry = async (apiKeyPoolOrKey: string, model: string, requestPayload: any): Promise<string | null> => {
-    const keys = (apiKeyPoolOrKey || '').split(',').map(k => k.trim()).filter(Boolean);
-    if (keys.length === 0) {
-        throw new Error("No Gemini API keys were provided or configured.");
-    }
-
-    // --- ROUND-ROBIN & FAILOVER LOGIC ---
-    // 1. Get the starting index for this specific request.
-    const startIndex = currentKeyIndex;
-    // 2. Immediately update the global index for the *next* request that comes in.
-    currentKeyIndex = (currentKeyIndex + 1) % keys.length;
-
-    let lastError: any = null;
-
-    // 3. Loop through all keys, starting from our round-robin index, ensuring a full rotation for failover.
-    for (let i = 0; i < keys.length; i++) {
-        const keyIndex = (startIndex + i) % keys.length;
-        const key = keys[keyIndex];
+// Why a provider was failed over, as reported to clients. The provider's own error message can
+// include request details, so it only goes to the logs.
+export type FailoverReason = 'rate-limited' | 'quota-exhausted' | 'auth-error' | 'timeout' | 'server-error' | 'request-error' | 'invalid-output' | 'provider-error';
+
+/**
+ * Describes which provider served a generation. Pass an object created with
+ * `createGenerationMeta` to any generate/stream function to have it filled in.
+ */
+export interface GenerationMeta {
+    provider: ProviderName | null;
+    model: string | null;
+    // Providers that were tried and failed before `provider` succeeded.
+    failovers: Array<{ provider: ProviderName; reason: FailoverReason }>;
+    // Providers skipped because their circuit breaker was open.
+    skipped: ProviderName[];
+    // Round-trips spent asking the model to fix output that did not match the schema.
+    repairAttempts: number;
+    // Tokens used across every provider call made for this generation, including failed ones.
+    usage: TokenUsage;
+    latencyMs: number | null;
+    // Template versions the prompts were built from, so generations can be compared per version.
+    prompts: PromptVersion[];
+}
 
-        try {
-            const ai = new GoogleGenAI({ apiKey: key });
-            const response = await ai.models.generateContent({
-                model: model,
-                ...requestPayload
-            });
-            console.log(`[aiService] Successfully used a Gemini key (last 4: ...${key.slice(-4)})`);
-            return response.text || null;
-        } catch (e: any) {
-            const errorMessage = e.message || '';
-            console.error(`[aiService] Gemini key ending in ...${key.slice(-4)} failed. Error: ${errorMessage}. Trying next key...`);
-            lastError = e;
+/**
+ * Identifies who a generation is for and which endpoint asked for it, for usage accounting.
+ */
+export interface UsageContext {
+    endpoint: string;
+    user?: User | null;
+    prompts?: PromptVersion[];
+}
 
-            // Check for recoverable errors. If not recoverable, break the loop.
-            const isRecoverable = errorMessage.includes('API key') ||
-                errorMessage.includes('quota') ||
-                errorMessage.includes('rate limit') ||
-                errorMessage.includes('overloaded') ||
-                errorMessage.includes('UNAVAILABLE');
+interface ProviderCall {
+    provider: ProviderName;
+    model: string;
+    usage: TokenUsage;
+    isUserKey: boolean;
+}
 
-            if (!isRecoverable) {
-                console.error(`[aiService] Unrecoverable error encountered. Stopping retry loop.`);
-                break;
-            }
-        }
-    }
+interface UsageLedger {
+    context?: UsageContext;
+    calls: ProviderCall[];
+}
 
-    // If the loop completes without success, format and throw the final error.
-    let finalErrorMessage = `All available Gemini API keys failed.`;
-    if (lastError) {
-        let parsedError;
-        try {
-            // The error message from the SDK is often a JSON string.
-            parsedError = JSON.parse(lastError.message).error;
-        } catch {
-            parsedError = null;
-        }
+// Kept beside the meta rather than on it, because meta is returned to clients as-is.
+const ledgers = new WeakMap<GenerationMeta, UsageLedger>();
+
+/**
+ * Creates the meta for one generation. With a usage context, the generation is recorded in
+ * the usage log once it finishes.
+ */
+export const createGenerationMeta = (context?: UsageContext): GenerationMeta => {
+    const meta: GenerationMeta = {
+        provider: null,
+        model: null,
+        failovers: [],
+        skipped: [],
+        repairAttempts: 0,
+        usage: { promptTokens: 0, completionTokens: 0 },
+        latencyMs: null,
+        prompts: (context?.prompts || []).map(({ key, version }) => ({ key, version })),
+    };
+    ledgers.set(meta, { context, calls: [] });
+    return meta;
+};
 
-        // Check for specific error messages to provide a user-friendly response.
-        if (parsedError && parsedError.message && (parsedError.message.toLowerCase().includes('quota') || parsedError.message.toLowerCase().includes('rate limit'))) {
-            finalErrorMessage = 'SHARED_KEY_QUOTA_EXCEEDED';
-        } else {
-            finalErrorMessage += ` Last error: ${lastError.message}`;
-        }
+const recordProviderCall = (meta: GenerationMeta, resolved: ResolvedProvider, result: ProviderResult): string | null => {
+    if (result.usage) {
+        meta.usage.promptTokens += result.usage.promptTokens;
+        meta.usage.completionTokens += result.usage.completionTokens;
+        ledgers.get(meta)?.calls.push({ provider: resolved.name, model: resolved.config.model || '', usage: result.usage, isUserKey: !!resolved.config.isUserKey });
     }
-    throw new Error(finalErrorMessage);
+    return result.text;
 };
 
-
-const callOpenAICompatible = async (providerConfig: ProviderDetail, systemInstruction: string, userPrompt: string, isJson: boolean, history: any[] = []) => {
-    const { apiKey, model, baseURL } = providerConfig;
-    if (!apiKey || !model) throw new Error("Missing API key or model for OpenAI-compatible provider.");
-
-    const openAiConfig: ClientOptions = {
-        apiKey,
-        baseURL: baseURL || undefined, // Use baseURL from config, otherwise default (OpenAI)
-    };
-
-    // Add OpenRouter specific headers only if the baseURL matches
-    if (baseURL?.includes('openrouter.ai')) {
-        openAiConfig.defaultHeaders = {
-            'HTTP-Referer': process.env.SITE_URL || 'https://cubegenai.com',
-            'X-Title': 'CubeGen AI',
-        };
+// Writes the usage record for a finished generation. Never throws.
+const finishUsage = async (meta: GenerationMeta, chain: ProviderChain, startedAt: number, error?: any): Promise<void> => {
+    meta.latencyMs = Date.now() - startedAt;
+    const ledger = ledgers.get(meta);
+    if (!ledger?.context) return;
+    try {
+        const prices = await getPriceTable();
+        const costUsd = ledger.calls.reduce((total, call) => total + (call.isUserKey ? 0 : calculateCost(prices, call.provider, call.model, call.usage)), 0);
+        // A failed generation is attributed to the last provider that was tried.
+        const provider = meta.provider ?? meta.failovers[meta.failovers.length - 1]?.provider ?? null;
+        const { context } = ledger;
+        await recordUsage({
+            userId: context.user?.id ?? null,
+            plan: context.user ? context.user.user_metadata?.plan || 'free' : null,
+            endpoint: context.endpoint,
+            provider,
+            model: meta.model ?? chain.providers.find(p => p.name === provider)?.config.model ?? null,
+            usage: meta.usage,
+            costUsd,
+            latencyMs: meta.latencyMs,
+            success: !error,
+            userKey: !!chain.providers[0]?.config.isUserKey,
+            repairAttempts: meta.repairAttempts,
+            promptVersions: meta.prompts,
+            error: error ? error.message || String(error) : undefined,
+        });
+    } catch (e: any) {
+        console.error(`[aiService] Failed to record usage: ${e.message}`);
     }
+};
 
-    const openai = new OpenAI(openAiConfig);
-
-    const messages: OpenAI.Chat.Completions.ChatCompletionMessageParam[] = [
-        { role: 'system', content: systemInstruction },
-        ...history.map((h: any) => ({
-            role: (h.role === 'model' ? 'assistant' : 'user') as 'assistant' | 'user',
-            content: h.parts[0].text,
-        })),
-        { role: 'user', content: userPrompt }
-    ];
-
-    const completionConfig: OpenAI.Chat.Completions.ChatCompletionCreateParams = {
-        model,
-        messages,
-    };
-
-    // Conditionally apply JSON mode only for models known to support it.
-    if (isJson && (model.includes('gpt-4') || model.includes('gpt-3.5'))) {
-        completionConfig.response_format = { type: 'json_object' };
-    }
+// Upper bound on repair round-trips per provider before it is considered to have failed.
+const MAX_REPAIR_ATTEMPTS = 2;
 
-    const response = await openai.chat.completions.create(completionConfig);
-    return response.choices[0].message.content || '';
-};
+// Requests made with a user's own key always go to Gemini with this model.
+const USER_KEY_MODEL = 'gemini-2.5-flash';
 
-const executeGeneration = async (
-    systemInstruction: string,
-    userPrompt: string,
-    schema: any | null,
-    history: any[],
-    userProvidedKey?: string
-): Promise<any> => {
+interface ResolvedProvider {
+    name: ProviderName;
+    provider: AiProvider;
+    config: ProviderDetail;
+}
 
-    // If a key is passed directly, use it with Gemini and bypass all other logic.
-    if (userProvidedKey) {
-        console.log('[aiService] Using user-provided key.');
-        const requestPayload = schema
-            ? { contents: { parts: [{ text: userPrompt }] }, config: { systemInstruction, responseMimeType: "application/json", responseSchema: schema } }
-            : { contents: history.length > 0 ? history : { parts: [{ text: userPrompt }] }, config: { systemInstruction } };
+interface ProviderChain {
+    providers: ResolvedProvider[];
+    // Null for requests made with a user's own key, which are never failed over or circuit-broken.
+    breaker: CircuitBreakerSettings | null;
+}
 
-        const result = await callGeminiWithRetry(userProvidedKey, 'gemini-2.5-flash', requestPayload);
-        if (schema && result) return JSON.parse(result);
-        return result;
-    }
+const isConfigured = (provider: AiProvider, providerConfig: ProviderDetail | undefined): providerConfig is ProviderDetail =>
+    !!providerConfig && (!provider.requiresApiKey || !!providerConfig.apiKey || !!providerConfig.apiKeyPool) && !!providerConfig.model;
 
-    // Otherwise, use the centrally configured provider.
+const loadAiProviderConfig = async (): Promise<AiProviderConfig> => {
     const config = await getCachedConfig();
 
     let aiConfig: AiProviderConfig;
@@ -171,63 +163,283 @@ const executeGeneration = async (
     if (!aiConfig.providers || !aiConfig.activeProvider) {
         throw new Error('AI provider configuration is missing required fields.');
     }
-    const { activeProvider, providers } = aiConfig;
-    const providerConfig = providers[activeProvider];
+    return aiConfig;
+};
 
-    if (!providerConfig || (!providerConfig.apiKey && !providerConfig.apiKeyPool) || !providerConfig.model) {
+const getProviderChain = async (): Promise<ProviderChain> => {
+    const aiConfig = await loadAiProviderConfig();
+    const { activeProvider, providers } = aiConfig;
+    if (!isProviderName(activeProvider)) {
+        throw new Error(`Unknown AI provider '${activeProvider}'. Supported providers: ${PROVIDER_NAMES.join(', ')}.`);
+    }
+    if (!isConfigured(PROVIDERS[activeProvider], providers[activeProvider])) {
         throw new Error(`AI provider '${activeProvider}' is not configured. Please set an API key/pool and model name in the admin panel.`);
     }
 
-    let resultString: string | null = null;
-
-    if (activeProvider === 'gemini') {
-        const keySource = providerConfig.apiKeyPool || providerConfig.apiKey;
-        if (!keySource) throw new Error("Gemini provider is active but no API key or key pool is configured.");
+    const chain: ResolvedProvider[] = [];
+    for (const name of [activeProvider, ...(Array.isArray(aiConfig.fallbackProviders) ? aiConfig.fallbackProviders : [])]) {
+        if (chain.some(p => p.name === name)) continue;
+        if (!isProviderName(name)) {
+            console.warn(`[aiService] Ignoring unknown fallback provider '${name}'.`);
+            continue;
+        }
+        const providerConfig = providers[name];
+        if (!isConfigured(PROVIDERS[name], providerConfig)) {
+            console.warn(`[aiService] Ignoring fallback provider '${name}' because it is not configured.`);
+            continue;
+        }
+        chain.push({ name, provider: PROVIDERS[name], config: providerConfig });
+    }
+    return { providers: chain, breaker: { ...DEFAULT_CIRCUIT_BREAKER, ...aiConfig.circuitBreaker } };
+};
 
-        const requestPayload = schema
-            ? { contents: { parts: [{ text: userPrompt }] }, config: { systemInstruction, responseMimeType: "application/json", responseSchema: schema } }
-            : { contents: history.length > 0 ? history : { parts: [{ text: userPrompt }] }, config: { systemInstruction } };
+// If a key is passed directly, use it with Gemini and bypass all other logic.
+const resolveProviderChain = async (userProvidedKey?: string): Promise<ProviderChain> => {
+    if (userProvidedKey) {
+        console.log('[aiService] Using user-provided key.');
+        return { providers: [{ name: 'gemini', provider: PROVIDERS.gemini, config: { apiKey: userProvidedKey, model: USER_KEY_MODEL, isUserKey: true } }], breaker: null };
+    }
+    // Otherwise, use the centrally configured providers.
+    return getProviderChain();
+};
 
-        resultString = await callGeminiWithRetry(keySource, providerConfig.model, requestPayload);
-    } else {
-        const openAiSystemInstruction = schema
-            ? `${systemInstruction}\n\nYou MUST respond with a valid JSON object that strictly adheres to the provided schema. Do not include any explanatory text, markdown formatting, or any characters outside of the JSON object itself.`
-            : systemInstruction;
+/**
+ * Identifies the model a request would be sent to first, as `provider:model`.
+ */
+export const getPrimaryModel = async (userProvidedKey?: string): Promise<string> => {
+    const { providers: [primary] } = await resolveProviderChain(userProvidedKey);
+    return `${primary.name}:${primary.config.model}`;
+};
 
-        resultString = await callOpenAICompatible(providerConfig, openAiSystemInstruction, userPrompt, !!schema, history.slice(0, -1));
+/**
+ * Embeds a text with a configured provider's credentials and the given embedding model.
+ */
+export const createEmbedding = async (text: string, providerName: ProviderName, model: string): Promise<number[]> => {
+    const { providers } = await loadAiProviderConfig();
+    const provider = PROVIDERS[providerName];
+    if (!provider?.embed) {
+        throw new Error(`AI provider '${providerName}' does not support embeddings.`);
+    }
+    const providerConfig = { ...providers[providerName], model };
+    if (!isConfigured(provider, providerConfig)) {
+        throw new Error(`AI provider '${providerName}' is not configured.`);
     }
+    const [embedding] = await provider.embed([text], providerConfig);
+    if (!embedding || embedding.length === 0) {
+        throw new Error(`AI provider '${providerName}' returned an empty embedding.`);
+    }
+    return embedding;
+};
 
+/**
+ * Reports the health of each key in the configured Gemini pool, identified by its last 4 characters.
+ */
+export const getGeminiKeyHealth = async (): Promise<KeyHealth[]> => {
+    const { providers } = await loadAiProviderConfig();
+    const gemini = providers.gemini;
+    return getKeyHealth(parseKeyPool(gemini?.apiKeyPool || gemini?.apiKey || ''));
+};
+
+const parseTextResult = (resultString: string | null): string => {
     if (!resultString) {
         throw new Error("AI model returned an empty response.");
     }
+    return resultString;
+};
+
+// Parses structured output and lists everything wrong with it, so the model can be asked to fix it.
+const checkStructuredOutput = (resultString: string | null, schema: any): { value: any; errors: string[] } => {
+    if (!resultString) {
+        return { value: null, errors: ['The response was empty.'] };
+    }
+    let value: any;
+    try {
+        const cleanedJson = resultString.replace(/```json/g, '').replace(/```/g, '').trim();
+        value = JSON.parse(cleanedJson);
+    } catch (e: any) {
+        return { value: null, errors: [`The response is not valid JSON (${e.message}).`] };
+    }
+    return { value, errors: validateAgainstSchema(value, schema) };
+};
+
+const buildRepairRequest = (request: GenerationRequest, invalidOutput: string, errors: string[]): GenerationRequest => {
+    const repairPrompt = `Your previous response did not match the required JSON schema:\n${errors.map(e => `- ${e}`).join('\n')}\n\nReturn the complete, corrected JSON object only.`;
+    const conversation = request.history.length > 0 ? request.history : [{ role: 'user', parts: [{ text: request.userPrompt }] }];
+    return {
+        ...request,
+        userPrompt: repairPrompt,
+        history: [
+            ...conversation,
+            { role: 'model', parts: [{ text: invalidOutput || '(empty response)' }] },
+            { role: 'user', parts: [{ text: repairPrompt }] },
+        ],
+    };
+};
+
+/**
+ * Validates structured output against the request's schema. Invalid output is sent back to
+ * the same provider together with the validation errors, up to `MAX_REPAIR_ATTEMPTS` times.
+ */
+const resolveStructuredOutput = async (resolved: ResolvedProvider, request: GenerationRequest, output: string | null, meta: GenerationMeta): Promise<any> => {
+    let currentRequest = request;
+    let currentOutput = output;
+    for (let repair = 0; ; repair++) {
+        const { value, errors } = checkStructuredOutput(currentOutput, request.schema);
+        if (errors.length === 0) return value;
+        if (repair >= MAX_REPAIR_ATTEMPTS) {
+            console.error("Failed to parse JSON from AI response:", currentOutput);
+            throw new Error(`The AI model returned JSON that does not match the expected schema: ${errors.slice(0, 5).join('; ')}`);
+        }
+        console.warn(`[aiService] '${resolved.name}' returned invalid structured output (${errors.length} problem(s)). Requesting a repair (${repair + 1}/${MAX_REPAIR_ATTEMPTS}).`);
+        meta.repairAttempts += 1;
+        currentRequest = buildRepairRequest(currentRequest, currentOutput || '', errors);
+        currentOutput = recordProviderCall(meta, resolved, await resolved.provider.generate(currentRequest, resolved.config));
+    }
+};
 
-    if (schema) {
+/**
+ * Classifies a provider failure from the HTTP status the SDKs attach to their errors.
+ * @param responded Whether the provider returned output, which means the output was unusable.
+ */
+const classifyFailure = (e: any, responded: boolean): FailoverReason => {
+    const message = String(e?.message || '');
+    const status: number | undefined = typeof e?.status === 'number' ? e.status : undefined;
+    if (message.startsWith('SHARED_KEY_QUOTA_EXCEEDED')) return 'quota-exhausted';
+    if (status === 429) return 'rate-limited';
+    if (status === 401 || status === 403) return 'auth-error';
+    if (status === 408 || e?.name === 'TimeoutError' || /timed? ?out/i.test(message)) return 'timeout';
+    if (status !== undefined) return status >= 500 ? 'server-error' : 'request-error';
+    return responded ? 'invalid-output' : 'provider-error';
+};
+
+/**
+ * Runs an attempt against each provider of the chain in order until one succeeds.
+ * Providers with an open circuit are skipped. The result is parsed and validated inside the
+ * attempt, so a provider whose output cannot be repaired also counts as failed.
+ */
+const runWithFallback = async (
+    request: GenerationRequest,
+    chain: ProviderChain,
+    attempt: (resolved: ResolvedProvider) => Promise<ProviderResult>,
+    control: {
+        // Failing over is no longer possible once output has reached the client.
+        canFailOver: () => boolean;
+        isCancelled: () => boolean;
+    },
+    meta: GenerationMeta
+): Promise<any> => {
+    let lastError: any = null;
+
+    for (const resolved of chain.providers) {
+        if (chain.breaker && !tryAcquire(resolved.name, chain.breaker)) {
+            meta.skipped.push(resolved.name);
+            continue;
+        }
+        let responded = false;
         try {
-            const cleanedJson = resultString.replace(/```json/g, '').replace(/```/g, '').trim();
-            return JSON.parse(cleanedJson);
-        } catch (e) {
-            console.error("Failed to parse JSON from AI response:", resultString);
-            throw new Error("The AI model returned an invalid JSON format.");
+            const output = recordProviderCall(meta, resolved, await attempt(resolved));
+            responded = true;
+            const result = request.schema ? await resolveStructuredOutput(resolved, request, output, meta) : parseTextResult(output);
+            if (chain.breaker) recordSuccess(resolved.name);
+            meta.provider = resolved.name;
+            meta.model = resolved.config.model || null;
+            if (meta.failovers.length > 0 || meta.skipped.length > 0) {
+                console.log(`[aiService] Served by '${resolved.name}' after failing over from: ${[...meta.skipped, ...meta.failovers.map(f => f.provider)].join(', ')}.`);
+            }
+            return result;
+        } catch (e: any) {
+            lastError = e;
+            // A client disconnect says nothing about the provider's health.
+            if (control.isCancelled()) {
+                if (chain.breaker) releaseProbe(resolved.name);
+                throw e;
+            }
+            if (chain.breaker) recordFailure(resolved.name, chain.breaker);
+            const reason = classifyFailure(e, responded);
+            meta.failovers.push({ provider: resolved.name, reason });
+            const failingOver = control.canFailOver();
+            const next = failingOver && chain.providers.length > 1 ? ' Trying the next provider...' : '';
+            console.warn(`[aiService] Provider '${resolved.name}' failed (${reason}): ${e.message || e}.${next}`);
+            if (!failingOver) throw e;
         }
     }
 
-    return resultString;
-}
+    if (!lastError) {
+        throw new Error(`AI_PROVIDERS_UNAVAILABLE: All AI providers are temporarily unavailable (${meta.skipped.join(', ')}). Please try again shortly.`);
+    }
+    throw lastError;
+};
 
+const executeGeneration = async (request: GenerationRequest, userProvidedKey?: string, meta: GenerationMeta = createGenerationMeta()): Promise<any> => {
+    const chain = await resolveProviderChain(userProvidedKey);
+    const startedAt = Date.now();
+    try {
+        const result = await runWithFallback(request, chain, ({ provider, config }) => provider.generate(request, config), { canFailOver: () => true, isCancelled: () => false }, meta);
+        void finishUsage(meta, chain, startedAt);
+        return result;
+    } catch (e) {
+        void finishUsage(meta, chain, startedAt, e);
+        throw e;
+    }
+};
 
-export const generateJsonFromPrompt = async (systemInstruction: string, userPrompt: string, schema: any, userProvidedKey?: string): Promise<any> => {
-    return executeGeneration(systemInstruction, userPrompt, schema, [], userProvidedKey);
+// Streaming counterpart of `executeGeneration`. Chunks are passed to `options.onChunk` as they
+// arrive and the complete (parsed, if a schema is given) result is returned at the end.
+const executeStreamingGeneration = async (request: GenerationRequest, options: StreamOptions, userProvidedKey?: string, meta: GenerationMeta = createGenerationMeta()): Promise<any> => {
+    const chain = await resolveProviderChain(userProvidedKey);
+    let emitted = false;
+    const trackedOptions: StreamOptions = {
+        ...options,
+        onChunk: text => {
+            emitted = true;
+            options.onChunk(text);
+        },
+    };
+    const startedAt = Date.now();
+    try {
+        const result = await runWithFallback(request, chain, ({ provider, config }) => provider.stream(request, config, trackedOptions), {
+            // Structured output only reaches the client once it is complete and valid, so a
+            // JSON stream can still fail over after chunks have arrived; text cannot.
+            canFailOver: () => !!request.schema || !emitted,
+            isCancelled: () => !!options.signal?.aborted,
+        }, meta);
+        void finishUsage(meta, chain, startedAt);
+        return result;
+    } catch (e) {
+        // Cancelled streams are recorded as failures too, with whatever usage was reported.
+        void finishUsage(meta, chain, startedAt, e);
+        throw e;
+    }
 };
 
-export const generateTextFromPrompt = async (systemInstruction: string, userPrompt: string, userProvidedKey?: string): Promise<string> => {
-    return executeGeneration(systemInstruction, userPrompt, null, [], userProvidedKey);
+export const generateJsonFromPrompt = async (systemInstruction: string, userPrompt: string, schema: any, userProvidedKey?: string, meta?: GenerationMeta): Promise<any> => {
+    return executeGeneration({ systemInstruction, userPrompt, schema, history: [] }, userProvidedKey, meta);
 };
 
-export const generateChatResponse = async (history: any[], systemInstruction: string, userProvidedKey?: string): Promise<string> => {
+export const generateTextFromPrompt = async (systemInstruction: string, userPrompt: string, userProvidedKey?: string, meta?: GenerationMeta): Promise<string> => {
+    return executeGeneration({ systemInstruction, userPrompt, schema: null, history: [] }, userProvidedKey, meta);
+};
+
+const lastUserPrompt = (history: any[]): string => {
     const lastMessage = history[history.length - 1];
     if (!lastMessage || lastMessage.role !== 'user') {
         throw new Error("Chat history must end with a user message.");
     }
-    const userPrompt = lastMessage.parts[0].text;
-    return executeGeneration(systemInstruction, userPrompt, null, history, userProvidedKey);
+    return lastMessage.parts[0].text;
+};
+
+export const generateChatResponse = async (history: any[], systemInstruction: string, userProvidedKey?: string, meta?: GenerationMeta): Promise<string> => {
+    return executeGeneration({ systemInstruction, userPrompt: lastUserPrompt(history), schema: null, history }, userProvidedKey, meta);
+};
+
+export const streamJsonFromPrompt = async (systemInstruction: string, userPrompt: string, schema: any, options: StreamOptions, userProvidedKey?: string, meta?: GenerationMeta): Promise<any> => {
+    return executeStreamingGeneration({ systemInstruction, userPrompt, schema, history: [] }, options, userProvidedKey, meta);
+};
+
+export const streamTextFromPrompt = async (systemInstruction: string, userPrompt: string, options: StreamOptions, userProvidedKey?: string, meta?: GenerationMeta): Promise<string> => {
+    return executeStreamingGeneration({ systemInstruction, userPrompt, schema: null, history: [] }, options, userProvidedKey, meta);
+};
+
+export const streamChatResponse = async (history: any[], systemInstruction: string, options: StreamOptions, userProvidedKey?: string, meta?: GenerationMeta): Promise<string> => {
+    return executeStreamingGeneration({ systemInstruction, userPrompt: lastUserPrompt(history), schema: null, history }, options, userProvidedKey, meta);
 };
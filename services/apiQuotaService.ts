@@ -0,0 +1,185 @@
+import { supabaseAdmin } from '../supabaseClient';
+import { getCachedConfig } from '../controllers/adminController';
+import { countUnfinishedJobs } from './jobQueue';
+
+// Metering and monthly quotas for the public v1 API. Every v1 call is recorded with the key
+// that made it; successful calls to billable (generation) routes count towards the owner's
+// monthly quota; async generations are billed when their job succeeds instead of when they
+// are queued, and reserve a unit of the quota until then. Periods are calendar months in UTC. Quotas come from the `api_quota_config`
+// config value, e.g. { "plans": { "pro": { "monthlyRequests": 2000, "overage": "warn" } } }.
+//   api_usage (id uuid pk, created_at timestamptz default now(), user_id uuid, api_key_id uuid,
+//              route text, status int, billable boolean)
+//   create index api_usage_user_period_idx on api_usage (user_id, created_at);
+
+const API_USAGE_TABLE = 'api_usage';
+const PAGE_SIZE = 1000;
+
+// 'block' rejects calls over the quota; 'warn' lets them through and flags the response.
+export type OverageMode = 'block' | 'warn';
+
+export interface PlanQuota {
+    monthlyRequests: number;
+    overage: OverageMode;
+}
+
+export interface ApiQuotaConfig {
+    enabled: boolean;
+    // Plans without an entry are metered but not limited.
+    plans: Record<string, PlanQuota>;
+}
+
+export interface UsagePeriod {
+    start: string;
+    end: string;
+}
+
+export interface QuotaStatus {
+    period: UsagePeriod;
+    quota: PlanQuota | null;
+    used: number;
+    // Async jobs that have not finished; each will be billed if it succeeds.
+    reserved: number;
+    // Null without a quota.
+    remaining: number | null;
+    exceeded: boolean;
+}
+
+export interface ApiCallRecord {
+    userId: string;
+    apiKeyId: string | null;
+    route: string;
+    status: number;
+    billable: boolean;
+}
+
+export interface ApiUsageGroup {
+    key: string;
+    calls: number;
+    failedCalls: number;
+    billableCalls: number;
+}
+
+const DEFAULT_CONFIG: ApiQuotaConfig = {
+    enabled: true,
+    plans: {
+        pro: { monthlyRequests: 1000, overage: 'block' },
+        business: { monthlyRequests: 10000, overage: 'warn' },
+    },
+};
+
+export const getApiQuotaConfig = async (): Promise<ApiQuotaConfig> => {
+    const config = await getCachedConfig();
+    try {
+        const stored = JSON.parse(config.api_quota_config || '{}');
+        return { ...DEFAULT_CONFIG, ...stored, plans: { ...DEFAULT_CONFIG.plans, ...stored.plans } };
+    } catch {
+        console.error('[API Quota] api_quota_config is not valid JSON; using the default quotas.');
+        return DEFAULT_CONFIG;
+    }
+};
+
+const isValidQuota = (quota: any): quota is PlanQuota =>
+    !!quota && Number.isFinite(quota.monthlyRequests) && quota.monthlyRequests >= 0 && (quota.overage === 'block' || quota.overage === 'warn');
+
+export const getPlanQuota = (config: ApiQuotaConfig, plan: string): PlanQuota | null => {
+    const quota = config.plans[plan];
+    if (quota === undefined) return null;
+    if (isValidQuota(quota)) return quota;
+    console.error(`[API Quota] The quota for plan '${plan}' is invalid; the plan is not limited.`);
+    return null;
+};
+
+export const currentPeriod = (now = new Date()): UsagePeriod => ({
+    start: new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1)).toISOString(),
+    end: new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1)).toISOString(),
+});
+
+/**
+ * Counts the user's successful billable calls in a period; these are what the quota limits.
+ */
+export const countBillableCalls = async (userId: string, period: UsagePeriod): Promise<number> => {
+    const { count, error } = await supabaseAdmin
+        .from(API_USAGE_TABLE)
+        .select('id', { count: 'exact', head: true })
+        .eq('user_id', userId)
+        .gte('created_at', period.start)
+        .lt('created_at', period.end)
+        .eq('billable', true)
+        .lt('status', 400);
+    if (error) throw error;
+    return count || 0;
+};
+
+/**
+ * Returns the user's quota state for the current period. Concurrent calls can each see the
+ * last free request, so a quota may be overshot by a few calls.
+ */
+export const getQuotaStatus = async (userId: string, plan: string): Promise<QuotaStatus | null> => {
+    const config = await getApiQuotaConfig();
+    if (!config.enabled) return null;
+    const period = currentPeriod();
+    const quota = getPlanQuota(config, plan);
+    const [used, reserved] = await Promise.all([countBillableCalls(userId, period), countUnfinishedJobs(userId)]);
+    return {
+        period,
+        quota,
+        used,
+        reserved,
+        remaining: quota ? Math.max(0, quota.monthlyRequests - used - reserved) : null,
+        exceeded: !!quota && used + reserved >= quota.monthlyRequests,
+    };
+};
+
+/**
+ * Persists one v1 call. Failures are logged and swallowed so metering never breaks a request.
+ */
+export const recordApiCall = async (record: ApiCallRecord): Promise<void> => {
+    const { error } = await supabaseAdmin.from(API_USAGE_TABLE).insert({
+        user_id: record.userId,
+        api_key_id: record.apiKeyId,
+        route: record.route,
+        status: record.status,
+        billable: record.billable,
+    });
+    if (error) {
+        console.error(`[API Quota] Failed to record a call to ${record.route}: ${error.message}`);
+    }
+};
+
+/**
+ * Groups the user's calls in a period by API key and by route.
+ */
+export const summarizeApiUsage = async (userId: string, period: UsagePeriod): Promise<{ byKey: ApiUsageGroup[]; byRoute: ApiUsageGroup[] }> => {
+    const byKey = new Map<string, ApiUsageGroup>();
+    const byRoute = new Map<string, ApiUsageGroup>();
+    const add = (groups: Map<string, ApiUsageGroup>, key: string, row: any) => {
+        const group = groups.get(key) || { key, calls: 0, failedCalls: 0, billableCalls: 0 };
+        const failed = row.status >= 400;
+        group.calls += 1;
+        if (failed) group.failedCalls += 1;
+        if (row.billable && !failed) group.billableCalls += 1;
+        groups.set(key, group);
+    };
+
+    // PostgREST caps each response, so the period is read page by page.
+    for (let offset = 0; ; offset += PAGE_SIZE) {
+        const { data, error } = await supabaseAdmin
+            .from(API_USAGE_TABLE)
+            .select('api_key_id, route, status, billable')
+            .eq('user_id', userId)
+            .gte('created_at', period.start)
+            .lt('created_at', period.end)
+            .order('created_at', { ascending: true })
+            .range(offset, offset + PAGE_SIZE - 1);
+        if (error) throw error;
+
+        for (const row of data || []) {
+            add(byKey, row.api_key_id || 'unknown', row);
+            add(byRoute, row.route, row);
+        }
+        if (!data || data.length < PAGE_SIZE) break;
+    }
+
+    const sorted = (groups: Map<string, ApiUsageGroup>) => [...groups.values()].sort((a, b) => b.calls - a.calls || a.key.localeCompare(b.key));
+    return { byKey: sorted(byKey), byRoute: sorted(byRoute) };
+};
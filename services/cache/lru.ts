@@ -0,0 +1,37 @@
+export interface LruCache<V> {
+    get(key: string): V | undefined;
+    set(key: string, value: V): void;
+    delete(key: string): boolean;
+    clear(): void;
+    size(): number;
+}
+
+/**
+ * Creates a small synchronous per-process cache whose entries expire `ttlMs` after they are
+ * set. Once full, the least recently used entry is evicted.
+ */
+export const createLruCache = <V>(maxEntries: number, ttlMs: number): LruCache<V> => {
+    // Map iteration follows insertion order, so re-inserting on access keeps it in LRU order.
+    const entries = new Map<string, { value: V; expiresAt: number }>();
+
+    return {
+        get: key => {
+            const entry = entries.get(key);
+            if (!entry) return undefined;
+            entries.delete(key);
+            if (entry.expiresAt <= Date.now()) return undefined;
+            entries.set(key, entry);
+            return entry.value;
+        },
+        set: (key, value) => {
+            entries.delete(key);
+            entries.set(key, { value, expiresAt: Date.now() + ttlMs });
+            while (entries.size > maxEntries) {
+                entries.delete(entries.keys().next().value as string);
+            }
+        },
+        delete: key => entries.delete(key),
+        clear: () => entries.clear(),
+        size: () => entries.size,
+    };
+};
@@ -0,0 +1,70 @@
+import { CacheEntry, CacheStore, SimilarEntry } from './types';
+
+const DEFAULT_MAX_ENTRIES = 1000;
+
+const cosineSimilarity = (a: number[], b: number[]): number => {
+    if (a.length !== b.length) return 0;
+    let dot = 0, normA = 0, normB = 0;
+    for (let i = 0; i < a.length; i++) {
+        dot += a[i] * b[i];
+        normA += a[i] * a[i];
+        normB += b[i] * b[i];
+    }
+    return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+};
+
+/**
+ * Creates a per-process store that evicts the least recently used entry once full. The
+ * similarity search is a linear scan, which is fast enough for a few thousand entries.
+ */
+export const createMemoryCacheStore = (maxEntries = DEFAULT_MAX_ENTRIES): CacheStore => {
+    // Map iteration follows insertion order, so re-inserting on access keeps it in LRU order.
+    const entries = new Map<string, CacheEntry>();
+
+    const isLive = (entry: CacheEntry): boolean => {
+        if (entry.expiresAt > Date.now()) return true;
+        entries.delete(entry.key);
+        return false;
+    };
+
+    const touch = (entry: CacheEntry) => {
+        entries.delete(entry.key);
+        entries.set(entry.key, entry);
+    };
+
+    return {
+        get: async key => {
+            const entry = entries.get(key);
+            if (!entry || !isLive(entry)) return null;
+            touch(entry);
+            return entry;
+        },
+        set: async entry => {
+            touch(entry);
+            while (entries.size > maxEntries) {
+                entries.delete(entries.keys().next().value as string);
+            }
+        },
+        findNearest: async (scope, embedding) => {
+            let best: SimilarEntry | null = null;
+            for (const entry of [...entries.values()]) {
+                if (entry.scope !== scope || !entry.embedding || !isLive(entry)) continue;
+                const similarity = cosineSimilarity(embedding, entry.embedding);
+                if (!best || similarity > best.similarity) best = { entry, similarity };
+            }
+            if (best) touch(best.entry);
+            return best;
+        },
+        clear: async filter => {
+            let removed = 0;
+            for (const entry of [...entries.values()]) {
+                if (filter?.modeler && entry.modeler !== filter.modeler) continue;
+                if (filter?.prompt && entry.prompt !== filter.prompt) continue;
+                entries.delete(entry.key);
+                removed++;
+            }
+            return removed;
+        },
+        size: async () => entries.size,
+    };
+};
@@ -0,0 +1,37 @@
+export interface CacheEntry {
+    // Hash of the scope and the normalized prompt; the exact-match lookup key.
+    key: string;
+    // Modeler, model and prompt-template versions. Similar prompts only match within a scope.
+    scope: string;
+    modeler: string;
+    prompt: string;
+    value: any;
+    // Present when the semantic tier was enabled while the entry was stored.
+    embedding?: number[];
+    createdAt: number;
+    expiresAt: number;
+}
+
+export interface CacheEntryFilter {
+    modeler?: string;
+    // Normalized prompt.
+    prompt?: string;
+}
+
+export interface SimilarEntry {
+    entry: CacheEntry;
+    similarity: number;
+}
+
+/**
+ * Storage behind the generation cache. Stores must not return expired entries.
+ */
+export interface CacheStore {
+    get(key: string): Promise<CacheEntry | null>;
+    set(entry: CacheEntry): Promise<void>;
+    // The most similar entry in the scope by cosine similarity, if any has an embedding.
+    findNearest(scope: string, embedding: number[]): Promise<SimilarEntry | null>;
+    // Removes matching entries, or every entry without a filter. Returns the number removed.
+    clear(filter?: CacheEntryFilter): Promise<number>;
+    size(): Promise<number>;
+}
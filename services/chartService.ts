@@ -0,0 +1,225 @@
+import { ChartData, ChartSeries, ChartType, ChartWarning, ChartWarningCode } from '../types';
+
+// Builds and validates the data for the Graph/Chart modeler. Charts come either from the
+// model (see chartController) or from a CSV/JSON table supplied by the user.
+
+export interface ChartResult {
+    chart: ChartData;
+    warnings: ChartWarning[];
+}
+
+export interface DataTable {
+    columns: string[];
+    rows: unknown[][];
+}
+
+export type TableFormat = 'csv' | 'json';
+
+export const CHART_TYPES: ChartType[] = ['pie', 'funnel', 'bar', 'line'];
+
+export const isChartType = (value: unknown): value is ChartType =>
+    typeof value === 'string' && (CHART_TYPES as string[]).includes(value);
+
+const MAX_TABLE_ROWS = 500;
+const MAX_TABLE_COLUMNS = 20;
+const HEX_COLOR = /^#([0-9a-f]{3}|[0-9a-f]{6})$/i;
+const PALETTE = ['#4F46E5', '#10B981', '#F59E0B', '#EF4444', '#3B82F6', '#8B5CF6', '#EC4899', '#14B8A6', '#F97316', '#64748B'];
+
+const invalid = (reason: string) => new Error(`INVALID_CHART_INPUT: ${reason}`);
+
+const isNonEmptyString = (value: unknown): value is string => typeof value === 'string' && value.trim().length > 0;
+
+// Accepts numbers and numeric strings such as "1,234", "$5.50" or "45%".
+const toNumber = (value: unknown): number | null => {
+    if (typeof value === 'number') return Number.isFinite(value) ? value : null;
+    if (typeof value !== 'string') return null;
+    const cleaned = value.trim().replace(/^[$€£¥]/, '').replace(/%$/, '').replace(/[,\s]/g, '');
+    if (!cleaned || !/^[-+]?(\d+\.?\d*|\.\d+)(e[-+]?\d+)?$/i.test(cleaned)) return null;
+    return Number(cleaned);
+};
+
+// --- TABLE INPUT ---
+
+const parseCsv = (text: string): string[][] => {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let field = '';
+    let inQuotes = false;
+    for (let i = 0; i < text.length; i++) {
+        const char = text[i];
+        if (inQuotes) {
+            if (char === '"' && text[i + 1] === '"') {
+                field += '"';
+                i++;
+            } else if (char === '"') {
+                inQuotes = false;
+            } else {
+                field += char;
+            }
+        } else if (char === '"') {
+            inQuotes = true;
+        } else if (char === ',') {
+            row.push(field);
+            field = '';
+        } else if (char === '\n' || char === '\r') {
+            if (char === '\r' && text[i + 1] === '\n') i++;
+            row.push(field);
+            if (row.some(cell => cell.trim())) rows.push(row);
+            row = [];
+            field = '';
+        } else {
+            field += char;
+        }
+    }
+    if (inQuotes) throw invalid('The CSV has an unterminated quoted field.');
+    row.push(field);
+    if (row.some(cell => cell.trim())) rows.push(row);
+    return rows.map(r => r.map(cell => cell.trim()));
+};
+
+const tableFromJson = (value: unknown): DataTable => {
+    if (!Array.isArray(value) || value.length === 0) throw invalid('A JSON table must be a non-empty array.');
+    // An array of records: the keys of the first record are the columns.
+    if (value.every(item => item && typeof item === 'object' && !Array.isArray(item))) {
+        const columns = Object.keys(value[0]);
+        return { columns, rows: value.map(item => columns.map(column => item[column])) };
+    }
+    // An array of arrays with a header row, like CSV.
+    if (value.every(Array.isArray)) {
+        const [header, ...rows] = value as unknown[][];
+        return { columns: header.map(String), rows };
+    }
+    throw invalid('A JSON table must be an array of objects or an array of rows.');
+};
+
+/**
+ * Reads a table from CSV text (with a header row) or JSON. The format is detected when not given.
+ * @throws An `INVALID_CHART_INPUT` error for unreadable or oversized tables.
+ */
+export const parseTable = (input: unknown, format?: TableFormat): DataTable => {
+    let table: DataTable;
+    if (typeof input === 'string' && format !== 'json' && (format === 'csv' || !/^\s*[[{]/.test(input))) {
+        const [header, ...rows] = parseCsv(input);
+        if (!header) throw invalid('The CSV is empty.');
+        table = { columns: header, rows };
+    } else if (typeof input === 'string') {
+        let parsed: unknown;
+        try {
+            parsed = JSON.parse(input);
+        } catch (e: any) {
+            throw invalid(`The table is not valid JSON (${e.message}).`);
+        }
+        table = tableFromJson(parsed);
+    } else {
+        table = tableFromJson(input);
+    }
+
+    if (table.columns.length < 2) throw invalid('The table needs a label column and at least one value column.');
+    if (table.columns.length > MAX_TABLE_COLUMNS) throw invalid(`The table may have at most ${MAX_TABLE_COLUMNS} columns.`);
+    if (table.rows.length === 0) throw invalid('The table has no data rows.');
+    if (table.rows.length > MAX_TABLE_ROWS) throw invalid(`The table may have at most ${MAX_TABLE_ROWS} rows.`);
+    return table;
+};
+
+/**
+ * Maps a table onto a chart: the first column holds the labels (slices, stages or categories),
+ * and the value columns become the value (pie, funnel) or one series each (bar, line).
+ * The result still needs `validateChart`.
+ */
+export const chartFromTable = (type: ChartType, table: DataTable, title: string): unknown => {
+    const labels = table.rows.map(row => String(row[0] ?? ''));
+    // Columns without a single numeric cell are text (e.g. notes) and are skipped.
+    const valueColumns = table.columns
+        .map((name, index) => ({ name, index }))
+        .slice(1)
+        .filter(({ index }) => table.rows.some(row => toNumber(row[index]) !== null));
+    if (valueColumns.length === 0) throw invalid('The table has no numeric column.');
+
+    if (type === 'pie' || type === 'funnel') {
+        const { index } = valueColumns[0];
+        const items = table.rows.map((row, i) => ({ label: labels[i], value: row[index] }));
+        return type === 'pie' ? { title, slices: items } : { title, stages: items };
+    }
+    return {
+        title,
+        xAxisLabel: table.columns[0],
+        categories: labels,
+        series: valueColumns.map(({ name, index }) => ({ label: name, values: table.rows.map(row => row[index]) })),
+    };
+};
+
+// --- VALIDATION ---
+
+/**
+ * Validates chart data and repairs what it can without guessing: missing titles and labels get
+ * defaults, invalid colors are replaced from a palette, and unusable values are dropped (pie,
+ * funnel) or set to 0 (bar, line). The input is never mutated.
+ * @throws An `INVALID_CHART_INPUT` error if no usable data is left.
+ */
+export const validateChart = (type: ChartType, input: any): ChartResult => {
+    const warnings: ChartWarning[] = [];
+    const warn = (code: ChartWarningCode, message: string, repaired = true) => warnings.push({ code, message, repaired });
+    const raw = input && typeof input === 'object' ? input : {};
+
+    const title = isNonEmptyString(raw.title) ? raw.title.trim() : 'Untitled Chart';
+    if (!isNonEmptyString(raw.title)) warn('MISSING_FIELD', 'Chart has no title; a default was used.');
+
+    let paletteIndex = 0;
+    const colorFor = (value: unknown, owner: string): string => {
+        const fallback = PALETTE[paletteIndex++ % PALETTE.length];
+        if (typeof value === 'string' && HEX_COLOR.test(value.trim())) return value.trim();
+        if (value !== undefined && value !== null && value !== '') {
+            warn('INVALID_COLOR', `"${owner}" has an invalid color ${JSON.stringify(value)}; ${fallback} was used.`);
+        }
+        return fallback;
+    };
+
+    if (type === 'pie' || type === 'funnel') {
+        const field = type === 'pie' ? 'slices' : 'stages';
+        const items: Array<{ label: string; value: number; color: string }> = [];
+        (Array.isArray(raw[field]) ? raw[field] : []).forEach((item: any, i: number) => {
+            const label = isNonEmptyString(item?.label) ? item.label.trim() : `Item ${i + 1}`;
+            if (!isNonEmptyString(item?.label)) warn('MISSING_FIELD', `Entry ${i + 1} has no label; "${label}" was used.`);
+            const value = toNumber(item?.value);
+            if (value === null || value < 0) {
+                warn('INVALID_VALUE', `"${label}" has ${value === null ? 'a non-numeric' : 'a negative'} value and was dropped.`);
+                return;
+            }
+            items.push({ label, value, color: colorFor(item?.color, label) });
+        });
+        if (items.length === 0) throw invalid(`The chart has no ${field} with a valid value.`);
+        if (type === 'pie' && items.every(item => item.value === 0)) throw invalid('A pie chart needs at least one value above 0.');
+        if (type === 'funnel' && items.some((item, i) => i > 0 && item.value > items[i - 1].value)) {
+            warn('UNSORTED_FUNNEL', 'Funnel stages increase somewhere; a funnel usually narrows from stage to stage.', false);
+        }
+        return { chart: type === 'pie' ? { title, slices: items } : { title, stages: items }, warnings };
+    }
+
+    const categories: string[] = (Array.isArray(raw.categories) ? raw.categories : []).map((category: unknown, i: number) =>
+        isNonEmptyString(category) ? category.trim() : typeof category === 'number' ? String(category) : `Category ${i + 1}`);
+    if (categories.length === 0) throw invalid('The chart has no categories.');
+
+    const series: ChartSeries[] = (Array.isArray(raw.series) ? raw.series : []).map((item: any, i: number) => {
+        const label = isNonEmptyString(item?.label) ? item.label.trim() : `Series ${i + 1}`;
+        if (!isNonEmptyString(item?.label)) warn('MISSING_FIELD', `Series ${i + 1} has no label; "${label}" was used.`);
+        const rawValues: unknown[] = Array.isArray(item?.values) ? item.values : [];
+        if (rawValues.length !== categories.length) {
+            warn('SERIES_LENGTH_MISMATCH', `"${label}" has ${rawValues.length} value(s) for ${categories.length} categories; it was ${rawValues.length > categories.length ? 'truncated' : 'padded with 0'}.`);
+        }
+        const values = categories.map((_, index) => {
+            const value = toNumber(rawValues[index]);
+            if (value === null && index < rawValues.length) {
+                warn('INVALID_VALUE', `"${label}" has a non-numeric value for "${categories[index]}"; 0 was used.`);
+            }
+            return value ?? 0;
+        });
+        return { label, values, color: colorFor(item?.color, label) };
+    });
+    if (series.length === 0) throw invalid('The chart has no series.');
+
+    const axes = {
+        ...(isNonEmptyString(raw.xAxisLabel) ? { xAxisLabel: raw.xAxisLabel.trim() } : {}),
+        ...(isNonEmptyString(raw.yAxisLabel) ? { yAxisLabel: raw.yAxisLabel.trim() } : {}),
+    };
+    return { chart: { title, ...axes, categories, series }, warnings };
+};
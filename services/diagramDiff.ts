@@ -0,0 +1,66 @@
+import { DiagramChange, DiagramData } from '../types';
+
+interface Identified {
+    id: string;
+}
+
+// Deep equality for the plain JSON values stored in diagrams.
+const isEqual = (a: unknown, b: unknown): boolean => {
+    if (a === b) return true;
+    if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) return false;
+    if (Array.isArray(a) !== Array.isArray(b)) return false;
+    const keysA = Object.keys(a).filter(k => (a as any)[k] !== undefined);
+    const keysB = Object.keys(b).filter(k => (b as any)[k] !== undefined);
+    if (keysA.length !== keysB.length) return false;
+    return keysA.every(k => isEqual((a as any)[k], (b as any)[k]));
+};
+
+// Link endpoints may be hydrated node objects on the frontend; compare them by id.
+const normalize = (element: any): any => {
+    if (element && typeof element === 'object' && ('source' in element || 'target' in element)) {
+        return {
+            ...element,
+            source: typeof element.source === 'object' && element.source ? element.source.id : element.source,
+            target: typeof element.target === 'object' && element.target ? element.target.id : element.target,
+        };
+    }
+    return element;
+};
+
+const diffCollection = <T extends Identified>(element: DiagramChange['element'], before: T[], after: T[]): DiagramChange[] => {
+    const changes: DiagramChange[] = [];
+    const beforeById = new Map(before.map(item => [item.id, normalize(item)]));
+    const afterById = new Map(after.map(item => [item.id, normalize(item)]));
+
+    for (const [id, oldItem] of beforeById) {
+        const newItem = afterById.get(id);
+        if (!newItem) {
+            changes.push({ element, change: 'removed', id });
+            continue;
+        }
+        const fields = [...new Set([...Object.keys(oldItem), ...Object.keys(newItem)])]
+            .filter(key => !isEqual(oldItem[key], newItem[key]))
+            .sort();
+        if (fields.length > 0) {
+            changes.push({ element, change: 'modified', id, fields });
+        }
+    }
+    for (const id of afterById.keys()) {
+        if (!beforeById.has(id)) {
+            changes.push({ element, change: 'added', id });
+        }
+    }
+    return changes;
+};
+
+/**
+ * Computes the structural difference between two diagrams, matching elements by id.
+ * @param before The original diagram.
+ * @param after The updated diagram.
+ * @returns Added, removed and modified nodes, links and containers, in that order.
+ */
+export const diffDiagrams = (before: DiagramData, after: DiagramData): DiagramChange[] => [
+    ...diffCollection('node', before.nodes || [], after.nodes || []),
+    ...diffCollection('link', before.links || [], after.links || []),
+    ...diffCollection('container', before.containers || [], after.containers || []),
+];
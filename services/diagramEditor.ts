@@ -0,0 +1,122 @@
+import { ArchNode, Container, DiagramData, DiagramWarning, Link } from '../types';
+
+export interface MergeResult {
+    diagram: DiagramData;
+    warnings: DiagramWarning[];
+}
+
+// The fields the model can return for each element (see `responseSchema` in generationController).
+// Any other field, such as `locked` or `animationOrder`, only exists in the original diagram.
+const MODEL_NODE_FIELDS = ['id', 'label', 'type', 'description', 'shape', 'x', 'y', 'width', 'height', 'color'];
+const MODEL_LINK_FIELDS = ['id', 'source', 'target', 'label', 'style', 'thickness', 'bidirectional'];
+const MODEL_CONTAINER_FIELDS = ['id', 'label', 'type', 'childNodeIds', 'childContainerIds', 'parentContainerId', 'borderStyle', 'x', 'y', 'width', 'height'];
+
+// The model fills optional fields with empty values, which mean the same as leaving them out.
+const isBlank = (value: unknown): boolean => value === undefined || value === null || value === '';
+
+const isSameValue = (a: unknown, b: unknown): boolean =>
+    (isBlank(a) && isBlank(b)) || JSON.stringify(a) === JSON.stringify(b);
+
+/**
+ * Applies the model's copy of an element to the original: fields the model can return come
+ * from the model, unless both copies leave them empty, and every other field is kept.
+ */
+const carryOver = <T extends object>(previous: T, edited: T, modelFields: string[]): T => {
+    const merged: any = { ...previous };
+    for (const field of modelFields) {
+        const value = (edited as any)[field];
+        if (isBlank(value) && isBlank((previous as any)[field])) continue;
+        if (value === undefined) delete merged[field];
+        else merged[field] = value;
+    }
+    return merged;
+};
+
+const endpointId = (endpoint: string | ArchNode): string => typeof endpoint === 'string' ? endpoint : endpoint.id;
+
+const carryOverAll = <T extends { id: string }>(original: T[], edited: T[], modelFields: string[]): T[] => {
+    const originalById = new Map(original.map(item => [item.id, item]));
+    return edited.map(item => {
+        const previous = originalById.get(item.id);
+        return previous ? carryOver(previous, item, modelFields) : item;
+    });
+};
+
+/**
+ * Builds the user prompt for an incremental edit. The current diagram is embedded as JSON
+ * so the model can return it in full with only the requested changes applied.
+ */
+export const buildEditPrompt = (diagram: DiagramData, instruction: string): string => {
+    const lockedIds = diagram.nodes.filter(n => n.locked).map(n => n.id);
+    const lockedNote = lockedIds.length > 0
+        ? `\nThe following nodes are LOCKED and must be returned unchanged: ${lockedIds.join(', ')}.`
+        : '';
+    return `Here is the current diagram JSON: ${JSON.stringify(diagram)}\n${lockedNote}\nApply the following change and return the complete updated diagram JSON: "${instruction}"`;
+};
+
+/**
+ * Reconciles the model's edited diagram with the original so that work done in the
+ * Playground survives the edit:
+ * - nodes that still exist keep their original position and size
+ * - locked nodes are restored exactly, even if the model changed or removed them; removed
+ *   ones also get back their links and container membership
+ * - fields the model cannot return (e.g. `locked`) are kept on every element it returned
+ *
+ * New nodes keep the geometry the model chose for them.
+ * @param original The diagram the edit was applied to.
+ * @param edited The validated diagram returned by the model.
+ */
+export const mergeEditedDiagram = (original: DiagramData, edited: DiagramData): MergeResult => {
+    const warnings: DiagramWarning[] = [];
+    const originalById = new Map(original.nodes.map(n => [n.id, n]));
+
+    const nodes: ArchNode[] = edited.nodes.map(node => {
+        const previous = originalById.get(node.id);
+        if (!previous) return node;
+        if (previous.locked) {
+            // Only the fields the model can return are compared; it never returns the rest.
+            if (!MODEL_NODE_FIELDS.every(field => isSameValue((previous as any)[field], (node as any)[field]))) {
+                warnings.push({ code: 'LOCKED_NODE_RESTORED', message: `Locked node '${node.id}' was modified by the edit; the original was kept.`, elementId: node.id, repaired: true });
+            }
+            return previous;
+        }
+        return { ...carryOver(previous, node, MODEL_NODE_FIELDS), x: previous.x, y: previous.y, width: previous.width, height: previous.height };
+    });
+
+    const editedIds = new Set(edited.nodes.map(n => n.id));
+    const restoredIds = new Set<string>();
+    for (const previous of original.nodes) {
+        if (previous.locked && !editedIds.has(previous.id)) {
+            nodes.push(previous);
+            restoredIds.add(previous.id);
+            warnings.push({ code: 'LOCKED_NODE_RESTORED', message: `Locked node '${previous.id}' was removed by the edit; it was restored.`, elementId: previous.id, repaired: true });
+        }
+    }
+
+    const links = carryOverAll<Link>(original.links, edited.links, MODEL_LINK_FIELDS);
+    let containers = edited.containers && carryOverAll<Container>(original.containers || [], edited.containers, MODEL_CONTAINER_FIELDS);
+    if (restoredIds.size > 0) {
+        // A restored node comes back with the links and container membership the edit dropped
+        // along with it, as long as whatever is on the other end still exists.
+        const nodeIds = new Set(nodes.map(n => n.id));
+        const linkIds = new Set(links.map(l => l.id));
+        for (const link of original.links) {
+            const source = endpointId(link.source);
+            const target = endpointId(link.target);
+            if ((restoredIds.has(source) || restoredIds.has(target)) && nodeIds.has(source) && nodeIds.has(target) && !linkIds.has(link.id)) {
+                links.push(link);
+                linkIds.add(link.id);
+            }
+        }
+        if (containers) {
+            const placedIds = new Set<string>();
+            containers.forEach(c => (c.childNodeIds || []).forEach(id => placedIds.add(id)));
+            containers = containers.map(container => {
+                const previous = (original.containers || []).find(c => c.id === container.id);
+                const missing = (previous?.childNodeIds || []).filter(id => restoredIds.has(id) && !placedIds.has(id));
+                return missing.length > 0 ? { ...container, childNodeIds: [...(container.childNodeIds || []), ...missing] } : container;
+            });
+        }
+    }
+    return { diagram: { ...edited, nodes, links, containers }, warnings };
+};
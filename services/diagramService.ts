@@ -0,0 +1,193 @@
+import { isUuid, supabaseAdmin } from '../supabaseClient';
+import { DiagramChange, DiagramData, DiagramWarning } from '../types';
+import { validateAndRepairDiagram } from './diagramValidator';
+import { diffDiagrams } from './diagramDiff';
+
+// Persisted diagrams live in two tables:
+//   diagrams          (id uuid pk, user_id uuid, title text, data jsonb, current_revision int, created_at, updated_at)
+//   diagram_revisions (id uuid pk, diagram_id uuid fk -> diagrams on delete cascade, revision int,
+//                      data jsonb, author_id uuid, message text, created_at; unique (diagram_id, revision))
+// `diagrams.data` is a copy of the latest revision so that fetching a diagram needs one query.
+// The unique constraint makes concurrent saves of the same diagram fail instead of forking history.
+
+export interface DiagramRecord {
+    id: string;
+    user_id: string;
+    title: string;
+    data: DiagramData;
+    current_revision: number;
+    created_at: string;
+    updated_at: string;
+}
+
+export interface DiagramRevision {
+    id: string;
+    diagram_id: string;
+    revision: number;
+    data: DiagramData;
+    author_id: string;
+    message: string | null;
+    created_at: string;
+}
+
+export interface SavedDiagram {
+    diagram: DiagramRecord;
+    warnings: DiagramWarning[];
+}
+
+const DIAGRAM_SUMMARY_COLUMNS = 'id, user_id, title, current_revision, created_at, updated_at';
+const REVISION_SUMMARY_COLUMNS = 'id, diagram_id, revision, author_id, message, created_at';
+
+// Postgres' unique_violation, raised when another save already took the next revision number.
+const UNIQUE_VIOLATION = '23505';
+
+const notFound = (what: string) => new Error(`DIAGRAM_NOT_FOUND: ${what} was not found.`);
+
+const insertRevision = async (diagramId: string, revision: number, data: DiagramData, authorId: string, message?: string) => {
+    const { error } = await supabaseAdmin.from('diagram_revisions').insert({
+        diagram_id: diagramId,
+        revision,
+        data,
+        author_id: authorId,
+        message: message || null,
+    });
+    if (error?.code === UNIQUE_VIOLATION) {
+        throw new Error('DIAGRAM_CONFLICT: The diagram changed since it was loaded. Reload it and try again.');
+    }
+    if (error) throw error;
+};
+
+/**
+ * Lists the user's diagrams, most recently updated first. The diagram data is omitted.
+ */
+export const listDiagrams = async (userId: string): Promise<Omit<DiagramRecord, 'data'>[]> => {
+    const { data, error } = await supabaseAdmin
+        .from('diagrams')
+        .select(DIAGRAM_SUMMARY_COLUMNS)
+        .eq('user_id', userId)
+        .order('updated_at', { ascending: false });
+    if (error) throw error;
+    return data as Omit<DiagramRecord, 'data'>[];
+};
+
+/**
+ * Fetches one of the user's diagrams with its latest data.
+ * @throws A `DIAGRAM_NOT_FOUND` error if it does not exist or belongs to another user.
+ */
+export const getDiagram = async (userId: string, diagramId: string): Promise<DiagramRecord> => {
+    // Querying a uuid column with anything else is a database error, not a missing row.
+    if (!isUuid(diagramId)) throw notFound('Diagram');
+    const { data, error } = await supabaseAdmin
+        .from('diagrams')
+        .select('*')
+        .eq('id', diagramId)
+        .eq('user_id', userId)
+        .maybeSingle();
+    if (error) throw error;
+    if (!data) throw notFound('Diagram');
+    return data as DiagramRecord;
+};
+
+/**
+ * Stores a new diagram as revision 1. The data is validated and repaired first.
+ */
+export const createDiagram = async (userId: string, rawDiagram: unknown, message?: string): Promise<SavedDiagram> => {
+    const { diagram: data, warnings } = validateAndRepairDiagram(rawDiagram);
+    const { data: created, error } = await supabaseAdmin
+        .from('diagrams')
+        .insert({ user_id: userId, title: data.title, data, current_revision: 1 })
+        .select()
+        .single();
+    if (error) throw error;
+
+    try {
+        await insertRevision(created.id, 1, data, userId, message || 'Created');
+    } catch (e) {
+        // Do not leave a diagram without history behind.
+        await supabaseAdmin.from('diagrams').delete().eq('id', created.id);
+        throw e;
+    }
+    return { diagram: created as DiagramRecord, warnings };
+};
+
+/**
+ * Saves new data for a diagram as the next revision.
+ * @throws A `DIAGRAM_NOT_FOUND` error if the diagram does not belong to the user, or a
+ * `DIAGRAM_CONFLICT` error if another revision was saved in the meantime.
+ */
+export const saveDiagramRevision = async (userId: string, diagramId: string, rawDiagram: unknown, message?: string): Promise<SavedDiagram> => {
+    const existing = await getDiagram(userId, diagramId);
+    const { diagram: data, warnings } = validateAndRepairDiagram(rawDiagram);
+    const revision = existing.current_revision + 1;
+
+    await insertRevision(diagramId, revision, data, userId, message);
+    const { data: updated, error } = await supabaseAdmin
+        .from('diagrams')
+        .update({ title: data.title, data, current_revision: revision, updated_at: new Date().toISOString() })
+        .eq('id', diagramId)
+        .select()
+        .single();
+    if (error) throw error;
+    return { diagram: updated as DiagramRecord, warnings };
+};
+
+/**
+ * Deletes a diagram. Its revisions are removed by the foreign key cascade.
+ * @throws A `DIAGRAM_NOT_FOUND` error if the diagram does not belong to the user.
+ */
+export const deleteDiagram = async (userId: string, diagramId: string): Promise<void> => {
+    await getDiagram(userId, diagramId);
+    const { error } = await supabaseAdmin.from('diagrams').delete().eq('id', diagramId);
+    if (error) throw error;
+};
+
+/**
+ * Lists a diagram's revisions, newest first. The revision data is omitted.
+ */
+export const listRevisions = async (userId: string, diagramId: string): Promise<Omit<DiagramRevision, 'data'>[]> => {
+    await getDiagram(userId, diagramId);
+    const { data, error } = await supabaseAdmin
+        .from('diagram_revisions')
+        .select(REVISION_SUMMARY_COLUMNS)
+        .eq('diagram_id', diagramId)
+        .order('revision', { ascending: false });
+    if (error) throw error;
+    return data as Omit<DiagramRevision, 'data'>[];
+};
+
+/**
+ * Fetches a single revision of a diagram, including its data.
+ * @throws A `DIAGRAM_NOT_FOUND` error if the diagram or revision does not exist.
+ */
+export const getRevision = async (userId: string, diagramId: string, revision: number): Promise<DiagramRevision> => {
+    await getDiagram(userId, diagramId);
+    const { data, error } = await supabaseAdmin
+        .from('diagram_revisions')
+        .select('*')
+        .eq('diagram_id', diagramId)
+        .eq('revision', revision)
+        .maybeSingle();
+    if (error) throw error;
+    if (!data) throw notFound(`Revision ${revision}`);
+    return data as DiagramRevision;
+};
+
+/**
+ * Restores an earlier revision by saving a copy of it as the newest revision,
+ * so the history itself is never rewritten.
+ */
+export const restoreRevision = async (userId: string, diagramId: string, revision: number): Promise<SavedDiagram> => {
+    const target = await getRevision(userId, diagramId, revision);
+    return saveDiagramRevision(userId, diagramId, target.data, `Restored revision ${revision}`);
+};
+
+/**
+ * Computes the structural changes between two revisions of a diagram.
+ */
+export const diffRevisions = async (userId: string, diagramId: string, fromRevision: number, toRevision: number): Promise<DiagramChange[]> => {
+    const [from, to] = await Promise.all([
+        getRevision(userId, diagramId, fromRevision),
+        getRevision(userId, diagramId, toRevision),
+    ]);
+    return diffDiagrams(from.data, to.data);
+};
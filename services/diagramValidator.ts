@@ -0,0 +1,283 @@
+import { ArchNode, Container, ContainerType, DiagramData, DiagramWarning, DiagramWarningCode, IconType, Link } from '../types';
+
+export interface ValidationResult {
+    diagram: DiagramData;
+    warnings: DiagramWarning[];
+}
+
+const KNOWN_NODE_TYPES = new Set<string>(Object.values(IconType));
+const KNOWN_CONTAINER_TYPES = new Set<ContainerType>(['region', 'vpc', 'availability-zone', 'subnet', 'security-group', 'tier', 'group']);
+const DEFAULT_NODE_SIZE = { width: 150, height: 80 };
+const DEFAULT_CONTAINER_SIZE = { width: 300, height: 200 };
+
+const isNonEmptyString = (value: unknown): value is string => typeof value === 'string' && value.trim().length > 0;
+const isFiniteNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+/**
+ * Returns `base` if it is not yet taken, otherwise the first free `base-2`, `base-3`, ...
+ * The chosen id is added to `taken`.
+ */
+const claimUniqueId = (base: string, taken: Set<string>): string => {
+    let candidate = base;
+    let suffix = 2;
+    while (taken.has(candidate)) {
+        candidate = `${base}-${suffix++}`;
+    }
+    taken.add(candidate);
+    return candidate;
+};
+
+/**
+ * Validates a generated diagram against the structural rules the frontend relies on
+ * and deterministically repairs what it can. The input is never mutated.
+ *
+ * Repairs performed:
+ * - missing or duplicate node, link and container ids are (re)assigned
+ * - non-numeric geometry is replaced with defaults
+ * - links whose source/target do not resolve to a node are dropped
+ * - container children that do not exist are dropped, and a node listed by several
+ *   containers is kept only in the first one
+ * - `parentContainerId` and `childContainerIds` are reconciled, preferring the child's
+ *   own `parentContainerId`, and hierarchy cycles are broken
+ *
+ * Anything that cannot be fixed without guessing (e.g. unknown icon types) is reported
+ * with `repaired: false`.
+ * @param input The raw diagram as parsed from the AI response.
+ * @returns The repaired diagram and the list of findings.
+ */
+export const validateAndRepairDiagram = (input: any): ValidationResult => {
+    const warnings: DiagramWarning[] = [];
+    const warn = (code: DiagramWarningCode, message: string, repaired: boolean, elementId?: string) => {
+        warnings.push(elementId ? { code, message, elementId, repaired } : { code, message, repaired });
+    };
+
+    const raw = input && typeof input === 'object' ? input : {};
+
+    const title = isNonEmptyString(raw.title) ? raw.title : 'Untitled Diagram';
+    if (!isNonEmptyString(raw.title)) warn('MISSING_FIELD', 'Diagram has no title; a default was used.', true);
+
+    const architectureType = isNonEmptyString(raw.architectureType) ? raw.architectureType : 'General';
+    if (!isNonEmptyString(raw.architectureType)) warn('MISSING_FIELD', 'Diagram has no architectureType; a default was used.', true);
+
+    // --- NODES ---
+    const nodeIds = new Set<string>();
+    const nodes: ArchNode[] = [];
+    (Array.isArray(raw.nodes) ? raw.nodes : []).forEach((rawNode: any, index: number) => {
+        if (!rawNode || typeof rawNode !== 'object') {
+            warn('MISSING_FIELD', `Node at index ${index} is not an object and was removed.`, true);
+            return;
+        }
+        const node: ArchNode = { ...rawNode };
+
+        if (!isNonEmptyString(node.id)) {
+            node.id = claimUniqueId(`node-${index + 1}`, nodeIds);
+            warn('MISSING_FIELD', `Node at index ${index} has no id; assigned '${node.id}'.`, true, node.id);
+        } else if (nodeIds.has(node.id)) {
+            const originalId = node.id;
+            node.id = claimUniqueId(originalId, nodeIds);
+            warn('DUPLICATE_ID', `Duplicate node id '${originalId}' renamed to '${node.id}'.`, true, node.id);
+        } else {
+            nodeIds.add(node.id);
+        }
+
+        if (!isNonEmptyString(node.label)) {
+            node.label = node.id;
+            warn('MISSING_FIELD', `Node '${node.id}' has no label; its id was used.`, true, node.id);
+        }
+        if (!isNonEmptyString(node.type)) {
+            node.type = IconType.Generic;
+            warn('MISSING_FIELD', `Node '${node.id}' has no type; 'generic' was used.`, true, node.id);
+        } else if (!KNOWN_NODE_TYPES.has(node.type)) {
+            warn('UNKNOWN_NODE_TYPE', `Node '${node.id}' uses unknown type '${node.type}'.`, false, node.id);
+        }
+
+        const badGeometry = (['x', 'y', 'width', 'height'] as const).filter(key => !isFiniteNumber(node[key]));
+        if (badGeometry.length > 0) {
+            if (!isFiniteNumber(node.x)) node.x = 0;
+            if (!isFiniteNumber(node.y)) node.y = 0;
+            if (!isFiniteNumber(node.width) || node.width <= 0) node.width = DEFAULT_NODE_SIZE.width;
+            if (!isFiniteNumber(node.height) || node.height <= 0) node.height = DEFAULT_NODE_SIZE.height;
+            warn('INVALID_GEOMETRY', `Node '${node.id}' had invalid ${badGeometry.join(', ')}; defaults were used.`, true, node.id);
+        }
+
+        nodes.push(node);
+    });
+
+    if (nodes.length === 0) {
+        warn('EMPTY_DIAGRAM', 'Diagram contains no nodes.', false);
+    }
+
+    // --- LINKS ---
+    const linkIds = new Set<string>();
+    const links: Link[] = [];
+    const endpointId = (endpoint: unknown): string | null => {
+        if (isNonEmptyString(endpoint)) return endpoint;
+        if (endpoint && typeof endpoint === 'object' && isNonEmptyString((endpoint as ArchNode).id)) return (endpoint as ArchNode).id;
+        return null;
+    };
+
+    (Array.isArray(raw.links) ? raw.links : []).forEach((rawLink: any, index: number) => {
+        if (!rawLink || typeof rawLink !== 'object') {
+            warn('MISSING_FIELD', `Link at index ${index} is not an object and was removed.`, true);
+            return;
+        }
+        const source = endpointId(rawLink.source);
+        const target = endpointId(rawLink.target);
+        const label = isNonEmptyString(rawLink.id) ? rawLink.id : `link at index ${index}`;
+
+        if (!source || !target || !nodeIds.has(source) || !nodeIds.has(target)) {
+            warn('DANGLING_LINK', `Link '${label}' references a missing node (${source ?? '?'} -> ${target ?? '?'}) and was removed.`, true, isNonEmptyString(rawLink.id) ? rawLink.id : undefined);
+            return;
+        }
+
+        const link: Link = { ...rawLink, source, target };
+        if (!isNonEmptyString(link.id)) {
+            link.id = claimUniqueId(`${source}-to-${target}`, linkIds);
+            warn('MISSING_FIELD', `Link at index ${index} has no id; assigned '${link.id}'.`, true, link.id);
+        } else if (linkIds.has(link.id)) {
+            const originalId = link.id;
+            link.id = claimUniqueId(originalId, linkIds);
+            warn('DUPLICATE_ID', `Duplicate link id '${originalId}' renamed to '${link.id}'.`, true, link.id);
+        } else {
+            linkIds.add(link.id);
+        }
+
+        if (source === target) {
+            warn('SELF_LINK', `Link '${link.id}' connects node '${source}' to itself.`, false, link.id);
+        }
+        links.push(link);
+    });
+
+    // --- CONTAINERS ---
+    if (raw.containers === undefined) {
+        return { diagram: { title, architectureType, nodes, links }, warnings };
+    }
+
+    const containerIds = new Set<string>();
+    const containers: Container[] = [];
+    (Array.isArray(raw.containers) ? raw.containers : []).forEach((rawContainer: any, index: number) => {
+        if (!rawContainer || typeof rawContainer !== 'object') {
+            warn('MISSING_FIELD', `Container at index ${index} is not an object and was removed.`, true);
+            return;
+        }
+        const container: Container = {
+            ...rawContainer,
+            childNodeIds: Array.isArray(rawContainer.childNodeIds) ? [...rawContainer.childNodeIds] : [],
+            childContainerIds: Array.isArray(rawContainer.childContainerIds) ? [...rawContainer.childContainerIds] : [],
+        };
+
+        if (!isNonEmptyString(container.id)) {
+            container.id = claimUniqueId(`container-${index + 1}`, containerIds);
+            warn('MISSING_FIELD', `Container at index ${index} has no id; assigned '${container.id}'.`, true, container.id);
+        } else if (containerIds.has(container.id) || nodeIds.has(container.id)) {
+            const originalId = container.id;
+            container.id = claimUniqueId(originalId, new Set([...containerIds, ...nodeIds]));
+            containerIds.add(container.id);
+            warn('DUPLICATE_ID', `Container id '${originalId}' is already in use; renamed to '${container.id}'.`, true, container.id);
+        } else {
+            containerIds.add(container.id);
+        }
+
+        if (!isNonEmptyString(container.label)) {
+            container.label = container.id;
+            warn('MISSING_FIELD', `Container '${container.id}' has no label; its id was used.`, true, container.id);
+        }
+        if (!KNOWN_CONTAINER_TYPES.has(container.type)) {
+            warn('UNKNOWN_CONTAINER_TYPE', `Container '${container.id}' uses unknown type '${container.type}'.`, false, container.id);
+        }
+
+        const badGeometry = (['x', 'y', 'width', 'height'] as const).filter(key => !isFiniteNumber(container[key]));
+        if (badGeometry.length > 0) {
+            if (!isFiniteNumber(container.x)) container.x = 0;
+            if (!isFiniteNumber(container.y)) container.y = 0;
+            if (!isFiniteNumber(container.width) || container.width <= 0) container.width = DEFAULT_CONTAINER_SIZE.width;
+            if (!isFiniteNumber(container.height) || container.height <= 0) container.height = DEFAULT_CONTAINER_SIZE.height;
+            warn('INVALID_GEOMETRY', `Container '${container.id}' had invalid ${badGeometry.join(', ')}; defaults were used.`, true, container.id);
+        }
+
+        containers.push(container);
+    });
+
+    // Child nodes: drop missing ones, and keep each node in a single container.
+    const nodeOwner = new Map<string, string>();
+    for (const container of containers) {
+        const kept: string[] = [];
+        for (const childId of container.childNodeIds) {
+            if (!nodeIds.has(childId)) {
+                warn('MISSING_CHILD_NODE', `Container '${container.id}' lists missing node '${childId}'; it was removed.`, true, container.id);
+                continue;
+            }
+            const owner = nodeOwner.get(childId);
+            if (owner === container.id) continue;
+            if (owner) {
+                warn('NODE_IN_MULTIPLE_CONTAINERS', `Node '${childId}' is listed by both '${owner}' and '${container.id}'; kept in '${owner}'.`, true, childId);
+                continue;
+            }
+            nodeOwner.set(childId, container.id);
+            kept.push(childId);
+        }
+        container.childNodeIds = kept;
+    }
+
+    // Container hierarchy: a child's explicit parentContainerId wins, otherwise the first
+    // container that lists it in childContainerIds becomes its parent.
+    const parentOf = new Map<string, string>();
+    for (const container of containers) {
+        const parentId = container.parentContainerId;
+        if (parentId === undefined || parentId === null || parentId === '') continue;
+        if (!containerIds.has(parentId) || parentId === container.id) {
+            warn('CONTAINER_HIERARCHY_MISMATCH', `Container '${container.id}' has invalid parentContainerId '${parentId}'; it was cleared.`, true, container.id);
+            continue;
+        }
+        parentOf.set(container.id, parentId);
+        const parent = containers.find(c => c.id === parentId);
+        if (parent && !(parent.childContainerIds || []).includes(container.id)) {
+            warn('CONTAINER_HIERARCHY_MISMATCH', `Container '${parentId}' did not list its child '${container.id}'; it was added.`, true, container.id);
+        }
+    }
+    for (const container of containers) {
+        for (const childId of container.childContainerIds || []) {
+            if (!containerIds.has(childId) || childId === container.id) {
+                warn('MISSING_CHILD_CONTAINER', `Container '${container.id}' lists missing container '${childId}'; it was removed.`, true, container.id);
+                continue;
+            }
+            const existingParent = parentOf.get(childId);
+            if (!existingParent) {
+                parentOf.set(childId, container.id);
+                warn('CONTAINER_HIERARCHY_MISMATCH', `Container '${childId}' was missing parentContainerId '${container.id}'; it was set.`, true, childId);
+            } else if (existingParent !== container.id) {
+                warn('CONTAINER_HIERARCHY_MISMATCH', `Container '${container.id}' lists '${childId}', whose parent is '${existingParent}'; the listing was removed.`, true, childId);
+            }
+        }
+    }
+
+    // Break any cycles by detaching the first of their members that is checked. A container whose
+    // ancestors run into a cycle it is not part of is left alone; the cycle is broken when the
+    // loop reaches one of its members.
+    for (const container of containers) {
+        const seen = new Set<string>();
+        let current = parentOf.get(container.id);
+        while (current && !seen.has(current)) {
+            if (current === container.id) {
+                warn('CONTAINER_CYCLE', `Container '${container.id}' is part of a nesting cycle; it was moved to the top level.`, true, container.id);
+                parentOf.delete(container.id);
+                break;
+            }
+            seen.add(current);
+            current = parentOf.get(current);
+        }
+    }
+
+    // Rebuild both sides of the relation from the reconciled parent map.
+    for (const container of containers) {
+        const parentId = parentOf.get(container.id);
+        if (parentId) {
+            container.parentContainerId = parentId;
+        } else {
+            delete container.parentContainerId;
+        }
+        container.childContainerIds = containers.filter(c => parentOf.get(c.id) === container.id).map(c => c.id);
+    }
+
+    return { diagram: { title, architectureType, nodes, links, containers }, warnings };
+};
@@ -0,0 +1,52 @@
+import { DiagramData } from '../types';
+import { toMermaid } from './exporters/mermaid';
+import { toPlantUml } from './exporters/plantuml';
+import { toDot } from './exporters/dot';
+import { toDrawio } from './exporters/drawio';
+import { toExcalidraw } from './exporters/excalidraw';
+import { renderDiagramToPng, renderDiagramToSvg } from './renderService';
+
+export type ExportFormat = 'mermaid' | 'plantuml' | 'dot' | 'drawio' | 'excalidraw' | 'svg' | 'png';
+
+interface DiagramExporter {
+    mimeType: string;
+    fileExtension: string;
+    render: (diagram: DiagramData) => string | Buffer;
+}
+
+const EXPORTERS: Record<ExportFormat, DiagramExporter> = {
+    mermaid: { mimeType: 'text/vnd.mermaid', fileExtension: 'mmd', render: toMermaid },
+    plantuml: { mimeType: 'text/plain', fileExtension: 'puml', render: toPlantUml },
+    dot: { mimeType: 'text/vnd.graphviz', fileExtension: 'dot', render: toDot },
+    drawio: { mimeType: 'application/vnd.jgraph.mxfile', fileExtension: 'drawio', render: toDrawio },
+    excalidraw: { mimeType: 'application/json', fileExtension: 'excalidraw', render: toExcalidraw },
+    svg: { mimeType: 'image/svg+xml', fileExtension: 'svg', render: renderDiagramToSvg },
+    png: { mimeType: 'image/png', fileExtension: 'png', render: renderDiagramToPng },
+};
+
+export const EXPORT_FORMATS = Object.keys(EXPORTERS) as ExportFormat[];
+
+export interface ExportedFile {
+    content: string | Buffer;
+    mimeType: string;
+    fileName: string;
+}
+
+export const isExportFormat = (value: unknown): value is ExportFormat =>
+    typeof value === 'string' && (EXPORT_FORMATS as string[]).includes(value);
+
+/**
+ * Converts a diagram into one of the supported file formats.
+ * @param diagram A diagram that has passed through `validateAndRepairDiagram`.
+ * @param format The target format.
+ * @returns The file content with its MIME type and a suggested file name.
+ */
+export const exportDiagram = (diagram: DiagramData, format: ExportFormat): ExportedFile => {
+    const exporter = EXPORTERS[format];
+    const baseName = (diagram.title || 'diagram').toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'diagram';
+    return {
+        content: exporter.render(diagram),
+        mimeType: exporter.mimeType,
+        fileName: `${baseName}.${exporter.fileExtension}`,
+    };
+};
@@ -0,0 +1,103 @@
+import { ArchNode, Container, DiagramData, Link } from '../../types';
+
+// A container together with the nodes and containers nested directly inside it.
+export interface ContainerTree {
+    container: Container;
+    nodes: ArchNode[];
+    children: ContainerTree[];
+}
+
+export interface DiagramTree {
+    rootNodes: ArchNode[];
+    rootContainers: ContainerTree[];
+}
+
+export const linkEndpoint = (endpoint: string | ArchNode): string => (typeof endpoint === 'string' ? endpoint : endpoint.id);
+
+/**
+ * Groups nodes and containers into their nesting hierarchy, preserving input order.
+ * Expects a diagram that has passed through `validateAndRepairDiagram`.
+ */
+export const buildDiagramTree = (diagram: DiagramData): DiagramTree => {
+    const containers = diagram.containers || [];
+    const containerIds = new Set(containers.map(c => c.id));
+    const nodeById = new Map(diagram.nodes.map(n => [n.id, n]));
+    const ownedNodeIds = new Set(containers.flatMap(c => c.childNodeIds));
+
+    const build = (container: Container): ContainerTree => ({
+        container,
+        nodes: container.childNodeIds.map(id => nodeById.get(id)).filter((n): n is ArchNode => !!n),
+        children: containers.filter(c => c.parentContainerId === container.id).map(build),
+    });
+
+    return {
+        rootNodes: diagram.nodes.filter(n => !ownedNodeIds.has(n.id)),
+        rootContainers: containers
+            .filter(c => !c.parentContainerId || !containerIds.has(c.parentContainerId))
+            .map(build),
+    };
+};
+
+/**
+ * Maps diagram ids to identifiers that are safe in formats with restricted id syntax.
+ * Kebab-case ids become snake_case; collisions and reserved words get a numeric suffix.
+ */
+export const createIdMapper = (prefix: string, reserved: string[] = []) => {
+    const mapped = new Map<string, string>();
+    const used = new Set<string>(reserved);
+    return (id: string): string => {
+        const existing = mapped.get(id);
+        if (existing) return existing;
+        let base = id.replace(/[^A-Za-z0-9_]/g, '_');
+        if (!/^[A-Za-z]/.test(base)) base = `${prefix}_${base}`;
+        let candidate = base;
+        let suffix = 2;
+        while (used.has(candidate)) candidate = `${base}_${suffix++}`;
+        used.add(candidate);
+        mapped.set(id, candidate);
+        return candidate;
+    };
+};
+
+export const THICKNESS_WIDTH: Record<NonNullable<Link['thickness']>, number> = {
+    thin: 1,
+    medium: 2,
+    thick: 3,
+};
+
+export const isHexColor = (value: unknown): value is string =>
+    typeof value === 'string' && /^#([0-9a-fA-F]{3}|[0-9a-fA-F]{6})$/.test(value);
+
+export const indent = (depth: number) => '  '.repeat(depth);
+
+export const escapeXml = (text: string) => text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/\n/g, '&#10;');
+
+const DATABASE_TYPES = new Set(['database', 'sql', 'mysql', 'postgresql', 'mongodb', 'data-store', 'aws-rds', 'aws-dynamodb', 'azure-sql-database', 'gcp-cloud-sql', 'vector-database']);
+
+export const isDatabaseType = (type: string) => DATABASE_TYPES.has(type);
+
+/**
+ * Default fill and stroke colors by icon family, used by graphical exporters when a
+ * node has no explicit `color`. Mirrors the provider palettes used by the frontend icons.
+ */
+export const iconPalette = (type: string): { fill: string; stroke: string } => {
+    if (type.startsWith('aws-')) return { fill: '#fff4e5', stroke: '#ff9900' };
+    if (type.startsWith('azure-')) return { fill: '#e5f1fb', stroke: '#0078d4' };
+    if (type.startsWith('gcp-')) return { fill: '#e8f0fe', stroke: '#4285f4' };
+    if (isDatabaseType(type)) return { fill: '#fff9db', stroke: '#e67700' };
+    if (type === 'kubernetes' || type === 'docker') return { fill: '#e7f5ff', stroke: '#326ce5' };
+    return { fill: '#ffffff', stroke: '#1e1e1e' };
+};
+
+// Converts a node's center-based coordinates into a top-left bounding box.
+export const nodeBounds = (node: ArchNode) => ({
+    x: node.x - node.width / 2,
+    y: node.y - node.height / 2,
+    width: node.width,
+    height: node.height,
+});
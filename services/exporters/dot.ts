@@ -0,0 +1,64 @@
+import { ArchNode, DiagramData, Link } from '../../types';
+import { buildDiagramTree, ContainerTree, indent, isHexColor, linkEndpoint, THICKNESS_WIDTH } from './common';
+
+// DOT accepts any id inside double quotes, so only quotes and newlines need escaping.
+const quote = (text: string) => `"${text.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n')}"`;
+
+const NODE_SHAPES: Record<NonNullable<ArchNode['shape']>, string> = {
+    rectangle: 'box',
+    ellipse: 'ellipse',
+    diamond: 'diamond',
+};
+
+const linkAttributes = (link: Link): string => {
+    const color = isHexColor(link.color) ? link.color : 'black';
+    const attributes: string[] = [];
+    if (link.label) attributes.push(`label=${quote(link.label)}`);
+    if (link.style === 'dotted' || link.style === 'dashed') attributes.push(`style=${link.style}`);
+    // A "double" line is drawn as two parallel strokes of the same color.
+    attributes.push(`color=${quote(link.style === 'double' ? `${color}:${color}` : color)}`);
+    if (link.thickness) attributes.push(`penwidth=${THICKNESS_WIDTH[link.thickness] ?? 1}`);
+    if (link.bidirectional) attributes.push('dir=both');
+    return attributes.join(', ');
+};
+
+/**
+ * Renders a diagram as a Graphviz DOT digraph. Containers become nested `cluster_`
+ * subgraphs so Graphviz draws them as boxes.
+ */
+export const toDot = (diagram: DiagramData): string => {
+    const { rootNodes, rootContainers } = buildDiagramTree(diagram);
+    const lines: string[] = [
+        `digraph ${quote(diagram.title || 'diagram')} {`,
+        `${indent(1)}rankdir=LR;`,
+        `${indent(1)}compound=true;`,
+        `${indent(1)}node [shape=box, style="rounded,filled", fillcolor="#ffffff", fontname="Helvetica"];`,
+        `${indent(1)}edge [fontname="Helvetica"];`,
+    ];
+
+    const writeNode = (node: ArchNode, depth: number) => {
+        const attributes = [`label=${quote(node.label)}`, `shape=${NODE_SHAPES[node.shape || 'rectangle'] || 'box'}`];
+        if (isHexColor(node.color)) attributes.push(`fillcolor=${quote(node.color)}`);
+        lines.push(`${indent(depth)}${quote(node.id)} [${attributes.join(', ')}];`);
+    };
+    const writeContainer = (tree: ContainerTree, depth: number) => {
+        const { container } = tree;
+        lines.push(`${indent(depth)}subgraph ${quote(`cluster_${container.id}`)} {`);
+        lines.push(`${indent(depth + 1)}label=${quote(container.label)};`);
+        lines.push(`${indent(depth + 1)}style=${container.borderStyle === 'dashed' ? 'dashed' : 'solid'};`);
+        if (isHexColor(container.color)) lines.push(`${indent(depth + 1)}color=${quote(container.color)};`);
+        tree.children.forEach(child => writeContainer(child, depth + 1));
+        tree.nodes.forEach(node => writeNode(node, depth + 1));
+        lines.push(`${indent(depth)}}`);
+    };
+
+    rootContainers.forEach(tree => writeContainer(tree, 1));
+    rootNodes.forEach(node => writeNode(node, 1));
+
+    diagram.links.forEach(link => {
+        lines.push(`${indent(1)}${quote(linkEndpoint(link.source))} -> ${quote(linkEndpoint(link.target))} [${linkAttributes(link)}];`);
+    });
+
+    lines.push('}');
+    return `${lines.join('\n')}\n`;
+};
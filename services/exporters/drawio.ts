@@ -0,0 +1,133 @@
+import { ArchNode, Container, DiagramData, Link } from '../../types';
+import { escapeXml, iconPalette, isDatabaseType, isHexColor, linkEndpoint, nodeBounds, THICKNESS_WIDTH } from './common';
+
+// draw.io's AWS 2021 stencil set names for the AWS icon types we generate.
+const AWS_RESOURCE_ICONS: Record<string, string> = {
+    'aws-ec2': 'ec2',
+    'aws-s3': 's3',
+    'aws-rds': 'rds',
+    'aws-lambda': 'lambda',
+    'aws-api-gateway': 'api_gateway',
+    'aws-load-balancer': 'elastic_load_balancing',
+    'aws-cloudfront': 'cloudfront',
+    'aws-ecs': 'ecs',
+    'aws-dynamodb': 'dynamodb',
+    'aws-sns': 'sns',
+    'aws-sqs': 'sqs',
+    'aws-eventbridge': 'eventbridge',
+    'aws-cloudwatch': 'cloudwatch',
+};
+
+// Cell ids are namespaced so node, container and link ids can never collide with each
+// other or with the two reserved root cells.
+const cellId = (kind: 'n' | 'c' | 'l', id: string) => `${kind}:${id}`;
+
+const styleString = (style: Record<string, string | number>) =>
+    Object.entries(style).map(([key, value]) => (value === '' ? key : `${key}=${value}`)).join(';') + ';';
+
+const nodeStyle = (node: ArchNode): string => {
+    const palette = iconPalette(node.type);
+    const fill = isHexColor(node.color) ? node.color : palette.fill;
+    const awsIcon = AWS_RESOURCE_ICONS[node.type];
+    if (awsIcon) {
+        return styleString({
+            'sketch': 0, 'outlineConnect': 0, 'fontColor': '#232F3E', 'fillColor': palette.stroke, 'strokeColor': '#ffffff',
+            'verticalLabelPosition': 'bottom', 'verticalAlign': 'top', 'align': 'center', 'html': 1,
+            'shape': 'mxgraph.aws4.resourceIcon', 'resIcon': `mxgraph.aws4.${awsIcon}`,
+        });
+    }
+
+    const base = { 'whiteSpace': 'wrap', 'html': 1, 'fillColor': fill, 'strokeColor': palette.stroke };
+    if (node.type === 'user') return styleString({ 'shape': 'umlActor', 'verticalLabelPosition': 'bottom', 'verticalAlign': 'top', ...base });
+    if (node.type === 'cloud') return styleString({ 'ellipse': '', 'shape': 'cloud', ...base });
+    if (isDatabaseType(node.type)) return styleString({ 'shape': 'cylinder3', 'boundedLbl': 1, 'backgroundOutline': 1, 'size': 15, ...base });
+    if (node.shape === 'ellipse') return styleString({ 'ellipse': '', ...base });
+    if (node.shape === 'diamond') return styleString({ 'rhombus': '', ...base });
+    return styleString({ 'rounded': 1, ...base });
+};
+
+const containerStyle = (container: Container): string => styleString({
+    'rounded': 0,
+    'whiteSpace': 'wrap',
+    'html': 1,
+    'fillColor': 'none',
+    'strokeColor': isHexColor(container.color) ? container.color : '#5a6c86',
+    'dashed': container.borderStyle === 'dashed' ? 1 : 0,
+    'verticalAlign': 'top',
+    'align': 'left',
+    'spacingLeft': 8,
+    'fontStyle': 1,
+    'container': 1,
+    'collapsible': 0,
+});
+
+const linkStyle = (link: Link): string => {
+    const style: Record<string, string | number> = {
+        'edgeStyle': 'orthogonalEdgeStyle',
+        'rounded': 0,
+        'html': 1,
+        'endArrow': 'classic',
+        'startArrow': link.bidirectional ? 'classic' : 'none',
+        'strokeWidth': THICKNESS_WIDTH[link.thickness || 'thin'] ?? 1,
+    };
+    if (isHexColor(link.color)) style['strokeColor'] = link.color;
+    if (link.style === 'dashed') style['dashed'] = 1;
+    if (link.style === 'dotted') Object.assign(style, { 'dashed': 1, 'dashPattern': '1 4' });
+    if (link.style === 'double') Object.assign(style, { 'shape': 'link', 'width': 4 });
+    return styleString(style);
+};
+
+/**
+ * Renders a diagram as an uncompressed draw.io (diagrams.net) `.drawio` file.
+ * Containers become draw.io containers, so child geometry is relative to the parent box.
+ */
+export const toDrawio = (diagram: DiagramData): string => {
+    const containers = diagram.containers || [];
+    const containerById = new Map(containers.map(c => [c.id, c]));
+    const ownerOfNode = new Map<string, Container>();
+    containers.forEach(c => c.childNodeIds.forEach(id => ownerOfNode.set(id, c)));
+
+    const cells: string[] = ['<mxCell id="0"/>', '<mxCell id="1" parent="0"/>'];
+    const geometry = (x: number, y: number, width: number, height: number) =>
+        `<mxGeometry x="${Math.round(x)}" y="${Math.round(y)}" width="${Math.round(width)}" height="${Math.round(height)}" as="geometry"/>`;
+
+    // Parents must be emitted before their children, so walk the hierarchy top-down.
+    const emitContainer = (container: Container) => {
+        const parent = container.parentContainerId ? containerById.get(container.parentContainerId) : undefined;
+        const x = container.x - (parent ? parent.x : 0);
+        const y = container.y - (parent ? parent.y : 0);
+        cells.push(`<mxCell id="${escapeXml(cellId('c', container.id))}" value="${escapeXml(container.label)}" style="${containerStyle(container)}" vertex="1" parent="${parent ? escapeXml(cellId('c', parent.id)) : '1'}">${geometry(x, y, container.width, container.height)}</mxCell>`);
+        containers.filter(c => c.parentContainerId === container.id).forEach(emitContainer);
+    };
+    containers.filter(c => !c.parentContainerId || !containerById.has(c.parentContainerId)).forEach(emitContainer);
+
+    for (const node of diagram.nodes) {
+        const owner = ownerOfNode.get(node.id);
+        const bounds = nodeBounds(node);
+        const x = bounds.x - (owner ? owner.x : 0);
+        const y = bounds.y - (owner ? owner.y : 0);
+        const tooltip = node.description ? ` tooltip="${escapeXml(node.description)}"` : '';
+        cells.push(`<mxCell id="${escapeXml(cellId('n', node.id))}" value="${escapeXml(node.label)}"${tooltip} style="${nodeStyle(node)}" vertex="1" parent="${owner ? escapeXml(cellId('c', owner.id)) : '1'}">${geometry(x, y, bounds.width, bounds.height)}</mxCell>`);
+    }
+
+    for (const link of diagram.links) {
+        const source = escapeXml(cellId('n', linkEndpoint(link.source)));
+        const target = escapeXml(cellId('n', linkEndpoint(link.target)));
+        cells.push(`<mxCell id="${escapeXml(cellId('l', link.id))}" value="${escapeXml(link.label || '')}" style="${linkStyle(link)}" edge="1" parent="1" source="${source}" target="${target}"><mxGeometry relative="1" as="geometry"/></mxCell>`);
+    }
+
+    const title = escapeXml(diagram.title || 'Diagram');
+    return [
+        '<?xml version="1.0" encoding="UTF-8"?>',
+        '<mxfile host="CubeGen AI" type="device">',
+        `  <diagram id="cubegen" name="${title}">`,
+        '    <mxGraphModel dx="1200" dy="800" grid="1" gridSize="10" guides="1" tooltips="1" connect="1" arrows="1" fold="1" page="1" pageScale="1" pageWidth="1200" pageHeight="800" math="0" shadow="0">',
+        '      <root>',
+        ...cells.map(cell => `        ${cell}`),
+        '      </root>',
+        '    </mxGraphModel>',
+        '  </diagram>',
+        '</mxfile>',
+        '',
+    ].join('\n');
+};
@@ -0,0 +1,177 @@
+import { ArchNode, Container, DiagramData, Link } from '../../types';
+import { iconPalette, isHexColor, linkEndpoint, nodeBounds, THICKNESS_WIDTH } from './common';
+
+const FONT_SIZE = 16;
+const CONTAINER_FONT_SIZE = 14;
+const LINE_HEIGHT = 1.25;
+
+// Excalidraw uses random seeds for its hand-drawn rendering. Deriving them from the
+// element id keeps the exported file byte-for-byte stable for the same diagram.
+const seedFor = (id: string): number => {
+    let hash = 2166136261;
+    for (let i = 0; i < id.length; i++) {
+        hash ^= id.charCodeAt(i);
+        hash = Math.imul(hash, 16777619);
+    }
+    return (hash >>> 0) % 2147483647;
+};
+
+const baseElement = (id: string, type: string, x: number, y: number, width: number, height: number) => ({
+    id,
+    type,
+    x: Math.round(x),
+    y: Math.round(y),
+    width: Math.round(width),
+    height: Math.round(height),
+    angle: 0,
+    strokeColor: '#1e1e1e',
+    backgroundColor: 'transparent',
+    fillStyle: 'solid',
+    strokeWidth: 1,
+    strokeStyle: 'solid',
+    roughness: 1,
+    opacity: 100,
+    groupIds: [] as string[],
+    frameId: null,
+    roundness: null as { type: number } | null,
+    seed: seedFor(id),
+    version: 1,
+    versionNonce: seedFor(`${id}:nonce`),
+    isDeleted: false,
+    boundElements: [] as Array<{ id: string; type: 'text' | 'arrow' }>,
+    updated: 1,
+    link: null,
+    locked: false,
+});
+
+const textElement = (id: string, text: string, x: number, y: number, width: number, fontSize: number, containerId: string | null, align: 'left' | 'center') => {
+    const lines = text.split('\n').length;
+    return {
+        ...baseElement(id, 'text', x, y, width, lines * fontSize * LINE_HEIGHT),
+        strokeColor: '#1e1e1e',
+        text,
+        originalText: text,
+        fontSize,
+        fontFamily: 2,
+        textAlign: align,
+        verticalAlign: containerId ? 'middle' : 'top',
+        containerId,
+        lineHeight: LINE_HEIGHT,
+        autoResize: true,
+    };
+};
+
+const nodeType = (node: ArchNode) => (node.shape === 'ellipse' ? 'ellipse' : node.shape === 'diamond' ? 'diamond' : 'rectangle');
+
+const strokeStyle = (style: Link['style'] | Container['borderStyle']) =>
+    style === 'dashed' ? 'dashed' : style === 'dotted' ? 'dotted' : 'solid';
+
+/**
+ * Renders a diagram as an Excalidraw `.excalidraw` scene. Nodes become shapes with bound
+ * labels, links become bound arrows, and container nesting is kept through nested groups,
+ * so moving a container in Excalidraw moves everything inside it.
+ */
+export const toExcalidraw = (diagram: DiagramData): string => {
+    const containers = diagram.containers || [];
+    const containerById = new Map(containers.map(c => [c.id, c]));
+    const ownerOfNode = new Map<string, string>();
+    containers.forEach(c => c.childNodeIds.forEach(id => ownerOfNode.set(id, c.id)));
+
+    // Excalidraw lists group ids innermost first.
+    const groupChain = (containerId: string | undefined): string[] => {
+        const chain: string[] = [];
+        const seen = new Set<string>();
+        while (containerId && containerById.has(containerId) && !seen.has(containerId)) {
+            seen.add(containerId);
+            chain.push(`group:${containerId}`);
+            containerId = containerById.get(containerId)!.parentContainerId;
+        }
+        return chain;
+    };
+
+    const elements: any[] = [];
+
+    for (const container of containers) {
+        const groupIds = groupChain(container.id);
+        elements.push({
+            ...baseElement(`container:${container.id}`, 'rectangle', container.x, container.y, container.width, container.height),
+            strokeColor: isHexColor(container.color) ? container.color : '#5a6c86',
+            strokeStyle: strokeStyle(container.borderStyle),
+            groupIds,
+        });
+        elements.push({
+            ...textElement(`container-label:${container.id}`, container.label, container.x + 8, container.y + 6, container.width - 16, CONTAINER_FONT_SIZE, null, 'left'),
+            groupIds,
+        });
+    }
+
+    const arrowsByNode = new Map<string, string[]>();
+    diagram.links.forEach(link => {
+        [linkEndpoint(link.source), linkEndpoint(link.target)].forEach(id => {
+            if (!arrowsByNode.has(id)) arrowsByNode.set(id, []);
+            arrowsByNode.get(id)!.push(`link:${link.id}`);
+        });
+    });
+
+    const nodeById = new Map(diagram.nodes.map(n => [n.id, n]));
+    for (const node of diagram.nodes) {
+        const bounds = nodeBounds(node);
+        const palette = iconPalette(node.type);
+        const shapeId = `node:${node.id}`;
+        const labelId = `node-label:${node.id}`;
+        const groupIds = groupChain(ownerOfNode.get(node.id));
+        elements.push({
+            ...baseElement(shapeId, nodeType(node), bounds.x, bounds.y, bounds.width, bounds.height),
+            strokeColor: palette.stroke,
+            backgroundColor: isHexColor(node.color) ? node.color : palette.fill,
+            roundness: nodeType(node) === 'rectangle' ? { type: 3 } : { type: 2 },
+            groupIds,
+            boundElements: [
+                { id: labelId, type: 'text' as const },
+                ...(arrowsByNode.get(node.id) || []).map(id => ({ id, type: 'arrow' as const })),
+            ],
+        });
+        elements.push({
+            ...textElement(labelId, node.label, bounds.x + 8, node.y - FONT_SIZE * LINE_HEIGHT / 2, bounds.width - 16, FONT_SIZE, shapeId, 'center'),
+            groupIds,
+        });
+    }
+
+    for (const link of diagram.links) {
+        const source = nodeById.get(linkEndpoint(link.source));
+        const target = nodeById.get(linkEndpoint(link.target));
+        if (!source || !target) continue;
+        const dx = target.x - source.x;
+        const dy = target.y - source.y;
+        const arrowId = `link:${link.id}`;
+        const labelId = `link-label:${link.id}`;
+        elements.push({
+            ...baseElement(arrowId, 'arrow', source.x, source.y, Math.abs(dx), Math.abs(dy)),
+            strokeColor: isHexColor(link.color) ? link.color : '#1e1e1e',
+            strokeStyle: strokeStyle(link.style),
+            // Excalidraw has no double line; render it as the thickest stroke instead.
+            strokeWidth: link.style === 'double' ? 4 : THICKNESS_WIDTH[link.thickness || 'thin'] ?? 1,
+            roundness: { type: 2 },
+            points: [[0, 0], [Math.round(dx), Math.round(dy)]],
+            lastCommittedPoint: null,
+            startBinding: { elementId: `node:${source.id}`, focus: 0, gap: 4 },
+            endBinding: { elementId: `node:${target.id}`, focus: 0, gap: 4 },
+            startArrowhead: link.bidirectional ? 'arrow' : null,
+            endArrowhead: 'arrow',
+            boundElements: link.label ? [{ id: labelId, type: 'text' as const }] : [],
+        });
+        if (link.label) {
+            const width = link.label.length * FONT_SIZE * 0.55;
+            elements.push(textElement(labelId, link.label, source.x + dx / 2 - width / 2, source.y + dy / 2 - FONT_SIZE * LINE_HEIGHT / 2, width, FONT_SIZE, arrowId, 'center'));
+        }
+    }
+
+    return JSON.stringify({
+        type: 'excalidraw',
+        version: 2,
+        source: 'https://cubegenai.com',
+        elements,
+        appState: { viewBackgroundColor: '#ffffff', gridSize: null },
+        files: {},
+    }, null, 2);
+};
@@ -0,0 +1,77 @@
+import { ArchNode, DiagramData, Link } from '../../types';
+import { buildDiagramTree, ContainerTree, createIdMapper, indent, isHexColor, linkEndpoint, THICKNESS_WIDTH } from './common';
+
+// Mermaid labels are wrapped in double quotes; quotes inside use Mermaid's entity syntax.
+const escapeLabel = (text: string) => text.replace(/"/g, '#quot;').replace(/\n/g, '<br/>');
+
+const nodeShape = (node: ArchNode, label: string): string => {
+    switch (node.shape) {
+        case 'ellipse': return `(["${label}"])`;
+        case 'diamond': return `{"${label}"}`;
+        default: return `["${label}"]`;
+    }
+};
+
+// Mermaid encodes line style in the arrow itself: `-->`, `-.->` and `==>`.
+const arrow = (link: Link): string => {
+    const head = link.bidirectional ? '<' : '';
+    switch (link.style) {
+        case 'dotted':
+        case 'dashed':
+            return `${head}-.->`;
+        case 'double':
+            return `${head}==>`;
+        default:
+            return `${head}-->`;
+    }
+};
+
+/**
+ * Renders a diagram as a Mermaid flowchart. Containers become nested subgraphs.
+ */
+export const toMermaid = (diagram: DiagramData): string => {
+    const id = createIdMapper('n', ['end', 'subgraph', 'graph', 'flowchart', 'style', 'linkStyle', 'classDef', 'class', 'click', 'direction']);
+    const { rootNodes, rootContainers } = buildDiagramTree(diagram);
+    const lines: string[] = ['flowchart LR'];
+
+    const writeNode = (node: ArchNode, depth: number) => {
+        lines.push(`${indent(depth)}${id(node.id)}${nodeShape(node, escapeLabel(node.label))}`);
+    };
+    const writeContainer = (tree: ContainerTree, depth: number) => {
+        lines.push(`${indent(depth)}subgraph ${id(tree.container.id)}["${escapeLabel(tree.container.label)}"]`);
+        lines.push(`${indent(depth + 1)}direction LR`);
+        tree.children.forEach(child => writeContainer(child, depth + 1));
+        tree.nodes.forEach(node => writeNode(node, depth + 1));
+        lines.push(`${indent(depth)}end`);
+    };
+
+    rootContainers.forEach(tree => writeContainer(tree, 1));
+    rootNodes.forEach(node => writeNode(node, 1));
+
+    diagram.links.forEach(link => {
+        const label = link.label ? `|"${escapeLabel(link.label)}"|` : '';
+        lines.push(`${indent(1)}${id(linkEndpoint(link.source))} ${arrow(link)}${label} ${id(linkEndpoint(link.target))}`);
+    });
+
+    // Colors, thickness and dashed container borders are applied as styles.
+    diagram.nodes.forEach(node => {
+        if (isHexColor(node.color)) lines.push(`${indent(1)}style ${id(node.id)} fill:${node.color}`);
+    });
+    (diagram.containers || []).forEach(container => {
+        const styles = [
+            isHexColor(container.color) ? `stroke:${container.color}` : null,
+            container.borderStyle === 'dashed' ? 'stroke-dasharray:5 5' : null,
+        ].filter(Boolean);
+        if (styles.length > 0) lines.push(`${indent(1)}style ${id(container.id)} ${styles.join(',')}`);
+    });
+    diagram.links.forEach((link, index) => {
+        const styles = [
+            isHexColor(link.color) ? `stroke:${link.color}` : null,
+            link.thickness ? `stroke-width:${THICKNESS_WIDTH[link.thickness] ?? 1}px` : null,
+            link.style === 'dotted' ? 'stroke-dasharray:2 4' : null,
+        ].filter(Boolean);
+        if (styles.length > 0) lines.push(`${indent(1)}linkStyle ${index} ${styles.join(',')}`);
+    });
+
+    return `${lines.join('\n')}\n`;
+};
@@ -0,0 +1,63 @@
+import { ArchNode, DiagramData, Link } from '../../types';
+import { buildDiagramTree, ContainerTree, createIdMapper, indent, isDatabaseType, isHexColor, linkEndpoint, THICKNESS_WIDTH } from './common';
+
+const escapeLabel = (text: string) => text.replace(/"/g, "'").replace(/\n/g, '\\n');
+
+// Pick the closest PlantUML element keyword for the node's shape and icon type.
+const elementKeyword = (node: ArchNode): string => {
+    if (node.type === 'user') return 'actor';
+    if (isDatabaseType(node.type)) return 'database';
+    if (node.type === 'cloud') return 'cloud';
+    if (node.shape === 'ellipse') return 'usecase';
+    if (node.shape === 'diamond') return 'hexagon';
+    return 'rectangle';
+};
+
+const arrow = (link: Link): string => {
+    const options = [
+        isHexColor(link.color) ? link.color : null,
+        link.style === 'dotted' ? 'dotted' : link.style === 'dashed' ? 'dashed' : link.style === 'double' ? 'bold' : null,
+        link.thickness ? `thickness=${THICKNESS_WIDTH[link.thickness] ?? 1}` : null,
+    ].filter(Boolean);
+    const body = options.length > 0 ? `-[${options.join(',')}]->` : '-->';
+    return link.bidirectional ? `<${body}` : body;
+};
+
+/**
+ * Renders a diagram as a PlantUML deployment-style diagram. Containers become nested
+ * `rectangle` blocks, with dashed borders preserved.
+ */
+export const toPlantUml = (diagram: DiagramData): string => {
+    const id = createIdMapper('n', ['end', 'as', 'title']);
+    const { rootNodes, rootContainers } = buildDiagramTree(diagram);
+    const lines: string[] = ['@startuml', 'left to right direction'];
+    if (diagram.title) lines.push(`title ${escapeLabel(diagram.title)}`);
+
+    const writeNode = (node: ArchNode, depth: number) => {
+        const color = isHexColor(node.color) ? ` ${node.color}` : '';
+        lines.push(`${indent(depth)}${elementKeyword(node)} "${escapeLabel(node.label)}" as ${id(node.id)}${color}`);
+    };
+    const writeContainer = (tree: ContainerTree, depth: number) => {
+        const { container } = tree;
+        const styles = [
+            isHexColor(container.color) ? `line:${container.color.slice(1)}` : null,
+            container.borderStyle === 'dashed' ? 'line.dashed' : null,
+        ].filter(Boolean);
+        const style = styles.length > 0 ? ` #${styles.join(';')}` : '';
+        lines.push(`${indent(depth)}rectangle "${escapeLabel(container.label)}" as ${id(container.id)}${style} {`);
+        tree.children.forEach(child => writeContainer(child, depth + 1));
+        tree.nodes.forEach(node => writeNode(node, depth + 1));
+        lines.push(`${indent(depth)}}`);
+    };
+
+    rootContainers.forEach(tree => writeContainer(tree, 0));
+    rootNodes.forEach(node => writeNode(node, 0));
+
+    diagram.links.forEach(link => {
+        const label = link.label ? ` : ${escapeLabel(link.label)}` : '';
+        lines.push(`${id(linkEndpoint(link.source))} ${arrow(link)} ${id(linkEndpoint(link.target))}${label}`);
+    });
+
+    lines.push('@enduml');
+    return `${lines.join('\n')}\n`;
+};
@@ -0,0 +1,179 @@
+import { createHash } from 'crypto';
+import { getCachedConfig } from '../controllers/adminController';
+import * as aiService from './aiService';
+import { isProviderName } from './providers';
+import { PromptVersion } from './promptService';
+import { CacheEntryFilter, CacheStore } from './cache/types';
+import { createMemoryCacheStore } from './cache/memoryStore';
+
+// Caches AI output for repeated generation prompts. Entries are keyed on the normalized
+// prompt, the modeler, the prompt-template versions and the model the request goes to first,
+// so a new template version or model never serves stale output. The exact tier matches
+// identical prompts; the optional semantic tier also matches prompts whose embeddings are
+// close enough. Settings come from the `generation_cache_config` config value.
+
+export interface GenerationCacheConfig {
+    enabled: boolean;
+    ttlSeconds: number;
+    // Whether a request served from the cache still costs the user a generation credit.
+    consumeCreditsOnHit: boolean;
+    semantic: {
+        enabled: boolean;
+        provider: string;
+        model: string;
+        // Cosine similarity from 0 to 1 a cached prompt needs to be served.
+        minSimilarity: number;
+    };
+}
+
+export interface CacheableRequest {
+    // Which generator produced the output, e.g. 'architecture' or 'neural-network'.
+    modeler: string;
+    prompt: string;
+    prompts: PromptVersion[];
+    userApiKey?: string;
+    // Set when the user explicitly asked for a fresh generation.
+    bypass?: boolean;
+}
+
+export interface CachedResult<T> {
+    value: T;
+    cached: boolean;
+    // False for cache hits when admins made them free.
+    chargeCredit: boolean;
+    // For hits from the semantic tier.
+    similarity?: number;
+}
+
+const DEFAULT_CONFIG: GenerationCacheConfig = {
+    enabled: false,
+    ttlSeconds: 24 * 60 * 60,
+    consumeCreditsOnHit: false,
+    semantic: { enabled: false, provider: 'gemini', model: 'text-embedding-004', minSimilarity: 0.95 },
+};
+
+let store: CacheStore = createMemoryCacheStore();
+const stats = { exactHits: 0, semanticHits: 0, misses: 0 };
+
+/**
+ * Replaces the store behind the cache, e.g. with one shared between instances.
+ */
+export const setGenerationCacheStore = (newStore: CacheStore) => {
+    store = newStore;
+};
+
+export const getGenerationCacheConfig = async (): Promise<GenerationCacheConfig> => {
+    const config = await getCachedConfig();
+    try {
+        const stored = JSON.parse(config.generation_cache_config || '{}');
+        return { ...DEFAULT_CONFIG, ...stored, semantic: { ...DEFAULT_CONFIG.semantic, ...stored.semantic } };
+    } catch {
+        console.error('[Cache] generation_cache_config is not valid JSON; the cache is disabled.');
+        return DEFAULT_CONFIG;
+    }
+};
+
+/**
+ * Normalizes a prompt so trivial differences (case, spacing, quotes, trailing punctuation) share an entry.
+ */
+export const normalizePrompt = (prompt: string): string =>
+    prompt
+        .normalize('NFKC')
+        .toLowerCase()
+        .replace(/\s+/g, ' ')
+        .trim()
+        .replace(/^["'`]+|["'`]+$/g, '')
+        .replace(/[\s.!?]+$/, '');
+
+// Callers post-process the value in place, so the cache never hands out the stored object itself.
+const copy = <T>(value: T): T => JSON.parse(JSON.stringify(value));
+
+const scopeOf = (modeler: string, model: string, prompts: PromptVersion[]) =>
+    [modeler, model, prompts.map(p => `${p.key}@v${p.version}`).sort().join(',')].join('|');
+
+const embedPrompt = async (prompt: string, config: GenerationCacheConfig): Promise<number[] | undefined> => {
+    const { provider, model } = config.semantic;
+    if (!isProviderName(provider)) {
+        console.error(`[Cache] Unknown embedding provider '${provider}'; skipping the semantic tier.`);
+        return undefined;
+    }
+    try {
+        return await aiService.createEmbedding(prompt, provider, model);
+    } catch (e: any) {
+        console.error(`[Cache] Failed to embed prompt; skipping the semantic tier: ${e.message}`);
+        return undefined;
+    }
+};
+
+/**
+ * Serves a generation from the cache, or runs it and caches the result. Output is only cached
+ * when the primary model produced it, so failover output never answers for the primary model.
+ * @param generate Runs the generation; must fill in `meta`.
+ */
+export const withGenerationCache = async <T>(
+    request: CacheableRequest,
+    meta: aiService.GenerationMeta,
+    generate: () => Promise<T>
+): Promise<CachedResult<T>> => {
+    const config = await getGenerationCacheConfig();
+    if (!config.enabled || request.bypass) {
+        return { value: await generate(), cached: false, chargeCredit: true };
+    }
+
+    const primaryModel = await aiService.getPrimaryModel(request.userApiKey);
+    const prompt = normalizePrompt(request.prompt);
+    const scope = scopeOf(request.modeler, primaryModel, request.prompts);
+    const key = createHash('sha256').update(`${scope}\n${prompt}`).digest('hex');
+    const chargeCredit = config.consumeCreditsOnHit;
+
+    try {
+        const exact = await store.get(key);
+        if (exact) {
+            stats.exactHits++;
+            return { value: copy(exact.value), cached: true, chargeCredit };
+        }
+    } catch (e: any) {
+        console.error(`[Cache] Lookup failed: ${e.message}`);
+    }
+
+    const embedding = config.semantic.enabled ? await embedPrompt(prompt, config) : undefined;
+    if (embedding) {
+        try {
+            const nearest = await store.findNearest(scope, embedding);
+            if (nearest && nearest.similarity >= config.semantic.minSimilarity) {
+                stats.semanticHits++;
+                return { value: copy(nearest.entry.value), cached: true, chargeCredit, similarity: nearest.similarity };
+            }
+        } catch (e: any) {
+            console.error(`[Cache] Similarity lookup failed: ${e.message}`);
+        }
+    }
+
+    stats.misses++;
+    const value = await generate();
+    if (`${meta.provider}:${meta.model}` === primaryModel) {
+        const now = Date.now();
+        store.set({ key, scope, modeler: request.modeler, prompt, value: copy(value), embedding, createdAt: now, expiresAt: now + config.ttlSeconds * 1000 })
+            .catch(e => console.error(`[Cache] Failed to store entry: ${e.message}`));
+    }
+    return { value, cached: false, chargeCredit: true };
+};
+
+/**
+ * Removes cached entries, optionally only those for one modeler and/or prompt.
+ */
+export const invalidateGenerationCache = async (filter: { modeler?: string; prompt?: string } = {}): Promise<number> => {
+    const storeFilter: CacheEntryFilter = {
+        modeler: filter.modeler,
+        prompt: filter.prompt ? normalizePrompt(filter.prompt) : undefined,
+    };
+    const removed = await store.clear(storeFilter);
+    console.log(`[Cache] Invalidated ${removed} entr${removed === 1 ? 'y' : 'ies'}.`);
+    return removed;
+};
+
+export const getGenerationCacheStats = async () => ({
+    entries: await store.size(),
+    ...stats,
+    config: await getGenerationCacheConfig(),
+});
@@ -0,0 +1,127 @@
+import YAML from 'yaml';
+import { DiagramData, DiagramWarning } from '../types';
+import { buildDiagramFromGraph, ImportGraph } from './importers/common';
+import { buildTerraformGraph, parseTerraformHcl, parseTerraformPlan } from './importers/terraform';
+import { buildComposeGraph } from './importers/compose';
+import { buildKubernetesGraph } from './importers/kubernetes';
+import { validateAndRepairDiagram } from './diagramValidator';
+import { autoLayoutDiagram } from './layoutService';
+
+export type ImportFormat = 'terraform' | 'terraform-plan' | 'docker-compose' | 'kubernetes';
+
+export const IMPORT_FORMATS: ImportFormat[] = ['terraform', 'terraform-plan', 'docker-compose', 'kubernetes'];
+
+export interface ImportSourceFile {
+    name?: string;
+    content: string;
+}
+
+export interface ImportResult {
+    format: ImportFormat;
+    diagram: DiagramData;
+    warnings: DiagramWarning[];
+}
+
+const invalidSource = (detail: string) => new Error(`INVALID_IMPORT_SOURCE: ${detail}`);
+
+const parseYamlDocuments = (file: ImportSourceFile): any[] => {
+    const documents = YAML.parseAllDocuments(file.content);
+    const failed = documents.find(d => d.errors.length > 0);
+    if (failed) {
+        throw invalidSource(`${file.name || 'YAML file'} could not be parsed: ${failed.errors[0].message}`);
+    }
+    return documents.map(d => d.toJS()).filter(d => d !== null && d !== undefined);
+};
+
+/**
+ * Guesses the format of the uploaded files from their names and contents.
+ * @returns The detected format, or null if it cannot be determined.
+ */
+export const detectImportFormat = (files: ImportSourceFile[]): ImportFormat | null => {
+    const first = files[0];
+    if (!first) return null;
+    const name = (first.name || '').toLowerCase();
+    const content = first.content.trim();
+
+    if (name.endsWith('.tf') || /^\s*(resource|module|provider|terraform)\s+["{\w]/m.test(content) && !content.startsWith('{')) {
+        return 'terraform';
+    }
+    if (content.startsWith('{')) {
+        try {
+            const json = JSON.parse(content);
+            if (json.planned_values || json.format_version) return 'terraform-plan';
+            if (json.apiVersion && json.kind) return 'kubernetes';
+        } catch {
+            return null;
+        }
+        return null;
+    }
+    if (/compose/.test(name) || /^services\s*:/m.test(content)) return 'docker-compose';
+    if (/^apiVersion\s*:/m.test(content) && /^kind\s*:/m.test(content)) return 'kubernetes';
+    return null;
+};
+
+const buildGraph = (files: ImportSourceFile[], format: ImportFormat): ImportGraph => {
+    switch (format) {
+        case 'terraform':
+            // Terraform merges all .tf files in a directory, so the sources are concatenated.
+            return buildTerraformGraph(parseTerraformHcl(files.map(f => f.content).join('\n')));
+        case 'terraform-plan': {
+            let plan: any;
+            try {
+                plan = JSON.parse(files[0].content);
+            } catch (e: any) {
+                throw invalidSource(`Terraform plan is not valid JSON: ${e.message}`);
+            }
+            return buildTerraformGraph(parseTerraformPlan(plan));
+        }
+        case 'docker-compose':
+            return buildComposeGraph(parseYamlDocuments(files[0])[0], files[0].name);
+        case 'kubernetes':
+            return buildKubernetesGraph(files.flatMap(parseYamlDocuments));
+    }
+};
+
+/**
+ * Deterministically builds a laid-out diagram from infrastructure-as-code files.
+ * No AI is involved; the same input always yields the same diagram.
+ * @param files The uploaded file contents.
+ * @param format The source format, or undefined to detect it.
+ * @throws An `INVALID_IMPORT_SOURCE` error if the files cannot be parsed or contain nothing drawable.
+ */
+export const importInfrastructure = (files: ImportSourceFile[], format?: ImportFormat): ImportResult => {
+    const resolvedFormat = format || detectImportFormat(files);
+    if (!resolvedFormat) {
+        throw invalidSource(`Could not detect the file format. Specify one of: ${IMPORT_FORMATS.join(', ')}.`);
+    }
+
+    const graph = buildGraph(files, resolvedFormat);
+    if (!graph.resources.some(r => !r.containerType)) {
+        throw invalidSource('No drawable resources were found in the provided files.');
+    }
+
+    const { diagram, warnings } = validateAndRepairDiagram(buildDiagramFromGraph(graph));
+    return { format: resolvedFormat, diagram: autoLayoutDiagram(diagram), warnings };
+};
+
+/**
+ * Applies an AI "polish" pass to an imported diagram. Only the title, labels and
+ * descriptions are taken from the model; structure and layout stay deterministic.
+ */
+export const applyPolish = (diagram: DiagramData, polished: any): DiagramData => {
+    const text = (value: unknown, fallback: string) => (typeof value === 'string' && value.trim() ? value : fallback);
+    const polishedNodes = new Map<string, any>((polished?.nodes || []).map((n: any) => [n?.id, n]));
+    const polishedContainers = new Map<string, any>((polished?.containers || []).map((c: any) => [c?.id, c]));
+    return {
+        ...diagram,
+        title: text(polished?.title, diagram.title),
+        nodes: diagram.nodes.map(n => ({
+            ...n,
+            label: text(polishedNodes.get(n.id)?.label, n.label),
+            description: text(polishedNodes.get(n.id)?.description, n.description || ''),
+        })),
+        ...(diagram.containers ? {
+            containers: diagram.containers.map(c => ({ ...c, label: text(polishedContainers.get(c.id)?.label, c.label) })),
+        } : {}),
+    };
+};
@@ -0,0 +1,133 @@
+import { ArchNode, Container, ContainerType, DiagramData, IconType, Link } from '../../types';
+
+// A resource discovered in an infrastructure file. Resources with a `containerType`
+// become diagram containers; all others become nodes.
+export interface ImportedResource {
+    id: string;
+    label: string;
+    type: string;
+    description?: string;
+    containerType?: ContainerType;
+    parentId?: string;
+}
+
+export interface ImportedEdge {
+    source: string;
+    target: string;
+    label?: string;
+    style?: Link['style'];
+}
+
+export interface ImportGraph {
+    title: string;
+    architectureType: string;
+    resources: ImportedResource[];
+    edges: ImportedEdge[];
+}
+
+/**
+ * Turns an arbitrary resource address (e.g. `aws_instance.web`, `Deployment/api`) into a
+ * kebab-case id, as required by the diagram schema.
+ */
+export const toKebabId = (value: string): string =>
+    value
+        .replace(/([a-z0-9])([A-Z])/g, '$1-$2')
+        .toLowerCase()
+        .replace(/[^a-z0-9]+/g, '-')
+        .replace(/^-+|-+$/g, '') || 'resource';
+
+// Image-name fragments mapped to the icon that best represents them.
+const IMAGE_ICONS: Array<[RegExp, IconType]> = [
+    [/postgres/, IconType.Postgresql],
+    [/mysql|mariadb/, IconType.MySql],
+    [/mongo/, IconType.MongoDb],
+    [/redis|memcached|valkey/, IconType.Cache],
+    [/kafka/, IconType.Kafka],
+    [/rabbitmq|nats|activemq/, IconType.MessageQueue],
+    [/nginx|traefik|haproxy|envoy|caddy/, IconType.Nginx],
+    [/elasticsearch|opensearch|loki|fluentd|logstash/, IconType.Logging],
+    [/prometheus|grafana|datadog/, IconType.Monitoring],
+    [/vault/, IconType.SecretsManager],
+    [/keycloak/, IconType.AuthService],
+    [/qdrant|weaviate|milvus|chroma|pgvector/, IconType.VectorDatabase],
+    [/ollama|vllm|llama/, IconType.Llm],
+    [/minio/, IconType.DataStore],
+    [/next/, IconType.NextJs],
+    [/node/, IconType.NodeJs],
+    [/python|django|flask|fastapi/, IconType.Python],
+    [/golang|\bgo\b/, IconType.GoLang],
+];
+
+/**
+ * Picks an icon type from a container image reference such as `postgres:16-alpine`.
+ */
+export const iconForImage = (image: string | undefined, fallback: IconType): IconType => {
+    if (!image) return fallback;
+    const name = image.toLowerCase().split('@')[0];
+    const match = IMAGE_ICONS.find(([pattern]) => pattern.test(name));
+    return match ? match[1] : fallback;
+};
+
+/**
+ * Builds a `DiagramData` from an import graph. Geometry is left at zero; callers are
+ * expected to run the result through validation and auto-layout.
+ */
+export const buildDiagramFromGraph = (graph: ImportGraph): DiagramData => {
+    const containerIds = new Set(graph.resources.filter(r => r.containerType).map(r => r.id));
+    const nodeIds = new Set(graph.resources.filter(r => !r.containerType).map(r => r.id));
+
+    const nodes: ArchNode[] = graph.resources
+        .filter(r => !r.containerType)
+        .map(r => ({
+            id: r.id,
+            label: r.label,
+            type: r.type,
+            description: r.description || '',
+            x: 0,
+            y: 0,
+            width: 0,
+            height: 0,
+        }));
+
+    const containers: Container[] = graph.resources
+        .filter(r => r.containerType)
+        .map(r => {
+            const parentId = r.parentId && containerIds.has(r.parentId) ? r.parentId : undefined;
+            return {
+                id: r.id,
+                label: r.label,
+                type: r.containerType!,
+                description: r.description,
+                x: 0,
+                y: 0,
+                width: 0,
+                height: 0,
+                childNodeIds: graph.resources.filter(child => !child.containerType && child.parentId === r.id).map(child => child.id),
+                childContainerIds: graph.resources.filter(child => child.containerType && child.parentId === r.id).map(child => child.id),
+                ...(parentId ? { parentContainerId: parentId } : {}),
+                borderStyle: r.containerType === 'region' || r.containerType === 'vpc' ? 'solid' : 'dashed',
+            };
+        });
+
+    // Keep one link per direction between two nodes; references between containers
+    // are already expressed through nesting.
+    const seen = new Set<string>();
+    const links: Link[] = [];
+    for (const edge of graph.edges) {
+        if (edge.source === edge.target || !nodeIds.has(edge.source) || !nodeIds.has(edge.target)) continue;
+        const key = `${edge.source}->${edge.target}`;
+        if (seen.has(key)) continue;
+        seen.add(key);
+        links.push({
+            id: `${edge.source}-to-${edge.target}`,
+            source: edge.source,
+            target: edge.target,
+            ...(edge.label ? { label: edge.label } : {}),
+            ...(edge.style ? { style: edge.style } : {}),
+        });
+    }
+
+    const diagram: DiagramData = { title: graph.title, architectureType: graph.architectureType, nodes, links };
+    if (containers.length > 0) diagram.containers = containers;
+    return diagram;
+};
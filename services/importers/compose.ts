@@ -0,0 +1,57 @@
+import { IconType } from '../../types';
+import { iconForImage, ImportedEdge, ImportedResource, ImportGraph, toKebabId } from './common';
+
+// `depends_on` and `networks` may be a list of names or a map keyed by name.
+const namesOf = (value: unknown): string[] => {
+    if (Array.isArray(value)) return value.filter((v): v is string => typeof v === 'string');
+    if (value && typeof value === 'object') return Object.keys(value);
+    return [];
+};
+
+/**
+ * Converts a parsed docker-compose file into an import graph. Services become nodes,
+ * `depends_on` and legacy `links` become links, and each service is placed in the
+ * first user-defined network it joins.
+ */
+export const buildComposeGraph = (compose: any, fileName?: string): ImportGraph => {
+    const services: Record<string, any> = compose?.services && typeof compose.services === 'object' ? compose.services : {};
+    const declaredNetworks = namesOf(compose?.networks);
+    const serviceId = (name: string) => toKebabId(`service-${name}`);
+    const networkId = (name: string) => toKebabId(`network-${name}`);
+
+    const resources: ImportedResource[] = declaredNetworks.map(name => ({
+        id: networkId(name),
+        label: `${name} network`,
+        type: 'group',
+        containerType: 'group' as const,
+    }));
+    const edges: ImportedEdge[] = [];
+
+    for (const [name, service] of Object.entries(services)) {
+        const image: string | undefined = typeof service?.image === 'string' ? service.image : undefined;
+        const network = namesOf(service?.networks).find(n => declaredNetworks.includes(n));
+        const ports = Array.isArray(service?.ports) ? service.ports.map((p: unknown) => (typeof p === 'object' ? JSON.stringify(p) : String(p))) : [];
+        resources.push({
+            id: serviceId(name),
+            label: service?.container_name || name,
+            type: iconForImage(image ?? (service?.build ? name : undefined), IconType.Docker),
+            description: [image ? `Image: ${image}` : 'Built from source', ports.length > 0 ? `ports ${ports.join(', ')}` : null].filter(Boolean).join('; '),
+            parentId: network ? networkId(network) : undefined,
+        });
+
+        for (const dependency of namesOf(service?.depends_on)) {
+            if (services[dependency]) edges.push({ source: serviceId(name), target: serviceId(dependency) });
+        }
+        for (const link of Array.isArray(service?.links) ? service.links : []) {
+            const target = String(link).split(':')[0];
+            if (services[target]) edges.push({ source: serviceId(name), target: serviceId(target) });
+        }
+    }
+
+    return {
+        title: compose?.name ? `${compose.name} (docker-compose)` : fileName ? `${fileName} (docker-compose)` : 'Docker Compose stack',
+        architectureType: 'Containers',
+        resources,
+        edges,
+    };
+};
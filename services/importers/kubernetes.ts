@@ -0,0 +1,132 @@
+import { IconType } from '../../types';
+import { iconForImage, ImportedEdge, ImportedResource, ImportGraph, toKebabId } from './common';
+
+const WORKLOAD_KINDS = new Set(['Deployment', 'StatefulSet', 'DaemonSet', 'ReplicaSet', 'Pod', 'Job', 'CronJob']);
+
+const KIND_ICONS: Record<string, IconType> = {
+    Service: IconType.Api,
+    Ingress: IconType.LoadBalancer,
+    ConfigMap: IconType.Gear,
+    Secret: IconType.SecretsManager,
+    PersistentVolumeClaim: IconType.DataStore,
+    HorizontalPodAutoscaler: IconType.Kubernetes,
+};
+
+// Kinds that add noise without describing the architecture.
+const IGNORED_KINDS = new Set(['Namespace', 'ServiceAccount', 'Role', 'RoleBinding', 'ClusterRole', 'ClusterRoleBinding', 'NetworkPolicy', 'PodDisruptionBudget', 'List']);
+
+// Pod template for workloads, including the extra nesting of CronJobs.
+const podSpecOf = (doc: any): any => {
+    if (doc.kind === 'Pod') return doc.spec;
+    if (doc.kind === 'CronJob') return doc.spec?.jobTemplate?.spec?.template?.spec;
+    return doc.spec?.template?.spec;
+};
+
+const podLabelsOf = (doc: any): Record<string, string> => {
+    if (doc.kind === 'Pod') return doc.metadata?.labels || {};
+    if (doc.kind === 'CronJob') return doc.spec?.jobTemplate?.spec?.template?.metadata?.labels || {};
+    return doc.spec?.template?.metadata?.labels || {};
+};
+
+const matchesSelector = (selector: Record<string, string> | undefined, labels: Record<string, string>) =>
+    !!selector && Object.keys(selector).length > 0 && Object.entries(selector).every(([k, v]) => labels[k] === v);
+
+/**
+ * Converts parsed Kubernetes manifests into an import graph. Namespaces become containers;
+ * Services link to the workloads their selector matches, Ingresses link to their backend
+ * Services, and workloads link (dashed) to the ConfigMaps, Secrets and volumes they mount.
+ */
+export const buildKubernetesGraph = (documents: any[]): ImportGraph => {
+    // `kind: List` documents wrap their resources in `items`.
+    const docs = documents
+        .flatMap(d => (d?.kind === 'List' && Array.isArray(d.items) ? d.items : [d]))
+        .filter(d => d && typeof d.kind === 'string' && d.metadata?.name && !IGNORED_KINDS.has(d.kind));
+
+    const namespaceOf = (doc: any): string => doc.metadata?.namespace || 'default';
+    const resourceId = (kind: string, name: string, namespace: string) => toKebabId(`${namespace}-${kind}-${name}`);
+    const idOf = (doc: any) => resourceId(doc.kind, doc.metadata.name, namespaceOf(doc));
+    const exists = (kind: string, name: string, namespace: string) =>
+        docs.some(d => d.kind === kind && d.metadata.name === name && namespaceOf(d) === namespace);
+
+    const namespaces = [...new Set(docs.map(namespaceOf))];
+    const resources: ImportedResource[] = namespaces.map(ns => ({
+        id: toKebabId(`namespace-${ns}`),
+        label: `namespace: ${ns}`,
+        type: 'group',
+        containerType: 'group' as const,
+    }));
+    const edges: ImportedEdge[] = [];
+
+    for (const doc of docs) {
+        const namespace = namespaceOf(doc);
+        const podSpec = WORKLOAD_KINDS.has(doc.kind) ? podSpecOf(doc) : undefined;
+        const images: string[] = (podSpec?.containers || []).map((c: any) => c?.image).filter(Boolean);
+        const type = podSpec
+            ? iconForImage(images[0], IconType.Kubernetes)
+            : doc.kind === 'Service' && doc.spec?.type === 'LoadBalancer' ? IconType.LoadBalancer : KIND_ICONS[doc.kind] || IconType.Kubernetes;
+
+        resources.push({
+            id: idOf(doc),
+            label: doc.metadata.name,
+            type,
+            description: [doc.kind, images.length > 0 ? `images: ${images.join(', ')}` : null].filter(Boolean).join('; '),
+            parentId: toKebabId(`namespace-${namespace}`),
+        });
+
+        if (doc.kind === 'Service') {
+            docs.filter(w => WORKLOAD_KINDS.has(w.kind) && namespaceOf(w) === namespace && matchesSelector(doc.spec?.selector, podLabelsOf(w)))
+                .forEach(w => edges.push({ source: idOf(doc), target: idOf(w) }));
+        }
+
+        if (doc.kind === 'Ingress') {
+            const backends = new Set<string>();
+            const defaultBackend = doc.spec?.defaultBackend?.service?.name || doc.spec?.backend?.serviceName;
+            if (defaultBackend) backends.add(defaultBackend);
+            for (const rule of doc.spec?.rules || []) {
+                for (const path of rule?.http?.paths || []) {
+                    const name = path?.backend?.service?.name || path?.backend?.serviceName;
+                    if (name) backends.add(name);
+                }
+            }
+            backends.forEach(name => {
+                if (exists('Service', name, namespace)) edges.push({ source: idOf(doc), target: resourceId('Service', name, namespace) });
+            });
+        }
+
+        if (podSpec) {
+            const dependencies: Array<[string, string]> = [];
+            for (const container of [...(podSpec.containers || []), ...(podSpec.initContainers || [])]) {
+                for (const env of container?.env || []) {
+                    if (env?.valueFrom?.configMapKeyRef?.name) dependencies.push(['ConfigMap', env.valueFrom.configMapKeyRef.name]);
+                    if (env?.valueFrom?.secretKeyRef?.name) dependencies.push(['Secret', env.valueFrom.secretKeyRef.name]);
+                }
+                for (const source of container?.envFrom || []) {
+                    if (source?.configMapRef?.name) dependencies.push(['ConfigMap', source.configMapRef.name]);
+                    if (source?.secretRef?.name) dependencies.push(['Secret', source.secretRef.name]);
+                }
+            }
+            for (const volume of podSpec.volumes || []) {
+                if (volume?.configMap?.name) dependencies.push(['ConfigMap', volume.configMap.name]);
+                if (volume?.secret?.secretName) dependencies.push(['Secret', volume.secret.secretName]);
+                if (volume?.persistentVolumeClaim?.claimName) dependencies.push(['PersistentVolumeClaim', volume.persistentVolumeClaim.claimName]);
+            }
+            dependencies
+                .filter(([kind, name]) => exists(kind, name, namespace))
+                .forEach(([kind, name]) => edges.push({ source: idOf(doc), target: resourceId(kind, name, namespace), style: 'dashed' }));
+        }
+
+        if (doc.kind === 'HorizontalPodAutoscaler') {
+            const target = doc.spec?.scaleTargetRef;
+            if (target?.kind && target?.name && exists(target.kind, target.name, namespace)) {
+                edges.push({ source: idOf(doc), target: resourceId(target.kind, target.name, namespace), style: 'dotted' });
+            }
+        }
+    }
+
+    return {
+        title: 'Kubernetes workloads',
+        architectureType: 'Kubernetes',
+        resources,
+        edges,
+    };
+};
@@ -0,0 +1,256 @@
+import { ErAttribute, ErCardinality } from '../../types';
+
+// Reads the tables, columns and foreign keys out of a SQL DDL script (PostgreSQL, MySQL, SQLite
+// and SQL Server dialects) for the ER modeler. Only CREATE TABLE and ALTER TABLE ... ADD
+// statements are understood; everything else (indexes, views, inserts) is ignored.
+
+interface ParsedTable {
+    name: string;
+    attributes: ErAttribute[];
+    primaryKey: string[];
+    uniqueSets: string[][];
+}
+
+interface ParsedForeignKey {
+    table: string;
+    columns: string[];
+    refTable: string;
+    refColumns: string[];
+}
+
+const invalidSource = (detail: string) => new Error(`INVALID_IMPORT_SOURCE: ${detail}`);
+
+const QUOTES: Record<string, string> = { "'": "'", '"': '"', '`': '`', '[': ']' };
+
+// Words that end a column's type and start its constraints.
+const COLUMN_CONSTRAINT = /\s+(CONSTRAINT|PRIMARY\s+KEY|NOT\s+NULL|NULL|UNIQUE|REFERENCES|DEFAULT|CHECK|GENERATED|AUTO_INCREMENT|AUTOINCREMENT|IDENTITY|COLLATE|COMMENT|ON\s+UPDATE)\b/i;
+
+const stripComments = (sql: string): string => {
+    let out = '';
+    for (let i = 0; i < sql.length; i++) {
+        const char = sql[i];
+        if (QUOTES[char]) {
+            const close = sql.indexOf(QUOTES[char], i + 1);
+            const end = close === -1 ? sql.length : close + 1;
+            out += sql.slice(i, end);
+            i = end - 1;
+        } else if (char === '-' && sql[i + 1] === '-') {
+            const newline = sql.indexOf('\n', i);
+            i = newline === -1 ? sql.length : newline - 1;
+        } else if (char === '/' && sql[i + 1] === '*') {
+            const close = sql.indexOf('*/', i + 2);
+            i = close === -1 ? sql.length : close + 1;
+            out += ' ';
+        } else {
+            out += char;
+        }
+    }
+    return out;
+};
+
+// Splits on `separator` outside quotes and parentheses.
+const splitTopLevel = (text: string, separator: string): string[] => {
+    const parts: string[] = [];
+    let depth = 0;
+    let start = 0;
+    for (let i = 0; i < text.length; i++) {
+        const char = text[i];
+        if (QUOTES[char]) {
+            const close = text.indexOf(QUOTES[char], i + 1);
+            i = close === -1 ? text.length : close;
+        } else if (char === '(') {
+            depth++;
+        } else if (char === ')') {
+            depth--;
+        } else if (char === separator && depth === 0) {
+            parts.push(text.slice(start, i));
+            start = i + 1;
+        }
+    }
+    parts.push(text.slice(start));
+    return parts.map(part => part.trim()).filter(Boolean);
+};
+
+/**
+ * Reads a possibly quoted, possibly schema-qualified identifier at the start of `text`.
+ * Returns the unqualified name and the text after it.
+ */
+const readIdentifier = (text: string): { name: string; rest: string } | null => {
+    let rest = text.trim();
+    let name: string | null = null;
+    for (;;) {
+        const open = rest[0];
+        let part: string;
+        if (open === '"' || open === '`' || open === '[') {
+            const close = rest.indexOf(QUOTES[open], 1);
+            if (close === -1) return null;
+            part = rest.slice(1, close);
+            rest = rest.slice(close + 1);
+        } else {
+            const match = /^[A-Za-z_][\w$]*/.exec(rest);
+            if (!match) return null;
+            part = match[0];
+            rest = rest.slice(part.length);
+        }
+        name = part;
+        if (!rest.startsWith('.')) break;
+        rest = rest.slice(1);
+    }
+    return { name, rest: rest.trim() };
+};
+
+// Reads `(a, b)` at the start of `text`.
+const readColumnList = (text: string): { columns: string[]; rest: string } | null => {
+    const trimmed = text.trim();
+    if (!trimmed.startsWith('(')) return null;
+    let depth = 0;
+    for (let i = 0; i < trimmed.length; i++) {
+        if (trimmed[i] === '(') depth++;
+        else if (trimmed[i] === ')' && --depth === 0) {
+            const columns = splitTopLevel(trimmed.slice(1, i), ',')
+                .map(column => readIdentifier(column)?.name)
+                .filter((name): name is string => !!name);
+            return { columns, rest: trimmed.slice(i + 1).trim() };
+        }
+    }
+    return null;
+};
+
+// Reads `REFERENCES table [(columns)]`.
+const readReference = (text: string): { refTable: string; refColumns: string[] } | null => {
+    const match = /\bREFERENCES\s+/i.exec(text);
+    if (!match) return null;
+    const table = readIdentifier(text.slice(match.index + match[0].length));
+    if (!table) return null;
+    return { refTable: table.name, refColumns: readColumnList(table.rest)?.columns || [] };
+};
+
+const parseColumn = (definition: string, table: ParsedTable, foreignKeys: ParsedForeignKey[]) => {
+    const identifier = readIdentifier(definition);
+    if (!identifier) return;
+    const constraintStart = identifier.rest.search(COLUMN_CONSTRAINT);
+    const type = (constraintStart === -1 ? identifier.rest : identifier.rest.slice(0, constraintStart)).replace(/\s+/g, ' ').trim();
+    const constraints = constraintStart === -1 ? '' : identifier.rest.slice(constraintStart);
+
+    const attribute: ErAttribute = { name: identifier.name, type: type || 'unknown' };
+    if (/\bPRIMARY\s+KEY\b/i.test(constraints)) {
+        attribute.primaryKey = true;
+        table.primaryKey = [identifier.name];
+    }
+    if (/\bUNIQUE\b/i.test(constraints)) {
+        attribute.unique = true;
+        table.uniqueSets.push([identifier.name]);
+    }
+    attribute.nullable = !attribute.primaryKey && !/\bNOT\s+NULL\b/i.test(constraints);
+    const reference = readReference(constraints);
+    if (reference) foreignKeys.push({ table: table.name, columns: [identifier.name], ...reference });
+    table.attributes.push(attribute);
+};
+
+// Handles PRIMARY KEY, UNIQUE and FOREIGN KEY clauses; other table constraints are ignored.
+const parseTableConstraint = (definition: string, table: string, tables: Map<string, ParsedTable>, foreignKeys: ParsedForeignKey[]): boolean => {
+    const clause = definition.replace(/^CONSTRAINT\s+("[^"]*"|`[^`]*`|\[[^\]]*\]|[\w$]+)\s*/i, '');
+    const keyword = /^(PRIMARY\s+KEY|UNIQUE(?:\s+(?:KEY|INDEX))?|FOREIGN\s+KEY|KEY|INDEX|CHECK|EXCLUDE)\b\s*/i.exec(clause);
+    if (!keyword) return clause !== definition;
+
+    const kind = keyword[1].toUpperCase().replace(/\s+/g, ' ');
+    // MySQL allows an index name between the keyword and the column list.
+    let rest = clause.slice(keyword[0].length);
+    if (!rest.startsWith('(')) rest = readIdentifier(rest)?.rest || rest;
+    const list = readColumnList(rest);
+    // Without a column list this is a column whose name happens to be a keyword, e.g. `key TEXT`.
+    if (!list) return clause !== definition;
+
+    const parsed = tables.get(table.toLowerCase());
+    if (kind === 'PRIMARY KEY' && parsed) {
+        parsed.primaryKey = list.columns;
+    } else if (kind.startsWith('UNIQUE') && parsed) {
+        parsed.uniqueSets.push(list.columns);
+    } else if (kind === 'FOREIGN KEY') {
+        const reference = readReference(list.rest);
+        if (reference) foreignKeys.push({ table, columns: list.columns, ...reference });
+    }
+    return true;
+};
+
+const sameColumns = (a: string[], b: string[]) =>
+    a.length === b.length && a.every(column => b.some(other => other.toLowerCase() === column.toLowerCase()));
+
+/**
+ * Converts a SQL DDL script into raw ER diagram data. Foreign keys become many-to-one
+ * relationships, or one-to-one when the referencing columns are unique. The result still
+ * needs `validateErDiagram`.
+ * @throws An `INVALID_IMPORT_SOURCE` error if the script contains no CREATE TABLE statement.
+ */
+export const parseSqlDdl = (sql: string, title = 'Database Schema') => {
+    const tables = new Map<string, ParsedTable>();
+    const foreignKeys: ParsedForeignKey[] = [];
+
+    for (const statement of splitTopLevel(stripComments(sql), ';')) {
+        const create = /^CREATE\s+(?:OR\s+REPLACE\s+)?(?:(?:GLOBAL|LOCAL)\s+)?(?:TEMP(?:ORARY)?\s+)?(?:UNLOGGED\s+)?TABLE\s+(?:IF\s+NOT\s+EXISTS\s+)?/i.exec(statement);
+        if (create) {
+            const identifier = readIdentifier(statement.slice(create[0].length));
+            const body = identifier && readColumnList(identifier.rest) && identifier.rest;
+            if (!identifier || !body) continue;
+            const table: ParsedTable = { name: identifier.name, attributes: [], primaryKey: [], uniqueSets: [] };
+            tables.set(table.name.toLowerCase(), table);
+            const inner = body.slice(1, body.lastIndexOf(')'));
+            for (const definition of splitTopLevel(inner, ',')) {
+                if (!parseTableConstraint(definition, table.name, tables, foreignKeys)) {
+                    parseColumn(definition, table, foreignKeys);
+                }
+            }
+            continue;
+        }
+
+        const alter = /^ALTER\s+TABLE\s+(?:ONLY\s+)?(?:IF\s+EXISTS\s+)?/i.exec(statement);
+        const identifier = alter && readIdentifier(statement.slice(alter[0].length));
+        if (!identifier) continue;
+        for (const action of splitTopLevel(identifier.rest, ',')) {
+            const add = /^ADD\s+/i.exec(action);
+            if (!add) continue;
+            const definition = action.slice(add[0].length);
+            const table = tables.get(identifier.name.toLowerCase());
+            if (!parseTableConstraint(definition, identifier.name, tables, foreignKeys) && table) {
+                parseColumn(definition.replace(/^COLUMN\s+(?:IF\s+NOT\s+EXISTS\s+)?/i, ''), table, foreignKeys);
+            }
+        }
+    }
+
+    if (tables.size === 0) throw invalidSource('No CREATE TABLE statements were found in the SQL.');
+
+    // Constraint-level keys are only known once the whole table has been read.
+    for (const table of tables.values()) {
+        for (const attribute of table.attributes) {
+            if (table.primaryKey.some(column => column.toLowerCase() === attribute.name.toLowerCase())) {
+                attribute.primaryKey = true;
+                attribute.nullable = false;
+            }
+        }
+    }
+
+    const relationships = foreignKeys.map(fk => {
+        const table = tables.get(fk.table.toLowerCase());
+        const referenced = tables.get(fk.refTable.toLowerCase());
+        table?.attributes
+            .filter(attribute => fk.columns.some(column => column.toLowerCase() === attribute.name.toLowerCase()))
+            .forEach(attribute => { attribute.foreignKey = true; });
+        const unique = !!table && [table.primaryKey, ...table.uniqueSets].some(set => set.length > 0 && sameColumns(set, fk.columns));
+        const cardinality: ErCardinality = unique ? 'one-to-one' : 'many-to-one';
+        const toAttributes = fk.refColumns.length > 0 ? fk.refColumns : referenced?.primaryKey || [];
+        return {
+            id: `${fk.table}-${fk.columns.join('-')}-fk`,
+            from: fk.table,
+            to: fk.refTable,
+            cardinality,
+            fromAttributes: fk.columns,
+            ...(toAttributes.length > 0 ? { toAttributes } : {}),
+        };
+    });
+
+    return {
+        title,
+        entities: Array.from(tables.values()).map(table => ({ id: table.name, name: table.name, attributes: table.attributes })),
+        relationships,
+    };
+};
@@ -0,0 +1,384 @@
+import { ContainerType, IconType } from '../../types';
+import { ImportedEdge, ImportedResource, ImportGraph, toKebabId } from './common';
+
+// A Terraform resource, data source or module call, normalized from either HCL source
+// or `terraform show -json` plan output.
+interface TerraformResource {
+    address: string;
+    type: string;
+    name: string;
+    attributes: Record<string, unknown>;
+    references: string[];
+    dependsOn: string[];
+}
+
+interface TerraformModel {
+    resources: TerraformResource[];
+    region?: string;
+}
+
+const CONTAINER_TYPES: Record<string, ContainerType> = {
+    aws_vpc: 'vpc',
+    aws_subnet: 'subnet',
+    google_compute_network: 'vpc',
+    google_compute_subnetwork: 'subnet',
+    azurerm_virtual_network: 'vpc',
+    azurerm_subnet: 'subnet',
+    azurerm_resource_group: 'group',
+};
+
+const ICON_TYPES: Array<[RegExp, IconType]> = [
+    [/^aws_(instance|launch_template|autoscaling_group)$/, IconType.AwsEc2],
+    [/^aws_(db_instance|rds_cluster)$/, IconType.AwsRds],
+    [/^aws_s3_bucket$/, IconType.AwsS3],
+    [/^aws_lambda_function$/, IconType.AwsLambda],
+    [/^aws_(api_gateway_rest_api|apigatewayv2_api)$/, IconType.AwsApiGateway],
+    [/^aws_(lb|alb|elb)$/, IconType.AwsLoadBalancer],
+    [/^aws_cloudfront_distribution$/, IconType.AwsCloudfront],
+    [/^aws_ecs_(cluster|service)$/, IconType.AwsEcs],
+    [/^aws_dynamodb_table$/, IconType.AwsDynamoDb],
+    [/^aws_sns_topic$/, IconType.AwsSns],
+    [/^aws_sqs_queue$/, IconType.AwsSqs],
+    [/^aws_cloudwatch_event_(bus|rule)$/, IconType.AwsEventbridge],
+    [/^aws_cloudwatch_(metric_alarm|dashboard|log_group)$/, IconType.AwsCloudwatch],
+    [/^aws_elasticache_(cluster|replication_group)$/, IconType.Cache],
+    [/^aws_security_group$/, IconType.Firewall],
+    [/^aws_secretsmanager_secret$/, IconType.SecretsManager],
+    [/^aws_cognito_user_pool$/, IconType.AuthService],
+    [/^aws_msk_cluster$/, IconType.Kafka],
+    [/^aws_(internet_gateway|nat_gateway)$/, IconType.Cloud],
+    [/^google_compute_instance$/, IconType.GcpComputeEngine],
+    [/^google_storage_bucket$/, IconType.GcpCloudStorage],
+    [/^google_sql_database_instance$/, IconType.GcpCloudSql],
+    [/^google_bigquery_(dataset|table)$/, IconType.GcpBigquery],
+    [/^google_pubsub_(topic|subscription)$/, IconType.GcpPubsub],
+    [/^azurerm_(linux_|windows_)?virtual_machine$/, IconType.AzureVm],
+    [/^azurerm_storage_account$/, IconType.AzureBlobStorage],
+    [/^azurerm_(mssql|sql)_(server|database)$/, IconType.AzureSqlDatabase],
+    [/^azurerm_(app_service|linux_web_app|windows_web_app)$/, IconType.AzureAppService],
+    [/^azurerm_(linux_|windows_)?function_app$/, IconType.AzureFunctionApp],
+    [/^azurerm_servicebus_(namespace|queue|topic)$/, IconType.AzureServiceBus],
+    [/^(aws_eks_cluster|google_container_cluster|azurerm_kubernetes_cluster|helm_release)$/, IconType.Kubernetes],
+    [/^kubernetes_/, IconType.Kubernetes],
+    [/^docker_(container|image|service)$/, IconType.Docker],
+];
+
+// "Glue" resources that only wire other resources together. They are not drawn;
+// instead the resources they connect are linked directly.
+const GLUE_TYPES = /(_association|_attachment|_policy|_rule|_route|_record|_permission|_membership|_binding|_iam_member|_target_group|_listener|_route_table|_version)$|^aws_iam_|^random_|^null_resource$|^terraform_data$|^local_|^tls_/;
+
+const providerOf = (type: string) => type.split('_')[0];
+
+const architectureTypeFor = (resources: TerraformResource[]): string => {
+    const counts = new Map<string, number>();
+    resources.forEach(r => counts.set(providerOf(r.type), (counts.get(providerOf(r.type)) || 0) + 1));
+    const top = [...counts.entries()].sort((a, b) => b[1] - a[1])[0]?.[0];
+    return ({ aws: 'AWS', google: 'GCP', azurerm: 'Azure' } as Record<string, string>)[top || ''] || 'Infrastructure';
+};
+
+// --- HCL PARSING ---
+
+/**
+ * Removes `#`, `//` and block comments while leaving string contents untouched.
+ */
+const stripComments = (source: string): string => {
+    let out = '';
+    let i = 0;
+    while (i < source.length) {
+        const ch = source[i];
+        if (ch === '"') {
+            const start = i++;
+            while (i < source.length && source[i] !== '"') i += source[i] === '\\' ? 2 : 1;
+            out += source.slice(start, ++i);
+        } else if (ch === '#' || (ch === '/' && source[i + 1] === '/')) {
+            while (i < source.length && source[i] !== '\n') i++;
+        } else if (ch === '/' && source[i + 1] === '*') {
+            const end = source.indexOf('*/', i + 2);
+            i = end === -1 ? source.length : end + 2;
+        } else {
+            out += ch;
+            i++;
+        }
+    }
+    return out;
+};
+
+/**
+ * Returns the index just past the `}` matching the `{` at `openIndex`, skipping strings
+ * and heredocs.
+ */
+const findBlockEnd = (source: string, openIndex: number): number => {
+    let depth = 0;
+    let i = openIndex;
+    while (i < source.length) {
+        const ch = source[i];
+        if (ch === '"') {
+            i++;
+            while (i < source.length && source[i] !== '"') i += source[i] === '\\' ? 2 : 1;
+        } else if (ch === '<' && source[i + 1] === '<') {
+            const heredoc = /^<<-?([A-Za-z_]\w*)[^\n]*\n/.exec(source.slice(i));
+            if (heredoc) {
+                const terminator = new RegExp(`\\n\\s*${heredoc[1]}\\s*(\\n|$)`, 'g');
+                terminator.lastIndex = i + heredoc[0].length - 1;
+                const match = terminator.exec(source);
+                i = match ? match.index + match[0].length - 1 : source.length;
+            }
+        } else if (ch === '{') {
+            depth++;
+        } else if (ch === '}') {
+            depth--;
+            if (depth === 0) return i + 1;
+        }
+        i++;
+    }
+    return source.length;
+};
+
+// Only literal string attributes at the top level of a block body are extracted.
+const topLevelStringAttributes = (body: string): Record<string, unknown> => {
+    const attributes: Record<string, unknown> = {};
+    let depth = 0;
+    for (const line of body.split('\n')) {
+        if (depth === 0) {
+            const match = /^\s*([\w-]+)\s*=\s*"([^"$]*)"\s*$/.exec(line);
+            if (match) attributes[match[1]] = match[2];
+        }
+        depth += (line.match(/[{[]/g) || []).length - (line.match(/[}\]]/g) || []).length;
+    }
+    const nameTag = /\bName\s*=\s*"([^"$]+)"/.exec(body);
+    if (nameTag) attributes.tags = { Name: nameTag[1] };
+    return attributes;
+};
+
+const REFERENCE_PATTERN = /\b(?:(data)\.)?([a-z][a-z0-9]*_[a-z0-9_]+)\.([A-Za-z_][\w-]*)|\bmodule\.([A-Za-z_][\w-]*)/g;
+
+const extractReferences = (text: string): string[] => {
+    const references: string[] = [];
+    for (const match of text.matchAll(REFERENCE_PATTERN)) {
+        if (match[4]) references.push(`module.${match[4]}`);
+        else references.push(`${match[1] ? 'data.' : ''}${match[2]}.${match[3]}`);
+    }
+    return references;
+};
+
+/**
+ * Parses the subset of HCL needed to draw a diagram: `resource`, `data`, `module` and
+ * `provider` blocks, their literal string attributes, and the references between them.
+ * This is not a general HCL parser; expressions are only scanned for resource addresses.
+ */
+export const parseTerraformHcl = (source: string): TerraformModel => {
+    const text = stripComments(source);
+    const resources: TerraformResource[] = [];
+    let region: string | undefined;
+
+    const header = /(?:^|\n)[ \t]*(resource|data|module|provider|variable|output|locals|terraform|moved|import)\s*((?:"[^"]*"\s*|[\w-]+\s+)*)\{/g;
+    let match: RegExpExecArray | null;
+    while ((match = header.exec(text)) !== null) {
+        const openIndex = match.index + match[0].length - 1;
+        const end = findBlockEnd(text, openIndex);
+        const body = text.slice(openIndex + 1, end - 1);
+        const labels = [...match[2].matchAll(/"([^"]*)"|([\w-]+)/g)].map(l => l[1] ?? l[2]);
+        header.lastIndex = end;
+
+        const kind = match[1];
+        if (kind === 'provider') {
+            const providerRegion = topLevelStringAttributes(body).region;
+            if (!region && typeof providerRegion === 'string') region = providerRegion;
+            continue;
+        }
+        if (kind !== 'resource' && kind !== 'data' && kind !== 'module') continue;
+
+        const dependsOnMatch = /\bdepends_on\s*=\s*\[([^\]]*)\]/.exec(body);
+        const dependsOn = dependsOnMatch ? extractReferences(dependsOnMatch[1]) : [];
+        const [type, name] = kind === 'module' ? ['module', labels[0]] : labels;
+        if (!type || !name) continue;
+
+        resources.push({
+            address: kind === 'module' ? `module.${name}` : `${kind === 'data' ? 'data.' : ''}${type}.${name}`,
+            type,
+            name,
+            attributes: topLevelStringAttributes(body),
+            references: extractReferences(dependsOnMatch ? body.replace(dependsOnMatch[0], '') : body),
+            dependsOn,
+        });
+    }
+    return { resources, region };
+};
+
+// --- PLAN JSON PARSING ---
+
+// Normalizes `aws_instance.web[0].id` or `module.net.aws_vpc.main` to a resource address.
+const normalizeAddress = (reference: string): string => {
+    const parts = reference.replace(/\[[^\]]*\]/g, '').split('.');
+    while (parts[0] === 'module' && parts.length > 2) parts.splice(0, 2);
+    if (parts[0] === 'module') return parts.slice(0, 2).join('.');
+    return parts.slice(0, parts[0] === 'data' ? 3 : 2).join('.');
+};
+
+const collectReferences = (expressions: unknown, out: string[]) => {
+    if (!expressions || typeof expressions !== 'object') return;
+    if (Array.isArray(expressions)) {
+        expressions.forEach(e => collectReferences(e, out));
+        return;
+    }
+    for (const [key, value] of Object.entries(expressions as Record<string, unknown>)) {
+        if (key === 'references' && Array.isArray(value)) {
+            value.filter((r): r is string => typeof r === 'string').forEach(r => out.push(normalizeAddress(r)));
+        } else {
+            collectReferences(value, out);
+        }
+    }
+};
+
+/**
+ * Reads resources from `terraform show -json` output. Planned values supply attributes;
+ * the configuration section supplies references and `depends_on`.
+ */
+export const parseTerraformPlan = (plan: any): TerraformModel => {
+    const configured = new Map<string, { references: string[]; dependsOn: string[] }>();
+    const walkConfig = (module: any) => {
+        for (const resource of module?.resources || []) {
+            const references: string[] = [];
+            collectReferences(resource.expressions, references);
+            configured.set(normalizeAddress(resource.address), {
+                references,
+                dependsOn: (resource.depends_on || []).map(normalizeAddress),
+            });
+        }
+        Object.values(module?.module_calls || {}).forEach((call: any) => walkConfig(call.module));
+    };
+    walkConfig(plan?.configuration?.root_module);
+
+    const resources = new Map<string, TerraformResource>();
+    const walkValues = (module: any) => {
+        for (const resource of module?.resources || []) {
+            const address = normalizeAddress(resource.address);
+            if (resources.has(address)) continue; // count/for_each instances collapse into one node
+            const config = configured.get(address);
+            resources.set(address, {
+                address,
+                type: resource.type,
+                name: resource.name,
+                attributes: resource.values || {},
+                references: config?.references || [],
+                dependsOn: config?.dependsOn || [],
+            });
+        }
+        (module?.child_modules || []).forEach(walkValues);
+    };
+    walkValues(plan?.planned_values?.root_module);
+
+    const providerConfig = plan?.configuration?.provider_config || {};
+    const region = Object.values(providerConfig)
+        .map((p: any) => p?.expressions?.region?.constant_value)
+        .find((r): r is string => typeof r === 'string');
+
+    return { resources: [...resources.values()], region };
+};
+
+// --- GRAPH BUILDING ---
+
+/**
+ * Converts parsed Terraform resources into an import graph. VPC/network and subnet
+ * resources become nested containers (grouped by availability zone when it is known),
+ * and references between drawable resources become links.
+ */
+export const buildTerraformGraph = ({ resources, region }: TerraformModel): ImportGraph => {
+    const byAddress = new Map(resources.map(r => [r.address, r]));
+    const idOf = (address: string) => toKebabId(address.replace(/^data\./, ''));
+    const containerTypeOf = (r: TerraformResource) => CONTAINER_TYPES[r.type];
+    const isGlue = (r: TerraformResource) => !containerTypeOf(r) && !ICON_TYPES.some(([p]) => p.test(r.type)) && GLUE_TYPES.test(r.type);
+    const isNode = (r: TerraformResource) => !containerTypeOf(r) && !isGlue(r);
+
+    const resolvedRefs = (r: TerraformResource) =>
+        [...new Set([...r.references, ...r.dependsOn])].filter(a => a !== r.address && byAddress.has(a)).map(a => byAddress.get(a)!);
+
+    const labelOf = (r: TerraformResource): string => {
+        const tags = r.attributes.tags as Record<string, unknown> | undefined;
+        const name = tags && typeof tags.Name === 'string' ? tags.Name : typeof r.attributes.name === 'string' ? r.attributes.name : null;
+        return name || (r.type === 'module' ? `Module: ${r.name}` : r.name.replace(/[_-]+/g, ' '));
+    };
+
+    const imported: ImportedResource[] = [];
+    const regionId = region ? toKebabId(`region-${region}`) : undefined;
+    if (region && regionId) {
+        imported.push({ id: regionId, label: region, type: 'region', containerType: 'region' });
+    }
+
+    const zoneContainers = new Map<string, ImportedResource>();
+    for (const resource of resources) {
+        const containerType = containerTypeOf(resource);
+        if (!containerType && !isNode(resource)) continue;
+
+        const refs = resolvedRefs(resource);
+        const subnet = refs.find(r => containerTypeOf(r) === 'subnet');
+        const network = refs.find(r => containerTypeOf(r) === 'vpc');
+        const group = refs.find(r => containerTypeOf(r) === 'group');
+
+        let parentId: string | undefined;
+        if (containerType === 'vpc') {
+            parentId = regionId ?? (group ? idOf(group.address) : undefined);
+        } else if (containerType === 'subnet') {
+            parentId = network ? idOf(network.address) : undefined;
+            const zone = resource.attributes.availability_zone;
+            if (parentId && typeof zone === 'string') {
+                const zoneId = `${parentId}-${toKebabId(zone)}`;
+                if (!zoneContainers.has(zoneId)) {
+                    const zoneContainer: ImportedResource = { id: zoneId, label: zone, type: 'availability-zone', containerType: 'availability-zone', parentId };
+                    zoneContainers.set(zoneId, zoneContainer);
+                    imported.push(zoneContainer);
+                }
+                parentId = zoneId;
+            }
+        } else if (!containerType) {
+            parentId = subnet ? idOf(subnet.address) : network ? idOf(network.address) : group ? idOf(group.address) : undefined;
+        }
+
+        imported.push({
+            id: idOf(resource.address),
+            label: labelOf(resource),
+            type: containerType ?? (ICON_TYPES.find(([p]) => p.test(resource.type))?.[1] || (resource.type === 'module' ? IconType.FileCode : IconType.Generic)),
+            description: resource.address,
+            containerType,
+            parentId,
+        });
+    }
+
+    const edges: ImportedEdge[] = [];
+    for (const resource of resources.filter(isNode)) {
+        for (const ref of resolvedRefs(resource).filter(isNode)) {
+            const explicit = resource.dependsOn.includes(ref.address) && !resource.references.includes(ref.address);
+            edges.push({ source: idOf(resource.address), target: idOf(ref.address), ...(explicit ? { style: 'dashed' as const } : {}) });
+        }
+    }
+
+    // Link the drawable resources that a connected group of glue resources ties together,
+    // e.g. load balancer -> listener -> target group -> attachment -> instance.
+    const glue = resources.filter(isGlue);
+    const glueComponent = new Map<string, number>();
+    glue.forEach((start, index) => {
+        if (glueComponent.has(start.address)) return;
+        const stack = [start];
+        while (stack.length > 0) {
+            const current = stack.pop()!;
+            if (glueComponent.has(current.address)) continue;
+            glueComponent.set(current.address, index);
+            resolvedRefs(current).filter(isGlue).forEach(r => stack.push(r));
+            glue.filter(g => resolvedRefs(g).includes(current)).forEach(g => stack.push(g));
+        }
+    });
+    for (const component of new Set(glueComponent.values())) {
+        const members = glue.filter(g => glueComponent.get(g.address) === component);
+        const connected = [...new Set(members.flatMap(g => resolvedRefs(g).filter(isNode)))];
+        for (const target of connected.slice(1)) {
+            edges.push({ source: idOf(connected[0].address), target: idOf(target.address) });
+        }
+    }
+
+    return {
+        title: region ? `Terraform infrastructure (${region})` : 'Terraform infrastructure',
+        architectureType: architectureTypeFor(resources),
+        resources: imported,
+        edges,
+    };
+};
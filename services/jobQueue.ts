@@ -0,0 +1,180 @@
+import crypto from 'crypto';
+import { Job, JobCallback, JobQueueBackend } from './jobs/types';
+import { createMemoryJobBackend } from './jobs/memoryBackend';
+import { deliverJobCallback } from './jobs/callback';
+
+// An in-process queue for work that outlives the request that started it, such as v1
+// generations with `?async=true`. Jobs run with bounded concurrency; a job whose handler
+// throws is retried with exponential backoff until it runs out of attempts. Clients poll
+// GET /v1/jobs/:id, or pass a callback URL to be notified when the job finishes.
+
+const MAX_CONCURRENT_JOBS = 2;
+const MAX_ATTEMPTS = 3;
+const RETRY_BASE_DELAY_MS = 5 * 1000;
+
+/**
+ * Runs one job. The return value becomes the job's `result`; throwing fails the attempt.
+ */
+export type JobHandler = (input: any, job: Job) => Promise<unknown>;
+
+export interface NewJob {
+    type: string;
+    userId: string;
+    input: unknown;
+    callback?: JobCallback | null;
+}
+
+// The job as clients see it: without the callback secret or the internal scheduling fields.
+export interface JobSummary {
+    id: string;
+    type: string;
+    status: Job['status'];
+    attempts: number;
+    createdAt: string;
+    startedAt: string | null;
+    completedAt: string | null;
+    result: unknown;
+    error: string | null;
+    callback: Omit<JobCallback, 'secret'> | null;
+}
+
+const handlers = new Map<string, JobHandler>();
+let backend: JobQueueBackend = createMemoryJobBackend();
+let running = 0;
+
+/**
+ * Replaces the backend behind the queue, e.g. with one shared between instances.
+ */
+export const setJobQueueBackend = (newBackend: JobQueueBackend) => {
+    backend = newBackend;
+};
+
+export const registerJobHandler = (type: string, handler: JobHandler) => {
+    handlers.set(type, handler);
+};
+
+export const summarizeJob = (job: Job): JobSummary => {
+    const { secret, ...callback } = job.callback || ({} as JobCallback);
+    return {
+        id: job.id,
+        type: job.type,
+        status: job.status,
+        attempts: job.attempts,
+        createdAt: job.createdAt,
+        startedAt: job.startedAt,
+        completedAt: job.completedAt,
+        result: job.result,
+        error: job.error,
+        callback: job.callback ? callback : null,
+    };
+};
+
+const finish = async (job: Job) => {
+    job.completedAt = new Date().toISOString();
+    await backend.update(job);
+    if (!job.callback) return;
+    // The delivery state is still changing while the callback is sent, so it is left out.
+    const { callback, ...payload } = summarizeJob(job);
+    await deliverJobCallback(job, payload);
+    await backend.update(job);
+};
+
+const run = async (job: Job) => {
+    job.attempts += 1;
+    job.startedAt = job.startedAt || new Date().toISOString();
+    await backend.update(job);
+
+    const handler = handlers.get(job.type);
+    try {
+        if (!handler) throw new Error(`No handler is registered for jobs of type '${job.type}'.`);
+        job.result = await handler(job.input, job);
+        job.status = 'succeeded';
+        job.error = null;
+        await finish(job);
+    } catch (e: any) {
+        job.error = e.message || 'The job failed.';
+        if (handler && job.attempts < job.maxAttempts) {
+            const delay = RETRY_BASE_DELAY_MS * Math.pow(2, job.attempts - 1);
+            console.warn(`[Jobs] Job ${job.id} failed on attempt ${job.attempts}; retrying in ${delay}ms: ${job.error}`);
+            job.status = 'queued';
+            job.runAt = new Date(Date.now() + delay).toISOString();
+            await backend.update(job);
+            // Don't keep the process alive just to retry.
+            setTimeout(drain, delay).unref();
+            return;
+        }
+        console.error(`[Jobs] Job ${job.id} failed after ${job.attempts} attempt(s): ${job.error}`);
+        job.status = 'failed';
+        await finish(job);
+    }
+};
+
+/**
+ * Starts due jobs until the concurrency limit is reached. Called whenever a job is added or
+ * finishes, and when a retry becomes due.
+ */
+const drain = async (): Promise<void> => {
+    while (running < MAX_CONCURRENT_JOBS) {
+        // The slot is taken before claiming, so concurrent drains cannot overshoot the limit.
+        running++;
+        let job: Job | null;
+        try {
+            job = await backend.claim(Date.now());
+        } catch (e: any) {
+            running--;
+            console.error(`[Jobs] Failed to claim a job: ${e.message}`);
+            return;
+        }
+        if (!job) {
+            running--;
+            return;
+        }
+        run(job)
+            .catch((e: any) => console.error(`[Jobs] Unhandled exception in job ${job!.id}: ${e.message}`))
+            .finally(() => {
+                running--;
+                drain();
+            });
+    }
+};
+
+/**
+ * Queues a job and starts it if a slot is free.
+ * @returns The queued job.
+ */
+export const enqueueJob = async ({ type, userId, input, callback = null }: NewJob): Promise<JobSummary> => {
+    if (!handlers.has(type)) throw new Error(`No handler is registered for jobs of type '${type}'.`);
+    const now = new Date().toISOString();
+    const job: Job = {
+        id: crypto.randomUUID(),
+        type,
+        userId,
+        status: 'queued',
+        input,
+        result: null,
+        error: null,
+        attempts: 0,
+        maxAttempts: MAX_ATTEMPTS,
+        runAt: now,
+        createdAt: now,
+        startedAt: null,
+        completedAt: null,
+        callback,
+    };
+    await backend.add(job);
+    drain();
+    return summarizeJob(job);
+};
+
+/**
+ * Returns a job if it exists and belongs to the user.
+ */
+export const getJob = async (userId: string, id: string): Promise<JobSummary | null> => {
+    const job = await backend.get(id);
+    return job && job.userId === userId ? summarizeJob(job) : null;
+};
+
+/**
+ * Counts the user's jobs that have not finished yet.
+ */
+export const countUnfinishedJobs = (userId: string): Promise<number> => backend.countUnfinished(userId);
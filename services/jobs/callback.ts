@@ -0,0 +1,147 @@
+import crypto from 'crypto';
+import dns from 'dns';
+import https from 'https';
+import net from 'net';
+import { Job, JobCallback } from './types';
+
+// Finished jobs can POST their outcome to a callback URL supplied with the job. The body is the
+// job as returned by GET /v1/jobs/:id, minus its `callback` field, and it is signed so
+// receivers can trust it:
+//   X-CubeGen-Signature: t=<unix seconds>,v1=<hex HMAC-SHA256 of "<t>.<raw body>" keyed by the secret>
+// Receivers should recompute the HMAC over the raw body, compare it in constant time and
+// reject stale timestamps to prevent replays.
+
+const MIN_SECRET_LENGTH = 16;
+const MAX_SECRET_LENGTH = 256;
+const DELIVERY_ATTEMPTS = 3;
+const DELIVERY_RETRY_DELAY_MS = 2000;
+const DELIVERY_TIMEOUT_MS = 10 * 1000;
+
+// Addresses on loopback, private, shared (CGNAT), link-local, multicast and reserved networks,
+// including IPv4 addresses embedded in IPv6 ones.
+const isInternalAddress = (address: string): boolean => {
+    const ip = address.replace(/^\[|\]$/g, '').toLowerCase();
+    if (net.isIPv4(ip)) {
+        const [a, b] = ip.split('.').map(Number);
+        return a === 0 || a === 10 || a === 127 || a >= 224
+            || (a === 100 && b >= 64 && b <= 127) || (a === 169 && b === 254)
+            || (a === 172 && b >= 16 && b <= 31) || (a === 192 && b === 168);
+    }
+    if (net.isIPv6(ip)) {
+        const mapped = /^::ffff:(\d+\.\d+\.\d+\.\d+)$/.exec(ip);
+        if (mapped) return isInternalAddress(mapped[1]);
+        return ip === '::' || ip === '::1' || /^f[cd]/.test(ip) || /^fe[89ab]/.test(ip) || /^ff/.test(ip) || ip.startsWith('::ffff:');
+    }
+    return true;
+};
+
+// Rejects obviously internal hosts up front. Names are checked again when they are resolved
+// for delivery, since they can point anywhere (see `lookupPublicAddress`).
+const isInternalHost = (hostname: string): boolean => {
+    const host = hostname.replace(/^\[|\]$/g, '').toLowerCase();
+    if (host === 'localhost' || host.endsWith('.localhost') || host.endsWith('.internal')) return true;
+    return net.isIP(host) !== 0 && isInternalAddress(host);
+};
+
+/**
+ * A `lookup` for outgoing sockets that resolves every address of the host and refuses the
+ * connection if any of them is internal, so the socket can only connect to a vetted address.
+ * Resolving at connection time also defeats DNS records changed after the job was queued.
+ */
+const lookupPublicAddress = (hostname: string, options: dns.LookupOptions, callback: (...args: any[]) => void) => {
+    dns.lookup(hostname, { all: true, family: options.family }, (error, addresses) => {
+        if (error) return callback(error);
+        if (addresses.length === 0 || addresses.some(({ address }) => isInternalAddress(address))) {
+            return callback(Object.assign(new Error(`${hostname} resolves to an internal address.`), { code: 'CALLBACK_ADDRESS_BLOCKED' }));
+        }
+        if (options.all) return callback(null, addresses);
+        callback(null, addresses[0].address, addresses[0].family);
+    });
+};
+
+/**
+ * Checks a callback URL and secret supplied by a client.
+ * @returns The callback to store with the job, or null when no URL was given.
+ * @throws An `INVALID_JOB_REQUEST` error.
+ */
+export const createJobCallback = (url: unknown, secret: unknown): JobCallback | null => {
+    if (url === undefined || url === null) return null;
+
+    let parsed: URL | null = null;
+    try {
+        parsed = typeof url === 'string' ? new URL(url) : null;
+    } catch {
+        parsed = null;
+    }
+    if (!parsed || parsed.protocol !== 'https:' || parsed.username || parsed.password || isInternalHost(parsed.hostname)) {
+        throw new Error('INVALID_JOB_REQUEST: "callbackUrl" must be a public https URL.');
+    }
+    if (typeof secret !== 'string' || secret.length < MIN_SECRET_LENGTH || secret.length > MAX_SECRET_LENGTH) {
+        throw new Error(`INVALID_JOB_REQUEST: "callbackSecret" must be a string of ${MIN_SECRET_LENGTH} to ${MAX_SECRET_LENGTH} characters when "callbackUrl" is set.`);
+    }
+    return { url: parsed.toString(), secret, status: 'pending', attempts: 0, deliveredAt: null, lastError: null };
+};
+
+export const signCallbackBody = (secret: string, timestamp: number, body: string): string =>
+    `t=${timestamp},v1=${crypto.createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')}`;
+
+const post = (callback: JobCallback, jobId: string, body: string): Promise<void> => new Promise((resolve, reject) => {
+    const request = https.request(callback.url, {
+        method: 'POST',
+        headers: {
+            'Content-Type': 'application/json',
+            'Content-Length': Buffer.byteLength(body),
+            'X-CubeGen-Job-Id': jobId,
+            'X-CubeGen-Signature': signCallbackBody(callback.secret, Math.floor(Date.now() / 1000), body),
+        },
+        lookup: lookupPublicAddress as any,
+        timeout: DELIVERY_TIMEOUT_MS,
+    }, response => {
+        // Redirects are not followed: they could point anywhere, including at an internal address.
+        response.resume();
+        const status = response.statusCode || 0;
+        if (status >= 200 && status < 300) return resolve();
+        reject(Object.assign(new Error(`The callback URL responded with HTTP ${status}.`), { code: 'CALLBACK_REJECTED' }));
+    });
+    request.on('timeout', () => request.destroy(Object.assign(new Error('The callback URL did not respond in time.'), { code: 'CALLBACK_TIMEOUT' })));
+    request.on('error', reject);
+    request.end(body);
+});
+
+// What clients see of a failed delivery. Statuses and network errors stay in the logs, since
+// reporting them would let the callback URL be used to probe hosts and ports.
+const DELIVERY_ERRORS: Record<string, string> = {
+    CALLBACK_ADDRESS_BLOCKED: 'The callback URL resolves to an internal address.',
+    CALLBACK_TIMEOUT: 'The callback URL did not respond in time.',
+    CALLBACK_REJECTED: 'The callback URL did not accept the delivery.',
+};
+
+/**
+ * Delivers a finished job's callback, retrying failed deliveries a few times, and records the
+ * outcome on `job.callback`. Never throws.
+ * @param payload The public view of the job, which becomes the request body.
+ */
+export const deliverJobCallback = async (job: Job, payload: unknown): Promise<void> => {
+    const callback = job.callback;
+    if (!callback || callback.status !== 'pending') return;
+
+    const body = JSON.stringify(payload);
+    while (callback.attempts < DELIVERY_ATTEMPTS) {
+        callback.attempts += 1;
+        try {
+            await post(callback, job.id, body);
+            callback.status = 'delivered';
+            callback.deliveredAt = new Date().toISOString();
+            callback.lastError = null;
+            return;
+        } catch (e: any) {
+            console.warn(`[Jobs] Callback attempt ${callback.attempts} for job ${job.id} failed: ${e.message}`);
+            callback.lastError = DELIVERY_ERRORS[e.code] || 'The callback could not be delivered.';
+            if (callback.attempts < DELIVERY_ATTEMPTS) {
+                await new Promise(resolve => setTimeout(resolve, DELIVERY_RETRY_DELAY_MS * callback.attempts));
+            }
+        }
+    }
+    callback.status = 'failed';
+    console.error(`[Jobs] Giving up on the callback for job ${job.id}: ${callback.lastError}`);
+};
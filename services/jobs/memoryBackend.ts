@@ -0,0 +1,50 @@
+import { Job, JobQueueBackend } from './types';
+
+const DEFAULT_RETENTION_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Creates a per-process backend. Finished jobs are dropped `retentionMs` after they complete,
+ * and every job is lost on restart, so a deployment with several instances (or that needs
+ * jobs to survive deploys) needs a shared backend.
+ */
+export const createMemoryJobBackend = (retentionMs = DEFAULT_RETENTION_MS): JobQueueBackend => {
+    // Map iteration follows insertion order, so the first due queued job is the oldest.
+    const jobs = new Map<string, Job>();
+    // Jobs are copied in and out so callers cannot change stored state without `update`.
+    const copy = (job: Job): Job => JSON.parse(JSON.stringify(job));
+
+    const prune = (now: number) => {
+        jobs.forEach((job, id) => {
+            if (job.completedAt && now - Date.parse(job.completedAt) > retentionMs) jobs.delete(id);
+        });
+    };
+
+    return {
+        add: async job => {
+            prune(Date.now());
+            jobs.set(job.id, copy(job));
+        },
+        get: async id => {
+            const job = jobs.get(id);
+            return job ? copy(job) : null;
+        },
+        claim: async now => {
+            for (const job of Array.from(jobs.values())) {
+                if (job.status !== 'queued' || Date.parse(job.runAt) > now) continue;
+                job.status = 'running';
+                return copy(job);
+            }
+            return null;
+        },
+        update: async job => {
+            if (jobs.has(job.id)) jobs.set(job.id, copy(job));
+        },
+        countUnfinished: async userId => {
+            let count = 0;
+            jobs.forEach(job => {
+                if (job.userId === userId && (job.status === 'queued' || job.status === 'running')) count++;
+            });
+            return count;
+        },
+    };
+};
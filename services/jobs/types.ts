@@ -0,0 +1,45 @@
+export type JobStatus = 'queued' | 'running' | 'succeeded' | 'failed';
+
+export interface JobCallback {
+    url: string;
+    // Signs the callback body (see jobs/callback); never returned by the API.
+    secret: string;
+    status: 'pending' | 'delivered' | 'failed';
+    attempts: number;
+    deliveredAt: string | null;
+    lastError: string | null;
+}
+
+export interface Job {
+    id: string;
+    // Selects the handler that runs the job, e.g. 'diagram.generate'.
+    type: string;
+    userId: string;
+    status: JobStatus;
+    // The handler's input and output; both must survive a JSON round trip.
+    input: unknown;
+    result: unknown;
+    error: string | null;
+    attempts: number;
+    maxAttempts: number;
+    // Queued jobs are not started before this time, which is how retries back off.
+    runAt: string;
+    createdAt: string;
+    startedAt: string | null;
+    completedAt: string | null;
+    callback: JobCallback | null;
+}
+
+/**
+ * Storage behind the job queue. `claim` must be atomic so that two workers cannot start the
+ * same job; a Postgres backend would use `update ... where id = (select ... for update skip locked)`.
+ */
+export interface JobQueueBackend {
+    add(job: Job): Promise<void>;
+    get(id: string): Promise<Job | null>;
+    // Marks the oldest queued job whose `runAt` has passed as running and returns it.
+    claim(now: number): Promise<Job | null>;
+    update(job: Job): Promise<void>;
+    // Jobs of the user that are queued or running.
+    countUnfinished(userId: string): Promise<number>;
+}
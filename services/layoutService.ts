@@ -0,0 +1,292 @@
+import { ArchNode, Container, DiagramData } from '../types';
+
+export type LayoutMode = 'ai' | 'auto';
+
+export const LAYOUT_MODES: LayoutMode[] = ['ai', 'auto'];
+
+// --- LAYOUT CONSTANTS ---
+const CANVAS_MARGIN = 40;
+const COLUMN_GAP = 80;          // Horizontal space between ranked columns.
+const ROW_GAP = 40;             // Vertical space between items stacked in a column.
+const CONTAINER_PADDING = 24;   // Inner padding of a container box.
+const CONTAINER_HEADER = 32;    // Space reserved above the children for the container label.
+
+// Node sizing is estimated from the label, since the backend has no font metrics.
+const CHAR_WIDTH = 7.5;
+const LINE_HEIGHT = 18;
+const ICON_HEIGHT = 40;
+const NODE_PADDING = 20;
+const MIN_NODE_WIDTH = 120;
+const MAX_NODE_WIDTH = 200;
+const MIN_NODE_HEIGHT = 80;
+const TEXT_ONLY_TYPES = new Set(['layer-label', 'group-label']);
+
+interface Size {
+    width: number;
+    height: number;
+}
+
+// An item placed inside a box: either a node or a nested container.
+interface LayoutItem {
+    kind: 'node' | 'container';
+    id: string;
+    order: number;      // Original index, used as a stable tie-breaker.
+    rank: number;
+    isTier: boolean;
+    size: Size;
+    nodeIds: string[];  // The item's own node, or all nodes nested in the container.
+    // Offsets of this item's children relative to its own top-left corner (containers only).
+    placements?: Placement[];
+}
+
+interface Placement {
+    item: LayoutItem;
+    dx: number;
+    dy: number;
+}
+
+/**
+ * Estimates a node size that fits its label, wrapping long labels onto several lines.
+ */
+export const measureNode = (node: Pick<ArchNode, 'label' | 'type' | 'shape'>): Size => {
+    const label = node.label || '';
+    const textOnly = TEXT_ONLY_TYPES.has(node.type);
+    const textWidth = label.length * CHAR_WIDTH;
+    const width = Math.min(MAX_NODE_WIDTH, Math.max(MIN_NODE_WIDTH, Math.ceil(textWidth + NODE_PADDING * 2)));
+    const lines = Math.max(1, Math.ceil(textWidth / (width - NODE_PADDING * 2)));
+    let height = (textOnly ? 0 : ICON_HEIGHT) + lines * LINE_HEIGHT + NODE_PADDING;
+    if (!textOnly) height = Math.max(MIN_NODE_HEIGHT, height);
+
+    // Ellipses and diamonds have less usable interior than a rectangle of the same size.
+    if (node.shape === 'ellipse' || node.shape === 'diamond') {
+        return { width: Math.round(width * 1.3), height: Math.round(height * 1.3) };
+    }
+    return { width, height: Math.round(height) };
+};
+
+const linkEndpoint = (endpoint: string | ArchNode): string => (typeof endpoint === 'string' ? endpoint : endpoint.id);
+
+/**
+ * Assigns every node a layer so links point left-to-right wherever possible.
+ * Uses longest-path ranking after ignoring the back edges found by a DFS, which makes
+ * cyclic graphs rankable while keeping the result deterministic.
+ */
+const rankNodes = (nodes: ArchNode[], edges: Array<[string, string]>): Map<string, number> => {
+    const outgoing = new Map<string, string[]>(nodes.map(n => [n.id, []]));
+    for (const [source, target] of edges) {
+        if (source !== target && outgoing.has(source) && outgoing.has(target)) {
+            outgoing.get(source)!.push(target);
+        }
+    }
+
+    // Drop back edges (DFS in input order) so the remaining graph is acyclic.
+    const state = new Map<string, 'visiting' | 'done'>();
+    const acyclic = new Map<string, string[]>(nodes.map(n => [n.id, []]));
+    const visit = (id: string) => {
+        state.set(id, 'visiting');
+        for (const next of outgoing.get(id)!) {
+            const nextState = state.get(next);
+            if (nextState === 'visiting') continue;
+            acyclic.get(id)!.push(next);
+            if (!nextState) visit(next);
+        }
+        state.set(id, 'done');
+    };
+    nodes.forEach(n => { if (!state.has(n.id)) visit(n.id); });
+
+    // Longest path from any source, computed in topological order.
+    const indegree = new Map<string, number>(nodes.map(n => [n.id, 0]));
+    acyclic.forEach(targets => targets.forEach(t => indegree.set(t, indegree.get(t)! + 1)));
+    const rank = new Map<string, number>(nodes.map(n => [n.id, 0]));
+    const queue = nodes.filter(n => indegree.get(n.id) === 0).map(n => n.id);
+    while (queue.length > 0) {
+        const id = queue.shift()!;
+        for (const next of acyclic.get(id)!) {
+            rank.set(next, Math.max(rank.get(next)!, rank.get(id)! + 1));
+            indegree.set(next, indegree.get(next)! - 1);
+            if (indegree.get(next) === 0) queue.push(next);
+        }
+    }
+    return rank;
+};
+
+/**
+ * Lays out a set of sibling items into columns and returns the size of the bounding box
+ * together with each item's offset from its top-left corner.
+ *
+ * Items sharing a rank share a column, except tier containers, which always get a
+ * column of their own so they read as swimlanes.
+ */
+const arrangeColumns = (items: LayoutItem[], nodeOrder: Map<string, number>, predecessors: Map<string, string[]>): { size: Size; placements: Placement[] } => {
+    if (items.length === 0) return { size: { width: 0, height: 0 }, placements: [] };
+
+    const columns = new Map<string, LayoutItem[]>();
+    const columnKey = (item: LayoutItem) => (item.isTier ? `${item.rank}:1:${item.order}` : `${item.rank}:0`);
+    for (const item of items) {
+        const key = columnKey(item);
+        if (!columns.has(key)) columns.set(key, []);
+        columns.get(key)!.push(item);
+    }
+    const sortedColumns = [...columns.values()].sort((a, b) =>
+        a[0].rank - b[0].rank || Number(a[0].isTier) - Number(b[0].isTier) || a[0].order - b[0].order);
+
+    // Order each column by the barycenter of its predecessors in earlier columns to
+    // reduce link crossings; items without placed predecessors keep their input order.
+    let rowCounter = 0;
+    const barycenter = (item: LayoutItem): number => {
+        const positions = item.nodeIds
+            .flatMap(id => predecessors.get(id) || [])
+            .map(id => nodeOrder.get(id))
+            .filter((p): p is number => p !== undefined);
+        return positions.length > 0 ? positions.reduce((a, b) => a + b, 0) / positions.length : Infinity;
+    };
+
+    const placements: Placement[] = [];
+    let x = 0;
+    let maxHeight = 0;
+    const columnExtents: Array<{ items: LayoutItem[]; width: number; height: number; x: number }> = [];
+    for (const column of sortedColumns) {
+        column.sort((a, b) => {
+            const ba = barycenter(a);
+            const bb = barycenter(b);
+            if (ba !== bb) return ba === Infinity ? 1 : bb === Infinity ? -1 : ba - bb;
+            return a.order - b.order;
+        });
+        column.forEach(item => item.nodeIds.forEach(id => { if (!nodeOrder.has(id)) nodeOrder.set(id, rowCounter++); }));
+
+        const width = Math.max(...column.map(item => item.size.width));
+        const height = column.reduce((sum, item) => sum + item.size.height, 0) + ROW_GAP * (column.length - 1);
+        columnExtents.push({ items: column, width, height, x });
+        maxHeight = Math.max(maxHeight, height);
+        x += width + COLUMN_GAP;
+    }
+
+    // Stretch sibling tiers to a common height so the swimlanes line up.
+    const tierHeight = Math.max(0, ...items.filter(i => i.isTier).map(i => i.size.height));
+    items.filter(i => i.isTier).forEach(i => { i.size.height = tierHeight; });
+    maxHeight = Math.max(maxHeight, tierHeight);
+
+    for (const column of columnExtents) {
+        const height = column.items.reduce((sum, item) => sum + item.size.height, 0) + ROW_GAP * (column.items.length - 1);
+        // Center each column vertically within the box.
+        let y = (maxHeight - height) / 2;
+        for (const item of column.items) {
+            placements.push({ item, dx: column.x + (column.width - item.size.width) / 2, dy: y });
+            y += item.size.height + ROW_GAP;
+        }
+    }
+
+    return { size: { width: x - COLUMN_GAP, height: maxHeight }, placements };
+};
+
+/**
+ * Computes positions and sizes for every node and container in a diagram, ignoring any
+ * coordinates the model produced. The result is deterministic for a given input.
+ *
+ * - Nodes are ranked left-to-right along link direction.
+ * - Tier containers become side-by-side columns of equal height.
+ * - Nested containers (Region > VPC > AZ > Subnet) are sized to fit their children.
+ * - Node sizes are derived from their labels.
+ *
+ * Expects a diagram that has already passed through `validateAndRepairDiagram`.
+ * @param diagram The diagram to lay out. It is not mutated.
+ * @returns A copy of the diagram with new geometry.
+ */
+export const autoLayoutDiagram = (diagram: DiagramData): DiagramData => {
+    const nodes = diagram.nodes.map(n => ({ ...n }));
+    const containers = (diagram.containers || []).map(c => ({ ...c }));
+    const edges = diagram.links.map(l => [linkEndpoint(l.source), linkEndpoint(l.target)] as [string, string]);
+
+    const rank = rankNodes(nodes, edges);
+    const predecessors = new Map<string, string[]>();
+    for (const [source, target] of edges) {
+        if (!predecessors.has(target)) predecessors.set(target, []);
+        predecessors.get(target)!.push(source);
+    }
+
+    const containerById = new Map(containers.map(c => [c.id, c]));
+    const ownerOfNode = new Map<string, string>();
+    containers.forEach(c => c.childNodeIds.forEach(id => ownerOfNode.set(id, c.id)));
+    const childContainers = (parentId: string | undefined) =>
+        containers.filter(c => (c.parentContainerId && containerById.has(c.parentContainerId) ? c.parentContainerId : undefined) === parentId);
+
+    const nodeOrder = new Map<string, number>();
+    const nodeIndex = new Map(nodes.map((n, i) => [n.id, i]));
+    const containerIndex = new Map(containers.map((c, i) => [c.id, i]));
+
+    const buildNodeItem = (node: ArchNode): LayoutItem => ({
+        kind: 'node',
+        id: node.id,
+        order: nodeIndex.get(node.id)!,
+        rank: rank.get(node.id) || 0,
+        isTier: false,
+        size: measureNode(node),
+        nodeIds: [node.id],
+    });
+
+    // Builds a container item bottom-up: children first, then the box around them.
+    const buildContainerItem = (container: Container): LayoutItem => {
+        const children = [
+            ...nodes.filter(n => ownerOfNode.get(n.id) === container.id).map(buildNodeItem),
+            ...childContainers(container.id).map(buildContainerItem),
+        ];
+        const nodeIds = children.flatMap(c => c.nodeIds);
+        const ranks = nodeIds.map(id => rank.get(id) || 0);
+        const { size, placements } = arrangeColumns(children, nodeOrder, predecessors);
+        const labelWidth = container.label.length * CHAR_WIDTH + CONTAINER_PADDING * 2;
+        return {
+            kind: 'container',
+            id: container.id,
+            order: containerIndex.get(container.id)!,
+            rank: ranks.length > 0 ? Math.min(...ranks) : 0,
+            isTier: container.type === 'tier',
+            size: {
+                width: Math.max(size.width + CONTAINER_PADDING * 2, labelWidth, MIN_NODE_WIDTH),
+                height: size.height + CONTAINER_PADDING * 2 + CONTAINER_HEADER,
+            },
+            nodeIds,
+            placements,
+        };
+    };
+
+    const rootItems = [
+        ...nodes.filter(n => !ownerOfNode.has(n.id) || !containerById.has(ownerOfNode.get(n.id)!)).map(buildNodeItem),
+        ...childContainers(undefined).map(buildContainerItem),
+    ];
+    const root = arrangeColumns(rootItems, nodeOrder, predecessors);
+
+    // Convert relative offsets into absolute canvas coordinates.
+    const nodeById = new Map(nodes.map(n => [n.id, n]));
+    const place = (placements: Placement[], originX: number, originY: number) => {
+        for (const { item, dx, dy } of placements) {
+            const left = Math.round(originX + dx);
+            const top = Math.round(originY + dy);
+            if (item.kind === 'node') {
+                const node = nodeById.get(item.id)!;
+                node.width = item.size.width;
+                node.height = item.size.height;
+                // Node coordinates are centers; container coordinates are top-left corners.
+                node.x = Math.round(left + item.size.width / 2);
+                node.y = Math.round(top + item.size.height / 2);
+            } else {
+                const container = containerById.get(item.id)!;
+                container.x = left;
+                container.y = top;
+                container.width = Math.round(item.size.width);
+                container.height = Math.round(item.size.height);
+                // Center the children horizontally in case the label made the box wider.
+                const contentWidth = item.placements!.reduce((max, p) => Math.max(max, p.dx + p.item.size.width), 0);
+                const innerLeft = left + (item.size.width - contentWidth) / 2;
+                const innerHeight = item.size.height - CONTAINER_PADDING * 2 - CONTAINER_HEADER;
+                const contentHeight = item.placements!.reduce((max, p) => Math.max(max, p.dy + p.item.size.height), 0);
+                const innerTop = top + CONTAINER_HEADER + CONTAINER_PADDING + (innerHeight - contentHeight) / 2;
+                place(item.placements!, innerLeft, innerTop);
+            }
+        }
+    };
+    place(root.placements, CANVAS_MARGIN, CANVAS_MARGIN);
+
+    const result: DiagramData = { ...diagram, nodes };
+    if (diagram.containers) result.containers = containers;
+    return result;
+};
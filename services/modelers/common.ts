@@ -0,0 +1,77 @@
+import { ModelWarning, ModelWarningCode } from '../../types';
+import { toKebabId } from '../importers/common';
+
+export interface ModelResult<T> {
+    model: T;
+    warnings: ModelWarning[];
+}
+
+export type Warn = (code: ModelWarningCode, message: string, repaired: boolean, elementId?: string) => void;
+
+export const createWarningList = (): { warnings: ModelWarning[]; warn: Warn } => {
+    const warnings: ModelWarning[] = [];
+    const warn: Warn = (code, message, repaired, elementId) => {
+        warnings.push(elementId ? { code, message, elementId, repaired } : { code, message, repaired });
+    };
+    return { warnings, warn };
+};
+
+export const isNonEmptyString = (value: unknown): value is string => typeof value === 'string' && value.trim().length > 0;
+
+export const asArray = (value: unknown): any[] => (Array.isArray(value) ? value : []);
+
+export const readTitle = (raw: any, fallback: string, warn: Warn): string => {
+    if (isNonEmptyString(raw.title)) return raw.title.trim();
+    warn('MISSING_FIELD', `The model has no title; "${fallback}" was used.`, true);
+    return fallback;
+};
+
+export const invalidModel = (reason: string) => new Error(`INVALID_MODEL: ${reason}`);
+
+export interface IdRegistry {
+    // Gives an element a unique kebab-case id, derived from its own id or else from `fallback`.
+    claim: (rawId: unknown, fallback: string) => string;
+    // Maps a reference (the original or the repaired id) to a claimed id.
+    resolve: (ref: unknown) => string | undefined;
+    has: (id: string) => boolean;
+}
+
+/**
+ * Tracks the ids of one kind of element. Duplicates get a numeric suffix and a warning;
+ * references to a duplicated id resolve to its first occurrence.
+ */
+export const createIdRegistry = (what: string, warn: Warn): IdRegistry => {
+    const ids = new Set<string>();
+    const aliases = new Map<string, string>();
+    return {
+        claim: (rawId, fallback) => {
+            const base = isNonEmptyString(rawId) ? toKebabId(rawId) : toKebabId(fallback);
+            let id = base;
+            let suffix = 2;
+            while (ids.has(id)) {
+                id = `${base}-${suffix++}`;
+            }
+            if (id !== base) warn('DUPLICATE_ID', `Duplicate ${what} id "${base}" was renamed to "${id}".`, true, id);
+            ids.add(id);
+            if (isNonEmptyString(rawId) && !aliases.has(rawId.trim())) aliases.set(rawId.trim(), id);
+            return id;
+        },
+        resolve: ref => {
+            if (!isNonEmptyString(ref)) return undefined;
+            const alias = aliases.get(ref.trim());
+            if (alias) return alias;
+            const id = toKebabId(ref);
+            return ids.has(id) ? id : undefined;
+        },
+        has: id => ids.has(id),
+    };
+};
+
+/**
+ * Returns `value` if it is one of `allowed`, otherwise `fallback` with a warning.
+ */
+export const readEnum = <T extends string>(value: unknown, allowed: readonly T[], fallback: T, what: string, warn: Warn, elementId?: string): T => {
+    if (typeof value === 'string' && (allowed as readonly string[]).includes(value)) return value as T;
+    warn('INVALID_VALUE', `${what} ${value === undefined ? 'is missing' : `"${String(value)}" is not valid`}; "${fallback}" was used.`, true, elementId);
+    return fallback;
+};
@@ -0,0 +1,95 @@
+import { ErAttribute, ErCardinality, ErDiagramData, ErEntity, ErRelationship } from '../../types';
+import { ModelResult, asArray, createIdRegistry, createWarningList, invalidModel, isNonEmptyString, readEnum, readTitle, Warn } from './common';
+
+export const ER_CARDINALITIES: ErCardinality[] = ['one-to-one', 'one-to-many', 'many-to-one', 'many-to-many'];
+
+const readAttributes = (raw: unknown, entityId: string, warn: Warn): ErAttribute[] => {
+    const seen = new Set<string>();
+    const attributes: ErAttribute[] = [];
+    asArray(raw).forEach((item: any, i: number) => {
+        if (!isNonEmptyString(item?.name)) {
+            warn('MISSING_FIELD', `Attribute ${i + 1} of "${entityId}" has no name and was dropped.`, true, entityId);
+            return;
+        }
+        const name = item.name.trim();
+        if (seen.has(name.toLowerCase())) {
+            warn('DUPLICATE_ID', `Attribute "${name}" appears more than once in "${entityId}"; the duplicate was dropped.`, true, entityId);
+            return;
+        }
+        seen.add(name.toLowerCase());
+        const attribute: ErAttribute = { name, type: isNonEmptyString(item.type) ? item.type.trim() : 'string' };
+        if (!isNonEmptyString(item.type)) warn('MISSING_FIELD', `Attribute "${name}" of "${entityId}" has no type; "string" was used.`, true, entityId);
+        if (item.primaryKey === true) attribute.primaryKey = true;
+        if (item.foreignKey === true) attribute.foreignKey = true;
+        if (item.unique === true) attribute.unique = true;
+        if (typeof item.nullable === 'boolean') attribute.nullable = item.nullable;
+        attributes.push(attribute);
+    });
+    return attributes;
+};
+
+/**
+ * Validates an ER diagram and repairs it: ids are made unique, attributes without a name are
+ * dropped, and relationships or key columns that point at missing entities or attributes are removed.
+ * @throws An `INVALID_MODEL` error if there are no entities.
+ */
+export const validateErDiagram = (input: any): ModelResult<ErDiagramData> => {
+    const { warnings, warn } = createWarningList();
+    const raw = input && typeof input === 'object' ? input : {};
+    const title = readTitle(raw, 'Untitled ER Diagram', warn);
+
+    const entityIds = createIdRegistry('entity', warn);
+    const entities: ErEntity[] = asArray(raw.entities).map((item: any, i: number) => {
+        const name = isNonEmptyString(item?.name) ? item.name.trim() : isNonEmptyString(item?.id) ? item.id.trim() : `Entity ${i + 1}`;
+        if (!isNonEmptyString(item?.name)) warn('MISSING_FIELD', `Entity ${i + 1} has no name; "${name}" was used.`, true);
+        const id = entityIds.claim(item?.id, name);
+        const attributes = readAttributes(item?.attributes, id, warn);
+        if (attributes.length > 0 && !attributes.some(a => a.primaryKey)) {
+            warn('MISSING_FIELD', `Entity "${id}" has no primary key.`, false, id);
+        }
+        return { id, name, attributes };
+    });
+    if (entities.length === 0) throw invalidModel('The ER diagram has no entities.');
+    const byId = new Map(entities.map(entity => [entity.id, entity]));
+
+    // Keeps the listed columns that exist on the entity, matched case-insensitively.
+    const readColumns = (value: unknown, entity: ErEntity, relationshipId: string): string[] | undefined => {
+        if (value === undefined || value === null) return undefined;
+        const columns: string[] = [];
+        for (const column of asArray(value)) {
+            const match = isNonEmptyString(column) && entity.attributes.find(a => a.name.toLowerCase() === column.trim().toLowerCase());
+            if (match) {
+                columns.push(match.name);
+            } else {
+                warn('DANGLING_REFERENCE', `Relationship "${relationshipId}" names a column ${JSON.stringify(column)} that "${entity.id}" does not have; it was removed.`, true, relationshipId);
+            }
+        }
+        return columns.length > 0 ? columns : undefined;
+    };
+
+    const relationshipIds = createIdRegistry('relationship', warn);
+    const relationships: ErRelationship[] = [];
+    asArray(raw.relationships).forEach((item: any, i: number) => {
+        const from = entityIds.resolve(item?.from);
+        const to = entityIds.resolve(item?.to);
+        if (!from || !to) {
+            warn('DANGLING_REFERENCE', `Relationship ${i + 1} refers to an unknown entity and was dropped.`, true);
+            return;
+        }
+        const id = relationshipIds.claim(item?.id, `${from}-to-${to}`);
+        const cardinality = readEnum(item?.cardinality, ER_CARDINALITIES, 'many-to-one', `Relationship "${id}" cardinality`, warn, id);
+        const fromAttributes = readColumns(item?.fromAttributes, byId.get(from)!, id);
+        const toAttributes = readColumns(item?.toAttributes, byId.get(to)!, id);
+        relationships.push({
+            id,
+            from,
+            to,
+            cardinality,
+            ...(isNonEmptyString(item?.label) ? { label: item.label.trim() } : {}),
+            ...(fromAttributes ? { fromAttributes } : {}),
+            ...(toAttributes ? { toAttributes } : {}),
+        });
+    });
+
+    return { model: { title, entities, relationships }, warnings };
+};
@@ -0,0 +1,68 @@
+import { FlowchartData, FlowchartEdge, FlowchartNode, FlowchartNodeKind } from '../../types';
+import { ModelResult, asArray, createIdRegistry, createWarningList, invalidModel, isNonEmptyString, readEnum, readTitle } from './common';
+
+export const FLOWCHART_NODE_KINDS: FlowchartNodeKind[] = ['start', 'end', 'process', 'decision', 'input-output', 'subprocess'];
+
+/**
+ * Validates a flowchart and repairs it: ids are made unique, unknown kinds become `process`, and
+ * edges to missing nodes are dropped. Structural problems (no start, unreachable nodes, decisions
+ * without labelled branches) are reported but left for the user to fix.
+ * @throws An `INVALID_MODEL` error if there are no nodes.
+ */
+export const validateFlowchart = (input: any): ModelResult<FlowchartData> => {
+    const { warnings, warn } = createWarningList();
+    const raw = input && typeof input === 'object' ? input : {};
+    const title = readTitle(raw, 'Untitled Flowchart', warn);
+
+    const nodeIds = createIdRegistry('node', warn);
+    const nodes: FlowchartNode[] = asArray(raw.nodes).map((item: any, i: number) => {
+        const label = isNonEmptyString(item?.label) ? item.label.trim() : isNonEmptyString(item?.id) ? item.id.trim() : `Step ${i + 1}`;
+        const id = nodeIds.claim(item?.id, label);
+        const kind = readEnum(item?.kind, FLOWCHART_NODE_KINDS, 'process', `Node "${id}" kind`, warn, id);
+        return { id, label, kind };
+    });
+    if (nodes.length === 0) throw invalidModel('The flowchart has no nodes.');
+
+    const edgeIds = createIdRegistry('edge', warn);
+    const edges: FlowchartEdge[] = [];
+    asArray(raw.edges).forEach((item: any, i: number) => {
+        const source = nodeIds.resolve(item?.source);
+        const target = nodeIds.resolve(item?.target);
+        if (!source || !target) {
+            warn('DANGLING_REFERENCE', `Edge ${i + 1} refers to an unknown node and was dropped.`, true);
+            return;
+        }
+        const id = edgeIds.claim(item?.id, `${source}-to-${target}`);
+        edges.push({ id, source, target, ...(isNonEmptyString(item?.label) ? { label: item.label.trim() } : {}) });
+    });
+
+    const starts = nodes.filter(node => node.kind === 'start');
+    if (starts.length === 0) {
+        warn('MISSING_FIELD', 'The flowchart has no start node.', false);
+    } else {
+        const reached = new Set(starts.map(node => node.id));
+        const queue = [...reached];
+        while (queue.length > 0) {
+            const current = queue.shift()!;
+            for (const edge of edges) {
+                if (edge.source === current && !reached.has(edge.target)) {
+                    reached.add(edge.target);
+                    queue.push(edge.target);
+                }
+            }
+        }
+        nodes.filter(node => !reached.has(node.id)).forEach(node =>
+            warn('UNREACHABLE_NODE', `"${node.label}" cannot be reached from a start node.`, false, node.id));
+    }
+
+    for (const node of nodes.filter(n => n.kind === 'decision')) {
+        const outgoing = edges.filter(edge => edge.source === node.id);
+        if (outgoing.length < 2) {
+            warn('DECISION_BRANCHES', `Decision "${node.label}" has ${outgoing.length} outgoing branch(es); a decision needs at least 2.`, false, node.id);
+        } else if (outgoing.some(edge => !edge.label)) {
+            warn('DECISION_BRANCHES', `Decision "${node.label}" has a branch without a condition label.`, false, node.id);
+        }
+    }
+
+    return { model: { title, nodes, edges }, warnings };
+};
@@ -0,0 +1,67 @@
+import { SequenceActivation, SequenceDiagramData, SequenceMessage, SequenceMessageType, SequenceParticipant, SequenceParticipantKind } from '../../types';
+import { ModelResult, asArray, createIdRegistry, createWarningList, invalidModel, isNonEmptyString, readEnum, readTitle } from './common';
+
+export const SEQUENCE_PARTICIPANT_KINDS: SequenceParticipantKind[] = ['actor', 'service', 'database', 'queue', 'external'];
+export const SEQUENCE_MESSAGE_TYPES: SequenceMessageType[] = ['sync', 'async', 'reply', 'self'];
+
+/**
+ * Validates a sequence diagram and repairs it: ids are made unique, unknown kinds and types get
+ * defaults, and messages or activations that point at missing elements are dropped.
+ * @throws An `INVALID_MODEL` error if there are no participants or no messages left.
+ */
+export const validateSequenceDiagram = (input: any): ModelResult<SequenceDiagramData> => {
+    const { warnings, warn } = createWarningList();
+    const raw = input && typeof input === 'object' ? input : {};
+    const title = readTitle(raw, 'Untitled Sequence Diagram', warn);
+
+    const participantIds = createIdRegistry('participant', warn);
+    const participants: SequenceParticipant[] = asArray(raw.participants).map((item: any, i: number) => {
+        const label = isNonEmptyString(item?.label) ? item.label.trim() : isNonEmptyString(item?.id) ? item.id.trim() : `Participant ${i + 1}`;
+        const id = participantIds.claim(item?.id, label);
+        const kind = readEnum(item?.kind, SEQUENCE_PARTICIPANT_KINDS, 'service', `Participant "${id}" kind`, warn, id);
+        return { id, label, kind };
+    });
+    if (participants.length === 0) throw invalidModel('The sequence diagram has no participants.');
+
+    const messageIds = createIdRegistry('message', warn);
+    const messages: SequenceMessage[] = [];
+    asArray(raw.messages).forEach((item: any, i: number) => {
+        const from = participantIds.resolve(item?.from);
+        const to = participantIds.resolve(item?.to);
+        if (!from || !to) {
+            warn('DANGLING_REFERENCE', `Message ${i + 1} refers to an unknown participant and was dropped.`, true);
+            return;
+        }
+        const id = messageIds.claim(item?.id, `message-${i + 1}`);
+        const label = isNonEmptyString(item?.label) ? item.label.trim() : '';
+        if (!label) warn('MISSING_FIELD', `Message "${id}" has no label.`, false, id);
+
+        let type = readEnum(item?.type, SEQUENCE_MESSAGE_TYPES, from === to ? 'self' : 'sync', `Message "${id}" type`, warn, id);
+        if ((type === 'self') !== (from === to)) {
+            const corrected = from === to ? 'self' : 'sync';
+            warn('INVALID_VALUE', `Message "${id}" is marked "${type}" but goes ${from === to ? 'to its sender' : 'between participants'}; "${corrected}" was used.`, true, id);
+            type = corrected;
+        }
+        messages.push({ id, from, to, label, type });
+    });
+    if (messages.length === 0) throw invalidModel('The sequence diagram has no valid messages.');
+
+    const order = new Map(messages.map((message, index) => [message.id, index]));
+    const activations: SequenceActivation[] = [];
+    asArray(raw.activations).forEach((item: any, i: number) => {
+        const participant = participantIds.resolve(item?.participant);
+        const startMessage = messageIds.resolve(item?.startMessage);
+        const endMessage = messageIds.resolve(item?.endMessage);
+        if (!participant || !startMessage || !endMessage) {
+            warn('DANGLING_REFERENCE', `Activation ${i + 1} refers to an unknown participant or message and was dropped.`, true);
+            return;
+        }
+        if (order.get(startMessage)! > order.get(endMessage)!) {
+            warn('INVALID_VALUE', `Activation ${i + 1} ends before it starts and was dropped.`, true);
+            return;
+        }
+        activations.push({ participant, startMessage, endMessage });
+    });
+
+    return { model: { title, participants, messages, activations }, warnings };
+};
@@ -0,0 +1,148 @@
+import { ArchNode, DiagramData, Link } from '../types';
+import { measureNode } from './layoutService';
+
+// Builds neural network diagrams from a layer specification instead of asking the model to
+// list every neuron and link. Layers wider than `maxNeuronsPerLayer` show their first and
+// last neurons with an ellipsis node in between, which keeps the link count bounded.
+
+export interface LayerSpec {
+    size: number;
+    name?: string;
+    activation?: string;
+}
+
+export interface NeuralNetworkSpec {
+    title: string;
+    layers: LayerSpec[];
+}
+
+export interface BuildOptions {
+    maxNeuronsPerLayer?: number;
+}
+
+export const DEFAULT_MAX_NEURONS_PER_LAYER = 10;
+export const MAX_NEURONS_PER_LAYER_LIMIT = 32;
+const MIN_NEURONS_PER_LAYER = 3;
+const MAX_LAYERS = 64;
+const MAX_LAYER_SIZE = 1_000_000;
+
+// --- LAYOUT CONSTANTS ---
+const CANVAS_MARGIN = 40;
+const NEURON_SIZE = 48;
+const NEURON_GAP = 24;       // Vertical space between neurons in a layer.
+const MIN_LAYER_PITCH = 200; // Horizontal distance between layer centers.
+const LABEL_GAP = 40;        // Space between the layer labels and the first neuron row.
+
+const invalid = (reason: string) => new Error(`INVALID_LAYER_SPEC: ${reason}`);
+
+/**
+ * Accepts `[4, 8, 2]`, `[{ size, name?, activation? }, ...]`, or `{ title?, layers }` with either form.
+ * @throws An `INVALID_LAYER_SPEC` error describing the first problem found.
+ */
+export const parseLayerSpec = (input: unknown, defaultTitle = 'Neural Network'): NeuralNetworkSpec => {
+    const container = input && typeof input === 'object' && !Array.isArray(input) ? input as Record<string, unknown> : null;
+    const rawLayers = container ? container.layers : input;
+    const title = container && typeof container.title === 'string' && container.title.trim() ? container.title.trim() : defaultTitle;
+
+    if (!Array.isArray(rawLayers)) throw invalid('"layers" must be an array.');
+    if (rawLayers.length < 2) throw invalid('A network needs at least an input and an output layer.');
+    if (rawLayers.length > MAX_LAYERS) throw invalid(`A network may have at most ${MAX_LAYERS} layers.`);
+
+    const layers = rawLayers.map((raw, i): LayerSpec => {
+        const layer = typeof raw === 'number' ? { size: raw } : raw;
+        if (!layer || typeof layer !== 'object') throw invalid(`Layer ${i} must be a number or an object with a "size".`);
+        const { size, name, activation } = layer as Record<string, unknown>;
+        if (typeof size !== 'number' || !Number.isInteger(size) || size < 1 || size > MAX_LAYER_SIZE) {
+            throw invalid(`Layer ${i} must have an integer size between 1 and ${MAX_LAYER_SIZE}.`);
+        }
+        if ((name !== undefined && name !== null && typeof name !== 'string') || (activation !== undefined && activation !== null && typeof activation !== 'string')) {
+            throw invalid(`Layer ${i} has a non-text "name" or "activation".`);
+        }
+        return {
+            size,
+            name: typeof name === 'string' && name.trim() ? name.trim() : undefined,
+            activation: typeof activation === 'string' && activation.trim() ? activation.trim() : undefined,
+        };
+    });
+    return { title, layers };
+};
+
+const defaultLayerName = (index: number, count: number) =>
+    index === 0 ? 'Input Layer' : index === count - 1 ? 'Output Layer' : `Hidden Layer ${index}`;
+
+const neuronLabel = (layerIndex: number, layerCount: number, neuronIndex: number) =>
+    layerIndex === 0 ? `x${neuronIndex + 1}`
+    : layerIndex === layerCount - 1 ? `y${neuronIndex + 1}`
+    : `h${layerIndex}.${neuronIndex + 1}`;
+
+// The neuron indices drawn for a layer; `null` marks where the ellipsis goes.
+const visibleNeurons = (size: number, maxVisible: number): Array<number | null> => {
+    if (size <= maxVisible) return Array.from({ length: size }, (_, i) => i);
+    const head = Math.ceil((maxVisible - 1) / 2);
+    const tail = maxVisible - 1 - head;
+    return [
+        ...Array.from({ length: head }, (_, i) => i),
+        null,
+        ...Array.from({ length: tail }, (_, i) => size - tail + i),
+    ];
+};
+
+/**
+ * Emits the neurons, layer labels, fully-connected links and positions for a layer spec.
+ */
+export const buildNeuralNetwork = (spec: NeuralNetworkSpec, options: BuildOptions = {}): DiagramData => {
+    const maxVisible = Math.min(MAX_NEURONS_PER_LAYER_LIMIT, Math.max(MIN_NEURONS_PER_LAYER, options.maxNeuronsPerLayer ?? DEFAULT_MAX_NEURONS_PER_LAYER));
+    const count = spec.layers.length;
+
+    const columns = spec.layers.map((layer, i) => {
+        const name = layer.name || defaultLayerName(i, count);
+        const label: ArchNode = {
+            id: `layer-${i}-label`,
+            label: `${name} (${layer.size}${layer.activation ? `, ${layer.activation}` : ''})`,
+            type: 'layer-label',
+            x: 0, y: 0, width: 0, height: 0,
+            layer: i,
+        };
+        Object.assign(label, measureNode(label));
+        return { layerIndex: i, label, slots: visibleNeurons(layer.size, maxVisible), size: layer.size };
+    });
+
+    const pitch = Math.max(MIN_LAYER_PITCH, ...columns.map(c => c.label.width + LABEL_GAP));
+    const labelHeight = Math.max(...columns.map(c => c.label.height));
+    const columnHeight = (slots: number) => slots * NEURON_SIZE + (slots - 1) * NEURON_GAP;
+    const tallest = Math.max(...columns.map(c => columnHeight(c.slots.length)));
+    const neuronsTop = CANVAS_MARGIN + labelHeight + LABEL_GAP;
+
+    const nodes: ArchNode[] = [];
+    const links: Link[] = [];
+    let previousIds: string[] = [];
+
+    for (const column of columns) {
+        const x = Math.round(CANVAS_MARGIN + pitch / 2 + column.layerIndex * pitch);
+        nodes.push({ ...column.label, x, y: CANVAS_MARGIN + labelHeight / 2 });
+
+        // Shorter layers are centered vertically against the tallest one.
+        const top = neuronsTop + (tallest - columnHeight(column.slots.length)) / 2;
+        const neuronIds: string[] = [];
+        column.slots.forEach((neuron, slot) => {
+            const y = Math.round(top + slot * (NEURON_SIZE + NEURON_GAP) + NEURON_SIZE / 2);
+            if (neuron === null) {
+                const hidden = column.size - (column.slots.length - 1);
+                nodes.push({ id: `layer-${column.layerIndex}-ellipsis`, label: `⋮ ${hidden} more`, type: 'layer-label', x, y, width: NEURON_SIZE * 2, height: NEURON_SIZE, layer: column.layerIndex });
+                return;
+            }
+            const id = `layer-${column.layerIndex}-neuron-${neuron + 1}`;
+            neuronIds.push(id);
+            nodes.push({ id, label: neuronLabel(column.layerIndex, count, neuron), type: 'neuron', shape: 'ellipse', x, y, width: NEURON_SIZE, height: NEURON_SIZE, layer: column.layerIndex });
+        });
+
+        for (const source of previousIds) {
+            for (const target of neuronIds) {
+                links.push({ id: `${source}-to-${target}`, source, target, thickness: 'thin' });
+            }
+        }
+        previousIds = neuronIds;
+    }
+
+    return { title: spec.title, architectureType: 'Neural Network', nodes, links };
+};
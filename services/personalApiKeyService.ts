@@ -0,0 +1,302 @@
+import crypto from 'crypto';
+import { User } from '@supabase/supabase-js';
+import { isUuid, supabaseAdmin } from '../supabaseClient';
+import { createLruCache } from './cache/lru';
+
+// Personal API keys for the public /v1 API. A user may hold several named keys; each is
+// stored as a SHA-256 hash plus a short visible prefix, so the full key only exists in the
+// response that created it:
+//   api_keys (id uuid pk default gen_random_uuid(), user_id uuid not null, name text, prefix text,
+//             key_hash text not null unique, scopes text[], created_at timestamptz default now(),
+//             expires_at timestamptz, last_used_at timestamptz, revoked_at timestamptz)
+//   create index api_keys_user_id_idx on api_keys (user_id);
+// The unique constraint on key_hash is the index authentication looks keys up by. Keys used
+// to live in the owner's app_metadata; those are moved into the table at startup (see
+// `migrateMetadataKeysInBackground`), on the owner's next key-management request, or all at
+// once with `migrateAllMetadataKeys`.
+
+export const API_KEY_SCOPES = [
+    'diagrams:generate', // Generating and editing diagrams, including the sequence, ER and flowchart modelers.
+    'diagrams:export',
+    'diagrams:read',     // Saved diagrams, revisions and share links.
+    'diagrams:write',
+    'charts:generate',
+] as const;
+
+export type ApiKeyScope = typeof API_KEY_SCOPES[number];
+
+export interface StoredApiKey {
+    id: string;
+    userId: string;
+    name: string;
+    // The first characters of the key, shown so users can tell their keys apart.
+    prefix: string;
+    hash: string;
+    scopes: ApiKeyScope[];
+    createdAt: string;
+    expiresAt: string | null;
+    lastUsedAt: string | null;
+    revokedAt: string | null;
+}
+
+export type ApiKeySummary = Omit<StoredApiKey, 'hash'>;
+
+export interface NewApiKeyOptions {
+    name?: unknown;
+    scopes?: unknown;
+    expiresAt?: unknown;
+}
+
+const KEY_PREFIX = 'cg_sk_';
+const VISIBLE_PREFIX_LENGTH = KEY_PREFIX.length + 6;
+const MAX_ACTIVE_KEYS = 10;
+// The name of the single key from before named keys, which the deprecated /user/api-key routes manage.
+export const LEGACY_KEY_NAME = 'Default key';
+const MAX_NAME_LENGTH = 64;
+// `lastUsedAt` is only rewritten when it is older than this, so busy keys don't write on every call.
+const LAST_USED_RESOLUTION_MS = 5 * 60 * 1000;
+const API_KEYS_TABLE = 'api_keys';
+// Authenticated keys are cached by hash. Revocation evicts the entry at once in this process;
+// the TTL bounds how long other instances (and plan changes) take to catch up.
+const OWNER_CACHE_SIZE = 1000;
+const OWNER_CACHE_TTL_MS = 60 * 1000;
+const USERS_PAGE_SIZE = 1000;
+const MIGRATION_RETRY_BASE_MS = 60 * 1000;
+const MIGRATION_RETRY_MAX_MS = 30 * 60 * 1000;
+
+const ownerCache = createLruCache<{ user: User; key: StoredApiKey }>(OWNER_CACHE_SIZE, OWNER_CACHE_TTL_MS);
+// Hashes revoked in this process, with their revocation time, kept for as long as a cache entry
+// lives. A lookup that read the key before it was revoked may still be in flight; this stops it
+// from caching (or serving) the key as active.
+const revokedHashes = createLruCache<string>(OWNER_CACHE_SIZE, OWNER_CACHE_TTL_MS);
+
+export const isApiKeyScope = (value: unknown): value is ApiKeyScope =>
+    typeof value === 'string' && (API_KEY_SCOPES as readonly string[]).includes(value);
+
+export const hashApiKey = (key: string): string => crypto.createHash('sha256').update(key).digest('hex');
+
+export const summarizeApiKey = ({ hash, ...summary }: StoredApiKey): ApiKeySummary => summary;
+
+export const isApiKeyActive = (key: ApiKeySummary, now = Date.now()): boolean =>
+    !key.revokedAt && (!key.expiresAt || Date.parse(key.expiresAt) > now);
+
+const metadataKeys = (user: User): StoredApiKey[] =>
+    Array.isArray(user.app_metadata?.api_keys) ? user.app_metadata.api_keys : [];
+
+const fromRow = (row: any): StoredApiKey => ({
+    id: row.id,
+    userId: row.user_id,
+    name: row.name,
+    prefix: row.prefix,
+    hash: row.key_hash,
+    scopes: (row.scopes || []).filter(isApiKeyScope),
+    createdAt: row.created_at,
+    expiresAt: row.expires_at,
+    lastUsedAt: row.last_used_at,
+    revokedAt: row.revoked_at,
+});
+
+const toRow = (userId: string, key: Omit<StoredApiKey, 'id' | 'userId'>) => ({
+    user_id: userId,
+    name: key.name,
+    prefix: key.prefix,
+    key_hash: key.hash,
+    scopes: key.scopes,
+    created_at: key.createdAt,
+    expires_at: key.expiresAt,
+    last_used_at: key.lastUsedAt,
+    revoked_at: key.revokedAt,
+});
+
+const newKeyRow = (userId: string, key: string, name: string, scopes: ApiKeyScope[], expiresAt: string | null) => toRow(userId, {
+    name,
+    prefix: key.slice(0, VISIBLE_PREFIX_LENGTH),
+    hash: hashApiKey(key),
+    scopes,
+    createdAt: new Date().toISOString(),
+    expiresAt,
+    lastUsedAt: null,
+    revokedAt: null,
+});
+
+/**
+ * Moves keys kept in app_metadata (named keys and the single plaintext `personal_api_key`
+ * from before them) into the table. The plaintext key gets every scope so existing
+ * integrations keep working.
+ */
+const migrateMetadataKeys = async (user: User): Promise<void> => {
+    const legacy = user.app_metadata?.personal_api_key;
+    const rows = metadataKeys(user).map(({ id, userId, ...key }) => toRow(user.id, key));
+    if (typeof legacy === 'string' && legacy) rows.push(newKeyRow(user.id, legacy, LEGACY_KEY_NAME, [...API_KEY_SCOPES], null));
+    if (rows.length === 0) return;
+
+    // Hashes are unique, so a retried migration doesn't duplicate keys.
+    const { error } = await supabaseAdmin.from(API_KEYS_TABLE).upsert(rows, { onConflict: 'key_hash', ignoreDuplicates: true });
+    if (error) throw error;
+    // Supabase merges app_metadata on update, so the old fields have to be cleared explicitly.
+    const appMetadata = { ...user.app_metadata, personal_api_key: null, api_keys: null };
+    const { error: updateError } = await supabaseAdmin.auth.admin.updateUserById(user.id, { app_metadata: appMetadata });
+    if (updateError) throw updateError;
+    user.app_metadata = appMetadata;
+    console.log(`[API Keys] Moved ${rows.length} key(s) of user ${user.id} out of app_metadata.`);
+};
+
+/**
+ * Runs `migrateMetadataKeys` for every user. Keys that are still in app_metadata don't authenticate.
+ * @returns The number of users whose keys were moved.
+ */
+export const migrateAllMetadataKeys = async (): Promise<number> => {
+    let migrated = 0;
+    for (let page = 1; ; page++) {
+        const { data: { users }, error } = await supabaseAdmin.auth.admin.listUsers({ page, perPage: USERS_PAGE_SIZE });
+        if (error) throw error;
+        for (const user of users) {
+            if (metadataKeys(user).length === 0 && !user.app_metadata?.personal_api_key) continue;
+            await migrateMetadataKeys(user);
+            migrated++;
+        }
+        if (users.length < USERS_PAGE_SIZE) return migrated;
+    }
+};
+
+/**
+ * Runs `migrateAllMetadataKeys` in the background, retrying with backoff until it succeeds.
+ * Called once at startup; authentication never waits for it.
+ */
+export const migrateMetadataKeysInBackground = (attempt = 1): void => {
+    migrateAllMetadataKeys()
+        .then(count => console.log(`[API Keys] Moved the API keys of ${count} user(s) out of app_metadata.`))
+        .catch(e => {
+            const delay = Math.min(MIGRATION_RETRY_BASE_MS * Math.pow(2, attempt - 1), MIGRATION_RETRY_MAX_MS);
+            console.error(`[API Keys] Failed to migrate API keys; retrying in ${Math.round(delay / 1000)}s: ${e.message}`);
+            setTimeout(() => migrateMetadataKeysInBackground(attempt + 1), delay).unref();
+        });
+};
+
+const fetchKeys = async (userId: string): Promise<StoredApiKey[]> => {
+    const { data, error } = await supabaseAdmin
+        .from(API_KEYS_TABLE)
+        .select('*')
+        .eq('user_id', userId)
+        .order('created_at', { ascending: true });
+    if (error) throw error;
+    return (data || []).map(fromRow);
+};
+
+export const listApiKeys = async (user: User): Promise<ApiKeySummary[]> => {
+    await migrateMetadataKeys(user);
+    return (await fetchKeys(user.id)).map(summarizeApiKey);
+};
+
+/**
+ * Creates a key. Scopes default to all scopes; `expiresAt` is an optional future ISO date.
+ * @returns The full key, which is not stored and cannot be retrieved again, and its summary.
+ * @throws An `INVALID_API_KEY_REQUEST` or `API_KEY_LIMIT_REACHED` error.
+ */
+export const createApiKey = async (user: User, options: NewApiKeyOptions): Promise<{ apiKey: string; key: ApiKeySummary }> => {
+    const { name, scopes = [...API_KEY_SCOPES], expiresAt = null } = options;
+    if (typeof name !== 'string' || !name.trim() || name.trim().length > MAX_NAME_LENGTH) {
+        throw new Error(`INVALID_API_KEY_REQUEST: "name" must be a non-empty string of at most ${MAX_NAME_LENGTH} characters.`);
+    }
+    if (!Array.isArray(scopes) || scopes.length === 0 || !scopes.every(isApiKeyScope)) {
+        throw new Error(`INVALID_API_KEY_REQUEST: "scopes" must be a non-empty list of: ${API_KEY_SCOPES.join(', ')}.`);
+    }
+    if (expiresAt !== null && (typeof expiresAt !== 'string' || !(Date.parse(expiresAt) > Date.now()))) {
+        throw new Error('INVALID_API_KEY_REQUEST: "expiresAt" must be an ISO date in the future.');
+    }
+
+    await migrateMetadataKeys(user);
+    const keys = await fetchKeys(user.id);
+    if (keys.filter(key => isApiKeyActive(key)).length >= MAX_ACTIVE_KEYS) {
+        throw new Error(`API_KEY_LIMIT_REACHED: You can have at most ${MAX_ACTIVE_KEYS} active API keys. Revoke one first.`);
+    }
+
+    const apiKey = `${KEY_PREFIX}${crypto.randomBytes(20).toString('hex')}`;
+    const row = newKeyRow(user.id, apiKey, name.trim(), Array.from(new Set(scopes)), expiresAt === null ? null : new Date(expiresAt).toISOString());
+    const { data, error } = await supabaseAdmin.from(API_KEYS_TABLE).insert(row).select().single();
+    if (error) throw error;
+    return { apiKey, key: summarizeApiKey(fromRow(data)) };
+};
+
+/**
+ * Revokes one key. Revoked keys stay listed, so users can see when they were last used.
+ * @throws An `API_KEY_NOT_FOUND` error.
+ */
+export const revokeApiKey = async (user: User, keyId: string): Promise<ApiKeySummary> => {
+    if (!isUuid(keyId)) throw new Error('API_KEY_NOT_FOUND: No API key with this id exists.');
+    await migrateMetadataKeys(user);
+    const { data: existing, error } = await supabaseAdmin
+        .from(API_KEYS_TABLE)
+        .select('*')
+        .eq('id', keyId)
+        .eq('user_id', user.id)
+        .maybeSingle();
+    if (error) throw error;
+    if (!existing) throw new Error('API_KEY_NOT_FOUND: No API key with this id exists.');
+    if (existing.revoked_at) {
+        ownerCache.delete(existing.key_hash);
+        return summarizeApiKey(fromRow(existing));
+    }
+
+    const revokedAt = new Date().toISOString();
+    revokedHashes.set(existing.key_hash, revokedAt);
+
+    const { data, error: updateError } = await supabaseAdmin
+        .from(API_KEYS_TABLE)
+        .update({ revoked_at: revokedAt })
+        .eq('id', keyId)
+        .select()
+        .single();
+    if (updateError) {
+        revokedHashes.delete(existing.key_hash);
+        throw updateError;
+    }
+    ownerCache.delete(existing.key_hash);
+    return summarizeApiKey(fromRow(data));
+};
+
+/**
+ * Finds the user and key record for a presented key, including revoked and expired keys so
+ * the caller can explain why it was rejected.
+ */
+export const findApiKeyOwner = async (apiKey: string): Promise<{ user: User; key: StoredApiKey } | null> => {
+    const hash = hashApiKey(apiKey);
+    const cached = ownerCache.get(hash);
+    if (cached && !revokedHashes.get(hash)) return cached;
+
+    const { data, error } = await supabaseAdmin.from(API_KEYS_TABLE).select('*').eq('key_hash', hash).maybeSingle();
+    if (error) throw error;
+    if (!data) return null;
+
+    const { data: { user }, error: userError } = await supabaseAdmin.auth.admin.getUserById(data.user_id);
+    if (userError) throw userError;
+    if (!user) return null;
+
+    // Checked after the reads, so a revocation that happened while they ran is seen.
+    const owner = { user, key: fromRow(data) };
+    const revokedAt = revokedHashes.get(hash);
+    if (revokedAt) {
+        owner.key.revokedAt = owner.key.revokedAt || revokedAt;
+    } else {
+        ownerCache.set(hash, owner);
+    }
+    return owner;
+};
+
+/**
+ * Whether `touchApiKey` would write, so callers can skip it for recently used keys.
+ */
+export const isLastUsedStale = (key: StoredApiKey, now = Date.now()): boolean =>
+    !key.lastUsedAt || now - Date.parse(key.lastUsedAt) >= LAST_USED_RESOLUTION_MS;
+
+/**
+ * Records that a key was used. The cached record is updated too, so the next requests within
+ * the resolution window don't write again.
+ */
+export const touchApiKey = async (key: StoredApiKey): Promise<void> => {
+    if (!isLastUsedStale(key)) return;
+    const lastUsedAt = new Date().toISOString();
+    key.lastUsedAt = lastUsedAt;
+    const { error } = await supabaseAdmin.from(API_KEYS_TABLE).update({ last_used_at: lastUsedAt }).eq('id', key.id);
+    if (error) throw error;
+};
@@ -0,0 +1,272 @@
+import { createHash } from 'crypto';
+import { supabaseAdmin } from '../supabaseClient';
+
+// Admin-managed prompt templates. Each template key has a built-in default (version 0) defined
+// in code, plus any number of stored versions:
+//   prompt_templates (id uuid pk, key text, version int, content text, description text, created_at;
+//                     unique (key, version))
+//   prompt_rollouts  (key text pk, allocations jsonb, updated_at)
+// A rollout splits traffic between versions by percentage. Keys without a rollout use the
+// built-in default, so creating a version never changes live traffic by itself.
+// Templates use `{{variable}}` placeholders.
+
+export interface PromptDefinition {
+    description: string;
+    // Whether the template is sent as the system instruction or as the user prompt.
+    role: 'system' | 'user';
+    variables: string[];
+    defaultContent: string;
+    // Schema the output of this prompt is generated against, used by the test endpoint.
+    schema?: any;
+}
+
+export interface PromptTemplateVersion {
+    key: string;
+    version: number;
+    content: string;
+    description: string | null;
+    created_at: string | null;
+}
+
+export interface RolloutAllocation {
+    version: number;
+    percent: number;
+}
+
+export interface PromptVersion {
+    key: string;
+    version: number;
+}
+
+export interface ResolvedPrompt extends PromptVersion {
+    content: string;
+}
+
+interface CachedPrompt {
+    allocations: RolloutAllocation[];
+    contents: Map<number, string>;
+    loadedAt: number;
+}
+
+const TEMPLATE_TABLE = 'prompt_templates';
+const ROLLOUT_TABLE = 'prompt_rollouts';
+const CACHE_TTL = 60 * 1000; // 1 minute
+const PLACEHOLDER = /\{\{\s*(\w+)\s*\}\}/g;
+
+const definitions = new Map<string, PromptDefinition>();
+const cache = new Map<string, CachedPrompt>();
+
+const notFound = (what: string) => new Error(`PROMPT_NOT_FOUND: ${what} was not found.`);
+const invalid = (reason: string) => new Error(`INVALID_PROMPT_TEMPLATE: ${reason}`);
+
+/**
+ * Registers a prompt template and its built-in default. Called once per key at module load.
+ */
+export const definePromptTemplate = (key: string, definition: PromptDefinition) => {
+    definitions.set(key, definition);
+};
+
+export const getPromptDefinition = (key: string): PromptDefinition => {
+    const definition = definitions.get(key);
+    if (!definition) throw notFound(`Prompt template '${key}'`);
+    return definition;
+};
+
+export const listPromptDefinitions = () => [...definitions.entries()].map(([key, definition]) => ({ key, ...definition }));
+
+export const renderTemplate = (content: string, variables: Record<string, unknown>): string =>
+    content.replace(PLACEHOLDER, (_, name: string) => {
+        const value = variables[name];
+        return value === undefined || value === null ? '' : String(value);
+    });
+
+const loadPrompt = async (key: string): Promise<CachedPrompt> => {
+    const cached = cache.get(key);
+    if (cached && Date.now() - cached.loadedAt < CACHE_TTL) return cached;
+
+    const { data: rollout, error: rolloutError } = await supabaseAdmin
+        .from(ROLLOUT_TABLE)
+        .select('allocations')
+        .eq('key', key)
+        .maybeSingle();
+    if (rolloutError) throw rolloutError;
+
+    const allocations: RolloutAllocation[] = rollout?.allocations || [];
+    const storedVersions = allocations.map(a => a.version).filter(v => v > 0);
+    const contents = new Map<number, string>();
+    if (storedVersions.length > 0) {
+        const { data, error } = await supabaseAdmin
+            .from(TEMPLATE_TABLE)
+            .select('version, content')
+            .eq('key', key)
+            .in('version', storedVersions);
+        if (error) throw error;
+        for (const row of data || []) contents.set(row.version, row.content);
+    }
+
+    const entry = { allocations, contents, loadedAt: Date.now() };
+    cache.set(key, entry);
+    return entry;
+};
+
+// Users land in a stable bucket per key, so they see the same version on every request.
+const bucketOf = (key: string, subjectId?: string | null): number =>
+    subjectId
+        ? parseInt(createHash('sha256').update(`${key}:${subjectId}`).digest('hex').slice(0, 8), 16) % 100
+        : Math.floor(Math.random() * 100);
+
+/**
+ * Picks the version of a template for this request according to its rollout and renders it.
+ * If the stored templates cannot be read, the built-in default is used.
+ * @param subjectId Usually the user id; requests without one are bucketed randomly.
+ */
+export const resolvePrompt = async (key: string, variables: Record<string, unknown> = {}, subjectId?: string | null): Promise<ResolvedPrompt> => {
+    const definition = getPromptDefinition(key);
+    let version = 0;
+    let content = definition.defaultContent;
+    try {
+        const { allocations, contents } = await loadPrompt(key);
+        const bucket = bucketOf(key, subjectId);
+        let cumulative = 0;
+        for (const allocation of allocations) {
+            cumulative += allocation.percent;
+            if (bucket < cumulative) {
+                const stored = contents.get(allocation.version);
+                if (allocation.version > 0 && stored === undefined) {
+                    console.warn(`[Prompts] Version ${allocation.version} of '${key}' is in the rollout but does not exist. Using the default.`);
+                    break;
+                }
+                version = allocation.version;
+                content = stored ?? definition.defaultContent;
+                break;
+            }
+        }
+    } catch (e: any) {
+        console.error(`[Prompts] Failed to load prompt '${key}', using the built-in default: ${e.message}`);
+    }
+    return { key, version, content: renderTemplate(content, variables) };
+};
+
+/**
+ * Lists the stored versions of a template, newest first, preceded by the built-in default as version 0.
+ */
+export const listPromptVersions = async (key: string): Promise<PromptTemplateVersion[]> => {
+    const definition = getPromptDefinition(key);
+    const { data, error } = await supabaseAdmin
+        .from(TEMPLATE_TABLE)
+        .select('key, version, content, description, created_at')
+        .eq('key', key)
+        .order('version', { ascending: false });
+    if (error) throw error;
+    return [
+        { key, version: 0, content: definition.defaultContent, description: 'Built-in default', created_at: null },
+        ...(data as PromptTemplateVersion[]),
+    ];
+};
+
+export const getPromptVersion = async (key: string, version: number): Promise<PromptTemplateVersion> => {
+    const definition = getPromptDefinition(key);
+    if (version === 0) {
+        return { key, version: 0, content: definition.defaultContent, description: 'Built-in default', created_at: null };
+    }
+    const { data, error } = await supabaseAdmin
+        .from(TEMPLATE_TABLE)
+        .select('key, version, content, description, created_at')
+        .eq('key', key)
+        .eq('version', version)
+        .maybeSingle();
+    if (error) throw error;
+    if (!data) throw notFound(`Version ${version} of '${key}'`);
+    return data as PromptTemplateVersion;
+};
+
+/**
+ * Checks that a template only uses the variables declared for its key.
+ * @throws An `INVALID_PROMPT_TEMPLATE` error listing the unknown placeholders.
+ */
+export const validateTemplate = (key: string, content: string) => {
+    const { variables } = getPromptDefinition(key);
+    if (!content.trim()) throw invalid('Template content must not be empty.');
+    const used = new Set<string>();
+    content.replace(PLACEHOLDER, (match, name: string) => {
+        used.add(name);
+        return match;
+    });
+    const unknown = [...used].filter(name => !variables.includes(name));
+    if (unknown.length > 0) {
+        const allowed = variables.length > 0 ? variables.join(', ') : 'none';
+        throw invalid(`Unknown variable(s) ${unknown.map(n => `{{${n}}}`).join(', ')}. Allowed: ${allowed}.`);
+    }
+};
+
+/**
+ * Stores a new version of a template. It receives no traffic until it is added to the rollout.
+ */
+export const createPromptVersion = async (key: string, content: string, description?: string): Promise<PromptTemplateVersion> => {
+    validateTemplate(key, content);
+    const { data: latest, error: latestError } = await supabaseAdmin
+        .from(TEMPLATE_TABLE)
+        .select('version')
+        .eq('key', key)
+        .order('version', { ascending: false })
+        .limit(1)
+        .maybeSingle();
+    if (latestError) throw latestError;
+
+    const { data, error } = await supabaseAdmin
+        .from(TEMPLATE_TABLE)
+        .insert({ key, version: (latest?.version ?? 0) + 1, content, description: description || null })
+        .select('key, version, content, description, created_at')
+        .single();
+    if (error) throw error;
+    return data as PromptTemplateVersion;
+};
+
+export const getRollout = async (key: string): Promise<RolloutAllocation[]> => {
+    getPromptDefinition(key);
+    const { data, error } = await supabaseAdmin
+        .from(ROLLOUT_TABLE)
+        .select('allocations')
+        .eq('key', key)
+        .maybeSingle();
+    if (error) throw error;
+    return data?.allocations || [];
+};
+
+/**
+ * Replaces the rollout of a template. Percentages must be positive and add up to 100; version 0
+ * is the built-in default. An empty list routes all traffic back to the default.
+ */
+export const setRollout = async (key: string, allocations: RolloutAllocation[]): Promise<RolloutAllocation[]> => {
+    getPromptDefinition(key);
+    if (!Array.isArray(allocations) || allocations.some(a => !a || !Number.isInteger(a.version) || a.version < 0 || typeof a.percent !== 'number' || !(a.percent > 0))) {
+        throw invalid('Each allocation needs a non-negative integer "version" and a positive "percent".');
+    }
+    const versions = allocations.map(a => a.version);
+    if (new Set(versions).size !== versions.length) {
+        throw invalid('A version may appear only once in a rollout.');
+    }
+    if (allocations.length > 0 && Math.abs(allocations.reduce((sum, a) => sum + a.percent, 0) - 100) > 1e-9) {
+        throw invalid('Rollout percentages must add up to 100.');
+    }
+
+    const storedVersions = versions.filter(v => v > 0);
+    if (storedVersions.length > 0) {
+        const { data, error } = await supabaseAdmin
+            .from(TEMPLATE_TABLE)
+            .select('version')
+            .eq('key', key)
+            .in('version', storedVersions);
+        if (error) throw error;
+        const missing = storedVersions.filter(v => !(data || []).some(row => row.version === v));
+        if (missing.length > 0) throw notFound(`Version(s) ${missing.join(', ')} of '${key}'`);
+    }
+
+    const cleaned = allocations.map(({ version, percent }) => ({ version, percent }));
+    const { error } = await supabaseAdmin
+        .from(ROLLOUT_TABLE)
+        .upsert({ key, allocations: cleaned, updated_at: new Date().toISOString() }, { onConflict: 'key' });
+    if (error) throw error;
+    cache.delete(key);
+    return cleaned;
+};
@@ -0,0 +1,84 @@
+import Anthropic from '@anthropic-ai/sdk';
+import { AiProvider, GenerationRequest, ProviderDetail, TokenUsage } from './types';
+import { ChatMessage, JSON_TOOL_NAME, toChatMessages, toJsonSchema } from './common';
+
+const DEFAULT_MAX_TOKENS = 8192;
+
+// The Messages API requires the conversation to start with a user turn and to
+// alternate roles, so leading assistant turns are dropped and consecutive turns merged.
+const toAnthropicMessages = (request: GenerationRequest): Anthropic.MessageParam[] => {
+    const messages: ChatMessage[] = [];
+    for (const message of toChatMessages(request)) {
+        if (messages.length === 0 && message.role === 'assistant') continue;
+        const previous = messages[messages.length - 1];
+        if (previous && previous.role === message.role) {
+            previous.content += `\n\n${message.content}`;
+        } else {
+            messages.push({ ...message });
+        }
+    }
+    return messages;
+};
+
+const buildAnthropicRequest = (config: ProviderDetail, request: GenerationRequest) => {
+    const { apiKey, model, baseURL } = config;
+    if (!apiKey || !model) throw new Error("Missing API key or model for Anthropic provider.");
+
+    const client = new Anthropic({ apiKey, baseURL: baseURL || undefined });
+    const params: Anthropic.MessageCreateParamsNonStreaming = {
+        model,
+        max_tokens: config.maxTokens || DEFAULT_MAX_TOKENS,
+        messages: toAnthropicMessages(request),
+    };
+    // An empty system prompt is rejected by the API.
+    if (request.systemInstruction) {
+        params.system = request.systemInstruction;
+    }
+    // Structured output is obtained by forcing a single tool call whose input schema is the
+    // response schema; the tool input is then returned as the JSON result.
+    if (request.schema) {
+        params.tools = [{
+            name: JSON_TOOL_NAME,
+            description: 'Submit the requested JSON object.',
+            input_schema: toJsonSchema(request.schema) as Anthropic.Tool.InputSchema,
+        }];
+        params.tool_choice = { type: 'tool', name: JSON_TOOL_NAME };
+    }
+    return { client, params };
+};
+
+export const anthropicProvider: AiProvider = {
+    requiresApiKey: true,
+    generate: async (request, config) => {
+        const { client, params } = buildAnthropicRequest(config, request);
+        const response = await client.messages.create(params);
+        const usage: TokenUsage = { promptTokens: response.usage.input_tokens, completionTokens: response.usage.output_tokens };
+        const toolUse = response.content.find((block): block is Anthropic.ToolUseBlock => block.type === 'tool_use');
+        if (toolUse) return { text: JSON.stringify(toolUse.input), usage };
+        const text = response.content
+            .filter((block): block is Anthropic.TextBlock => block.type === 'text')
+            .map(block => block.text)
+            .join('');
+        return { text, usage };
+    },
+    stream: async (request, config, options) => {
+        const { client, params } = buildAnthropicRequest(config, request);
+        const stream = await client.messages.create({ ...params, stream: true }, { signal: options.signal });
+        let text = '';
+        const usage: TokenUsage = { promptTokens: 0, completionTokens: 0 };
+        for await (const event of stream) {
+            // Input tokens are reported when the message starts, output tokens as it ends.
+            if (event.type === 'message_start') usage.promptTokens = event.message.usage.input_tokens;
+            if (event.type === 'message_delta') usage.completionTokens = event.usage.output_tokens;
+            if (event.type !== 'content_block_delta') continue;
+            // With a forced tool call the JSON arrives as `input_json_delta` fragments.
+            const delta = event.delta.type === 'text_delta' ? event.delta.text
+                : event.delta.type === 'input_json_delta' ? event.delta.partial_json
+                : '';
+            if (!delta) continue;
+            text += delta;
+            options.onChunk(delta);
+        }
+        return { text, usage };
+    },
+};
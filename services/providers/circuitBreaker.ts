@@ -0,0 +1,75 @@
+import { ProviderName } from './index';
+
+export interface CircuitBreakerSettings {
+    // Consecutive failures after which the provider is skipped.
+    failureThreshold: number;
+    // How long a tripped provider is skipped before a single probe request is let through.
+    cooldownSeconds: number;
+}
+
+export const DEFAULT_CIRCUIT_BREAKER: CircuitBreakerSettings = {
+    failureThreshold: 3,
+    cooldownSeconds: 60,
+};
+
+interface CircuitState {
+    consecutiveFailures: number;
+    openedAt: number | null;
+    probeInFlight: boolean;
+}
+
+// Per-process state; each server instance learns provider health on its own.
+const circuits = new Map<ProviderName, CircuitState>();
+
+const stateOf = (provider: ProviderName): CircuitState => {
+    let state = circuits.get(provider);
+    if (!state) {
+        state = { consecutiveFailures: 0, openedAt: null, probeInFlight: false };
+        circuits.set(provider, state);
+    }
+    return state;
+};
+
+/**
+ * Decides whether a request may be sent to the provider. A tripped ("open") circuit rejects
+ * requests until its cooldown has passed; after that exactly one probe is allowed through.
+ */
+export const tryAcquire = (provider: ProviderName, settings: CircuitBreakerSettings): boolean => {
+    const state = stateOf(provider);
+    if (state.openedAt === null) return true;
+    if (state.probeInFlight) return false;
+    if (Date.now() - state.openedAt < settings.cooldownSeconds * 1000) return false;
+    state.probeInFlight = true;
+    console.log(`[CircuitBreaker] Cooldown over for '${provider}'. Sending a probe request.`);
+    return true;
+};
+
+export const recordSuccess = (provider: ProviderName) => {
+    const state = stateOf(provider);
+    if (state.openedAt !== null) {
+        console.log(`[CircuitBreaker] '${provider}' recovered. Closing circuit.`);
+    }
+    state.consecutiveFailures = 0;
+    state.openedAt = null;
+    state.probeInFlight = false;
+};
+
+export const recordFailure = (provider: ProviderName, settings: CircuitBreakerSettings) => {
+    const state = stateOf(provider);
+    state.consecutiveFailures += 1;
+    // A failed probe re-opens the circuit for another full cooldown.
+    if (state.probeInFlight || state.consecutiveFailures >= settings.failureThreshold) {
+        if (state.openedAt === null || state.probeInFlight) {
+            console.warn(`[CircuitBreaker] '${provider}' failed ${state.consecutiveFailures} time(s) in a row. Skipping it for ${settings.cooldownSeconds}s.`);
+        }
+        state.openedAt = Date.now();
+        state.probeInFlight = false;
+    }
+};
+
+/**
+ * Releases a probe slot without judging the provider, e.g. when the client disconnected mid-request.
+ */
+export const releaseProbe = (provider: ProviderName) => {
+    stateOf(provider).probeInFlight = false;
+};
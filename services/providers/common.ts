@@ -0,0 +1,52 @@
+import { GenerationRequest } from './types';
+
+export interface ChatMessage {
+    role: 'user' | 'assistant';
+    content: string;
+}
+
+/**
+ * Converts the request's Gemini-style history (or the lone prompt) into chat messages.
+ */
+export const toChatMessages = (request: GenerationRequest): ChatMessage[] => {
+    if (request.history.length === 0) {
+        return [{ role: 'user', content: request.userPrompt }];
+    }
+    return request.history.map((h: any) => ({
+        role: h.role === 'model' ? 'assistant' : 'user',
+        content: h.parts[0].text,
+    }));
+};
+
+/**
+ * Converts a `@google/genai` `Type` schema (upper-case type names) into standard JSON Schema.
+ */
+export const toJsonSchema = (schema: any): any => {
+    if (!schema || typeof schema !== 'object') return schema;
+    const jsonSchema: any = {};
+    if (schema.type) {
+        const type = String(schema.type).toLowerCase();
+        jsonSchema.type = schema.nullable ? [type, 'null'] : type;
+    }
+    if (schema.description) jsonSchema.description = schema.description;
+    if (schema.enum) jsonSchema.enum = schema.enum;
+    if (schema.items) jsonSchema.items = toJsonSchema(schema.items);
+    if (schema.properties) {
+        jsonSchema.properties = Object.fromEntries(
+            Object.entries(schema.properties).map(([key, value]) => [key, toJsonSchema(value)])
+        );
+    }
+    if (schema.required) jsonSchema.required = schema.required;
+    return jsonSchema;
+};
+
+// Providers without native schema enforcement get the requirement spelled out in the prompt.
+// The schema itself is included when nothing else tells the model what shape to produce.
+export const withJsonInstruction = (systemInstruction: string, schema: any | null, includeSchema = false) =>
+    schema
+        ? `${systemInstruction}\n\nYou MUST respond with a valid JSON object that strictly adheres to the provided schema. Do not include any explanatory text, markdown formatting, or any characters outside of the JSON object itself.`
+            + (includeSchema ? `\n\nJSON schema:\n${JSON.stringify(toJsonSchema(schema))}` : '')
+        : systemInstruction;
+
+// Name of the function/tool that providers are forced to call to return structured output.
+export const JSON_TOOL_NAME = 'submit_response';
@@ -0,0 +1,107 @@
+import { GenerateContentResponseUsageMetadata, GoogleGenAI } from "@google/genai";
+import { AiProvider, GenerationRequest, ProviderDetail, TokenUsage } from './types';
+import { ClassifiedGeminiError, classifyGeminiError, orderKeysForRequest, recordKeyAttempt, recordKeyFailure, recordKeySuccess } from './geminiKeyPool';
+
+export const parseKeyPool = (apiKeyPoolOrKey: string): string[] =>
+    (apiKeyPoolOrKey || '').split(',').map(k => k.trim()).filter(Boolean);
+
+/**
+ * Tries the request with each usable key until one succeeds. Shared pool keys are
+ * health-tracked; a key supplied by the user is simply used as-is.
+ * @param canRetry Whether another key may still be tried after a failure (false once streaming output was sent).
+ */
+const runWithKeyFailover = async <T>(
+    config: ProviderDetail,
+    attempt: (ai: GoogleGenAI) => Promise<T>,
+    canRetry: () => boolean
+): Promise<T> => {
+    const pool = parseKeyPool(config.apiKeyPool || config.apiKey || '');
+    if (pool.length === 0) {
+        throw new Error("No Gemini API keys were provided or configured.");
+    }
+    const tracked = !config.isUserKey;
+    const keys = tracked ? orderKeysForRequest(pool, config.keyDailyLimit) : pool;
+    if (keys.length === 0) {
+        console.error(`[aiService] All ${pool.length} Gemini key(s) are cooling down, invalid or over their daily limit.`);
+        throw new Error('SHARED_KEY_QUOTA_EXCEEDED');
+    }
+
+    let lastError: any = null;
+    let lastClassified: ClassifiedGeminiError | null = null;
+
+    for (const key of keys) {
+        if (tracked) recordKeyAttempt(key);
+        try {
+            const result = await attempt(new GoogleGenAI({ apiKey: key }));
+            if (tracked) recordKeySuccess(key);
+            console.log(`[aiService] Successfully used a Gemini key (last 4: ...${key.slice(-4)})`);
+            return result;
+        } catch (e: any) {
+            const classified = classifyGeminiError(e);
+            if (tracked) recordKeyFailure(key, classified, e.message || '');
+            lastError = e;
+            lastClassified = classified;
+            if (!canRetry()) throw e;
+
+            console.error(`[aiService] Gemini key ending in ...${key.slice(-4)} failed (${classified.kind}). Error: ${e.message}. Trying next key...`);
+            if (!classified.recoverable) {
+                console.error(`[aiService] Unrecoverable error encountered. Stopping retry loop.`);
+                break;
+            }
+        }
+    }
+
+    // If the loop completes without success, format and throw the final error.
+    if (lastClassified?.kind === 'rate-limited' || lastClassified?.kind === 'quota-exhausted') {
+        throw new Error('SHARED_KEY_QUOTA_EXCEEDED');
+    }
+    throw new Error(`All available Gemini API keys failed. Last error: ${lastError?.message}`);
+};
+
+const toTokenUsage = (metadata: GenerateContentResponseUsageMetadata | undefined): TokenUsage | undefined =>
+    metadata ? { promptTokens: metadata.promptTokenCount ?? 0, completionTokens: metadata.candidatesTokenCount ?? 0 } : undefined;
+
+const buildGeminiPayload = ({ systemInstruction, userPrompt, schema, history }: GenerationRequest) => ({
+    contents: history.length > 0 ? history : { parts: [{ text: userPrompt }] },
+    config: schema ? { systemInstruction, responseMimeType: "application/json", responseSchema: schema } : { systemInstruction },
+});
+
+export const geminiProvider: AiProvider = {
+    requiresApiKey: true,
+    generate: (request, config) => {
+        const requestPayload = buildGeminiPayload(request);
+        return runWithKeyFailover(config, async ai => {
+            const response = await ai.models.generateContent({ model: config.model!, ...requestPayload });
+            return { text: response.text || null, usage: toTokenUsage(response.usageMetadata) };
+        }, () => true);
+    },
+    stream: (request, config, options) => {
+        const requestPayload = buildGeminiPayload(request);
+        // Failing over is only safe until the first chunk has reached the client.
+        let emitted = false;
+        return runWithKeyFailover(config, async ai => {
+            const stream = await ai.models.generateContentStream({
+                model: config.model!,
+                ...requestPayload,
+                config: { ...requestPayload.config, abortSignal: options.signal },
+            });
+            let text = '';
+            let usage: TokenUsage | undefined;
+            for await (const chunk of stream) {
+                // Usage is cumulative; the last chunk carries the totals.
+                usage = toTokenUsage(chunk.usageMetadata) ?? usage;
+                const delta = chunk.text;
+                if (!delta) continue;
+                text += delta;
+                emitted = true;
+                options.onChunk(delta);
+            }
+            return { text: text || null, usage };
+        }, () => !emitted && !options.signal?.aborted);
+    },
+    embed: (texts, config) =>
+        runWithKeyFailover(config, async ai => {
+            const response = await ai.models.embedContent({ model: config.model!, contents: texts });
+            return (response.embeddings || []).map(embedding => embedding.values || []);
+        }, () => true),
+};
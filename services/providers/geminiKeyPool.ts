@@ -0,0 +1,200 @@
+// Tracks the health of every Gemini key in the shared pool and decides which keys a request
+// may use. State is per process and is keyed by the full key, which never leaves this module;
+// reports identify keys by their last 4 characters only.
+
+export type KeyStatus = 'healthy' | 'rate-limited' | 'exhausted' | 'invalid';
+
+export type GeminiErrorKind = 'invalid-key' | 'rate-limited' | 'quota-exhausted' | 'server-error' | 'request-error' | 'network-error';
+
+export interface ClassifiedGeminiError {
+    kind: GeminiErrorKind;
+    // Whether trying another key could succeed.
+    recoverable: boolean;
+    // For rate limits, how long the API asked us to wait.
+    retryAfterMs?: number;
+}
+
+export interface KeyHealth {
+    key: string;
+    status: KeyStatus;
+    cooldownUntil: string | null;
+    requestsToday: number;
+    successCount: number;
+    failureCount: number;
+    consecutiveFailures: number;
+    lastError: string | null;
+    lastUsedAt: string | null;
+}
+
+interface KeyState {
+    status: KeyStatus;
+    cooldownUntil: number;
+    usageDay: string;
+    requestsToday: number;
+    successCount: number;
+    failureCount: number;
+    consecutiveFailures: number;
+    lastError: string | null;
+    lastUsedAt: number | null;
+}
+
+const DEFAULT_RATE_LIMIT_COOLDOWN_MS = 60 * 1000;
+// Invalid keys are re-tried occasionally in case they were re-enabled in the console.
+const INVALID_KEY_COOLDOWN_MS = 60 * 60 * 1000;
+
+const keyStates = new Map<string, KeyState>();
+
+// Module-level index to implement a round-robin strategy for key selection.
+// This ensures concurrent requests are distributed across the key pool.
+// Initialize with a random value to prevent "thundering herd" on the first key
+// when multiple server instances start up simultaneously.
+let currentKeyIndex = Math.floor(Math.random() * 100);
+
+const utcDay = (time: number) => new Date(time).toISOString().slice(0, 10);
+
+const stateOf = (key: string): KeyState => {
+    const today = utcDay(Date.now());
+    let state = keyStates.get(key);
+    if (!state) {
+        state = { status: 'healthy', cooldownUntil: 0, usageDay: today, requestsToday: 0, successCount: 0, failureCount: 0, consecutiveFailures: 0, lastError: null, lastUsedAt: null };
+        keyStates.set(key, state);
+    }
+    if (state.usageDay !== today) {
+        state.usageDay = today;
+        state.requestsToday = 0;
+    }
+    // A key whose cooldown has passed gets another chance.
+    if (state.status !== 'healthy' && state.cooldownUntil <= Date.now()) {
+        state.status = 'healthy';
+    }
+    return state;
+};
+
+// Gemini's daily quotas reset at midnight Pacific time; 08:00 UTC is used as a conservative approximation.
+const nextDailyReset = (now: number): number => {
+    const reset = new Date(now);
+    reset.setUTCHours(8, 0, 0, 0);
+    if (reset.getTime() <= now) reset.setUTCDate(reset.getUTCDate() + 1);
+    return reset.getTime();
+};
+
+// The SDK puts the JSON error body in the message, sometimes after a "got status: ..." prefix.
+const parseErrorBody = (message: string): any => {
+    const start = message.indexOf('{');
+    if (start === -1) return null;
+    try {
+        return JSON.parse(message.slice(start)).error ?? null;
+    } catch {
+        return null;
+    }
+};
+
+const parseDuration = (value: unknown): number | undefined => {
+    if (typeof value !== 'string') return undefined;
+    const seconds = parseFloat(value);
+    return isNaN(seconds) ? undefined : Math.ceil(seconds * 1000);
+};
+
+/**
+ * Classifies a Gemini SDK error from its HTTP status and the `google.rpc` details in its body.
+ */
+export const classifyGeminiError = (e: any): ClassifiedGeminiError => {
+    const status: number | undefined = typeof e?.status === 'number' ? e.status : undefined;
+    if (status === undefined) {
+        return { kind: 'network-error', recoverable: true };
+    }
+
+    const details: any[] = parseErrorBody(e.message || '')?.details || [];
+    const detailOfType = (type: string) => details.find(d => typeof d?.['@type'] === 'string' && d['@type'].endsWith(type));
+
+    if (status === 401 || status === 403 || detailOfType('google.rpc.ErrorInfo')?.reason === 'API_KEY_INVALID') {
+        return { kind: 'invalid-key', recoverable: true };
+    }
+    if (status === 429) {
+        const retryAfterMs = parseDuration(detailOfType('google.rpc.RetryInfo')?.retryDelay);
+        const violations: any[] = detailOfType('google.rpc.QuotaFailure')?.violations || [];
+        const isDaily = violations.some(v => typeof v?.quotaId === 'string' && /PerDay/i.test(v.quotaId));
+        return { kind: isDaily ? 'quota-exhausted' : 'rate-limited', recoverable: true, retryAfterMs };
+    }
+    if (status >= 500) {
+        return { kind: 'server-error', recoverable: true };
+    }
+    return { kind: 'request-error', recoverable: false };
+};
+
+/**
+ * Returns the keys a request may use, in the order they should be tried. Keys that are
+ * cooling down, invalid, or over their daily limit are left out.
+ * @param dailyLimit Optional per-key request limit for the current UTC day.
+ */
+export const orderKeysForRequest = (keys: string[], dailyLimit?: number): string[] => {
+    // --- ROUND-ROBIN & FAILOVER LOGIC ---
+    // 1. Get the starting index for this specific request.
+    const startIndex = currentKeyIndex;
+    // 2. Immediately update the global index for the *next* request that comes in.
+    currentKeyIndex = (currentKeyIndex + 1) % keys.length;
+    // 3. Every usable key is tried once, starting from our round-robin index.
+    return keys
+        .map((_, i) => keys[(startIndex + i) % keys.length])
+        .filter(key => {
+            const state = stateOf(key);
+            return state.status === 'healthy' && (!dailyLimit || state.requestsToday < dailyLimit);
+        });
+};
+
+export const recordKeyAttempt = (key: string) => {
+    const state = stateOf(key);
+    state.requestsToday += 1;
+    state.lastUsedAt = Date.now();
+};
+
+export const recordKeySuccess = (key: string) => {
+    const state = stateOf(key);
+    state.successCount += 1;
+    state.consecutiveFailures = 0;
+};
+
+/**
+ * Records a failed call. Only failures that are the key's fault put it into a cooldown;
+ * server and request errors are counted but leave the key usable.
+ */
+export const recordKeyFailure = (key: string, error: ClassifiedGeminiError, message: string) => {
+    const state = stateOf(key);
+    const now = Date.now();
+    state.failureCount += 1;
+    state.consecutiveFailures += 1;
+    state.lastError = `${error.kind}: ${message.slice(0, 200)}`;
+
+    if (error.kind === 'invalid-key') {
+        state.status = 'invalid';
+        state.cooldownUntil = now + INVALID_KEY_COOLDOWN_MS;
+    } else if (error.kind === 'quota-exhausted') {
+        state.status = 'exhausted';
+        state.cooldownUntil = nextDailyReset(now);
+    } else if (error.kind === 'rate-limited') {
+        state.status = 'rate-limited';
+        state.cooldownUntil = now + (error.retryAfterMs ?? DEFAULT_RATE_LIMIT_COOLDOWN_MS);
+    }
+    if (state.status !== 'healthy') {
+        console.warn(`[KeyPool] Gemini key ...${key.slice(-4)} is ${state.status} until ${new Date(state.cooldownUntil).toISOString()}.`);
+    }
+};
+
+/**
+ * Reports the health of the given keys, identified by their last 4 characters.
+ */
+export const getKeyHealth = (keys: string[]): KeyHealth[] =>
+    keys.map(key => {
+        const state = stateOf(key);
+        return {
+            key: `...${key.slice(-4)}`,
+            status: state.status,
+            cooldownUntil: state.status === 'healthy' ? null : new Date(state.cooldownUntil).toISOString(),
+            requestsToday: state.requestsToday,
+            successCount: state.successCount,
+            failureCount: state.failureCount,
+            consecutiveFailures: state.consecutiveFailures,
+            lastError: state.lastError,
+            lastUsedAt: state.lastUsedAt ? new Date(state.lastUsedAt).toISOString() : null,
+        };
+    });
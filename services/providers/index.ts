@@ -0,0 +1,21 @@
+import { AiProvider } from './types';
+import { geminiProvider } from './gemini';
+import { deepSeekProvider, openAIProvider } from './openaiCompatible';
+import { anthropicProvider } from './anthropic';
+import { ollamaProvider } from './ollama';
+
+export type ProviderName = 'gemini' | 'openai' | 'deepseek' | 'anthropic' | 'ollama';
+
+// Registry of the providers an admin can select as `activeProvider`.
+export const PROVIDERS: Record<ProviderName, AiProvider> = {
+    gemini: geminiProvider,
+    openai: openAIProvider,
+    deepseek: deepSeekProvider,
+    anthropic: anthropicProvider,
+    ollama: ollamaProvider,
+};
+
+export const PROVIDER_NAMES = Object.keys(PROVIDERS) as ProviderName[];
+
+export const isProviderName = (value: unknown): value is ProviderName =>
+    typeof value === 'string' && (PROVIDER_NAMES as string[]).includes(value);
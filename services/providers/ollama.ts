@@ -0,0 +1,13 @@
+import { createOpenAICompatibleProvider } from './openaiCompatible';
+
+/**
+ * Adapter for a local model server. Both Ollama and the llama.cpp server expose an
+ * OpenAI-compatible endpoint and accept a JSON schema in `response_format`, which
+ * constrains decoding so small local models still return valid diagram JSON.
+ * Point `baseURL` at `http://localhost:8080/v1` to use llama.cpp instead of Ollama.
+ */
+export const ollamaProvider = createOpenAICompatibleProvider({
+    requiresApiKey: false,
+    defaultBaseURL: 'http://localhost:11434/v1',
+    defaultStructuredOutput: () => 'json_schema',
+});
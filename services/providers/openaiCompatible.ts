@@ -0,0 +1,129 @@
+import OpenAI, { ClientOptions } from 'openai';
+import { AiProvider, GenerationRequest, ProviderDetail, StreamOptions, StructuredOutputMode, TokenUsage } from './types';
+import { JSON_TOOL_NAME, toChatMessages, toJsonSchema, withJsonInstruction } from './common';
+
+interface OpenAICompatibleOptions {
+    requiresApiKey: boolean;
+    // Used when the admin has not configured a base URL.
+    defaultBaseURL?: string;
+    // Each server supports a different flavour of structured output; `structuredOutput` in the config overrides this.
+    defaultStructuredOutput: (model: string) => StructuredOutputMode;
+}
+
+const createClient = (providerConfig: ProviderDetail, options: OpenAICompatibleOptions) => {
+    const { apiKey, model } = providerConfig;
+    const baseURL = providerConfig.baseURL || options.defaultBaseURL;
+    if ((options.requiresApiKey && !apiKey) || !model) throw new Error("Missing API key or model for OpenAI-compatible provider.");
+
+    const openAiConfig: ClientOptions = {
+        // The SDK insists on a key even for servers that ignore it.
+        apiKey: apiKey || 'not-needed',
+        baseURL: baseURL || undefined, // Use baseURL from config, otherwise default (OpenAI)
+    };
+
+    // Add OpenRouter specific headers only if the baseURL matches
+    if (baseURL?.includes('openrouter.ai')) {
+        openAiConfig.defaultHeaders = {
+            'HTTP-Referer': process.env.SITE_URL || 'https://cubegenai.com',
+            'X-Title': 'CubeGen AI',
+        };
+    }
+
+    return { openai: new OpenAI(openAiConfig), model };
+};
+
+const buildOpenAIRequest = (providerConfig: ProviderDetail, request: GenerationRequest, options: OpenAICompatibleOptions) => {
+    const { openai, model } = createClient(providerConfig, options);
+    const mode: StructuredOutputMode = request.schema ? providerConfig.structuredOutput || options.defaultStructuredOutput(model) : 'none';
+
+    const messages: OpenAI.Chat.Completions.ChatCompletionMessageParam[] = [
+        { role: 'system', content: withJsonInstruction(request.systemInstruction, request.schema, mode === 'json_object' || mode === 'none') },
+        ...toChatMessages(request),
+    ];
+
+    const completionConfig: OpenAI.Chat.Completions.ChatCompletionCreateParamsNonStreaming = {
+        model,
+        messages,
+    };
+
+    if (mode === 'json_schema') {
+        completionConfig.response_format = {
+            type: 'json_schema',
+            json_schema: { name: 'response', schema: toJsonSchema(request.schema) },
+        };
+    } else if (mode === 'json_object') {
+        completionConfig.response_format = { type: 'json_object' };
+    } else if (mode === 'tool') {
+        completionConfig.tools = [{
+            type: 'function',
+            function: { name: JSON_TOOL_NAME, description: 'Submit the requested JSON object.', parameters: toJsonSchema(request.schema) },
+        }];
+        completionConfig.tool_choice = { type: 'function', function: { name: JSON_TOOL_NAME } };
+    }
+
+    return { openai, completionConfig, mode };
+};
+
+const toTokenUsage = (usage: OpenAI.CompletionUsage | null | undefined): TokenUsage | undefined =>
+    usage ? { promptTokens: usage.prompt_tokens, completionTokens: usage.completion_tokens } : undefined;
+
+/**
+ * Creates an adapter for servers that implement OpenAI's chat completions API.
+ */
+export const createOpenAICompatibleProvider = (options: OpenAICompatibleOptions): AiProvider => ({
+    requiresApiKey: options.requiresApiKey,
+    generate: async (request, config) => {
+        const { openai, completionConfig, mode } = buildOpenAIRequest(config, request, options);
+        const response = await openai.chat.completions.create(completionConfig);
+        const message = response.choices[0].message;
+        const usage = toTokenUsage(response.usage);
+        if (mode === 'tool') {
+            const call = message.tool_calls?.find(c => c.type === 'function');
+            return { text: call?.type === 'function' ? call.function.arguments : message.content || '', usage };
+        }
+        return { text: message.content || '', usage };
+    },
+    stream: async (request: GenerationRequest, config: ProviderDetail, streamOptions: StreamOptions) => {
+        const { openai, completionConfig, mode } = buildOpenAIRequest(config, request, options);
+        const stream = await openai.chat.completions.create(
+            // Usage is only reported for streams when asked for, in a final chunk without choices.
+            { ...completionConfig, stream: true, stream_options: { include_usage: true } },
+            { signal: streamOptions.signal }
+        );
+        let text = '';
+        let usage: TokenUsage | undefined;
+        for await (const chunk of stream) {
+            usage = toTokenUsage(chunk.usage) ?? usage;
+            const delta = chunk.choices[0]?.delta;
+            // With a forced function call the JSON arrives as argument fragments.
+            const fragment = mode === 'tool' ? delta?.tool_calls?.[0]?.function?.arguments : delta?.content;
+            if (!fragment) continue;
+            text += fragment;
+            streamOptions.onChunk(fragment);
+        }
+        return { text, usage };
+    },
+    embed: async (texts, config) => {
+        const { openai, model } = createClient(config, options);
+        // The SDK asks for base64 by default, which not every compatible server supports.
+        const response = await openai.embeddings.create({ model, input: texts, encoding_format: 'float' });
+        return [...response.data].sort((a, b) => a.index - b.index).map(item => item.embedding);
+    },
+});
+
+// Models that accept `json_schema` response formats; older GPT models only have JSON mode.
+const SCHEMA_CAPABLE_MODEL = /^(gpt-4o|gpt-4\.1|gpt-5|o\d)/;
+
+export const openAIProvider = createOpenAICompatibleProvider({
+    requiresApiKey: true,
+    defaultStructuredOutput: model =>
+        SCHEMA_CAPABLE_MODEL.test(model) ? 'json_schema'
+        : model.includes('gpt-4') || model.includes('gpt-3.5') ? 'json_object'
+        : 'none',
+});
+
+// DeepSeek supports JSON mode but not JSON schemas.
+export const deepSeekProvider = createOpenAICompatibleProvider({
+    requiresApiKey: true,
+    defaultStructuredOutput: () => 'json_object',
+});
@@ -0,0 +1,63 @@
+// Validates model output against the `@google/genai` `Type` schemas used for generation,
+// so every provider is held to the same contract that Gemini enforces natively.
+
+const MAX_ERRORS = 20;
+
+const describe = (value: unknown): string =>
+    value === null ? 'null' : Array.isArray(value) ? 'array' : typeof value;
+
+const matchesType = (type: string, value: unknown): boolean => {
+    switch (type) {
+        case 'object': return typeof value === 'object' && value !== null && !Array.isArray(value);
+        case 'array': return Array.isArray(value);
+        case 'string': return typeof value === 'string';
+        case 'number': return typeof value === 'number' && isFinite(value);
+        case 'integer': return typeof value === 'number' && Number.isInteger(value);
+        case 'boolean': return typeof value === 'boolean';
+        default: return true;
+    }
+};
+
+const validateNode = (schema: any, value: unknown, path: string, errors: string[]) => {
+    if (errors.length >= MAX_ERRORS || !schema) return;
+    const type = schema.type ? String(schema.type).toLowerCase() : undefined;
+
+    if (value === null) {
+        if (!schema.nullable) errors.push(`${path}: expected ${type ?? 'a value'}, got null`);
+        return;
+    }
+    if (type && !matchesType(type, value)) {
+        errors.push(`${path}: expected ${type}, got ${describe(value)}`);
+        return;
+    }
+    if (Array.isArray(schema.enum) && !schema.enum.includes(value)) {
+        errors.push(`${path}: must be one of ${schema.enum.map((v: unknown) => JSON.stringify(v)).join(', ')}`);
+        return;
+    }
+
+    if (type === 'array' && schema.items) {
+        (value as unknown[]).forEach((item, i) => validateNode(schema.items, item, `${path}[${i}]`, errors));
+    }
+    if (type === 'object') {
+        const record = value as Record<string, unknown>;
+        for (const key of schema.required || []) {
+            if (record[key] === undefined) errors.push(`${path}.${key}: is required`);
+        }
+        for (const [key, propertySchema] of Object.entries<any>(schema.properties || {})) {
+            const propertyValue = record[key];
+            // Models often write `null` for optional fields they leave out; that is treated as omitted.
+            if (propertyValue === undefined || (propertyValue === null && !(schema.required || []).includes(key))) continue;
+            validateNode(propertySchema, propertyValue, `${path}.${key}`, errors);
+        }
+    }
+};
+
+/**
+ * Checks a parsed value against a `Type` schema.
+ * @returns A list of human-readable problems (at most 20), empty if the value conforms.
+ */
+export const validateAgainstSchema = (value: unknown, schema: any): string[] => {
+    const errors: string[] = [];
+    validateNode(schema, value, '$', errors);
+    return errors;
+};
@@ -0,0 +1,60 @@
+// How an OpenAI-compatible server is asked for JSON: a JSON schema response format,
+// plain JSON mode, a forced function call, or only by instruction.
+export type StructuredOutputMode = 'json_schema' | 'json_object' | 'tool' | 'none';
+
+// Type for a single provider's configuration
+export interface ProviderDetail {
+    apiKey?: string;
+    apiKeyPool?: string;
+    model?: string;
+    baseURL?: string;
+    // Upper bound on the response length, for providers that require one (Anthropic).
+    maxTokens?: number;
+    // Gemini only: requests allowed per pool key per UTC day before the key is skipped.
+    keyDailyLimit?: number;
+    // Set for keys supplied by an end user; these are not health-tracked.
+    isUserKey?: boolean;
+    // OpenAI-compatible providers only: overrides the adapter's default for the model.
+    structuredOutput?: StructuredOutputMode;
+}
+
+// Emits partial model output while a streaming generation is in progress.
+export interface StreamOptions {
+    onChunk: (text: string) => void;
+    signal?: AbortSignal;
+}
+
+export interface GenerationRequest {
+    systemInstruction: string;
+    userPrompt: string;
+    // A `@google/genai` `Type` schema, or null for free text.
+    schema: any | null;
+    // Chat history in Gemini's `{ role, parts: [{ text }] }` format. When non-empty,
+    // its last entry is the user message that `userPrompt` was taken from.
+    history: any[];
+}
+
+export interface TokenUsage {
+    promptTokens: number;
+    completionTokens: number;
+}
+
+// Raw model text plus token usage, when the provider reports it.
+export interface ProviderResult {
+    text: string | null;
+    usage?: TokenUsage;
+}
+
+/**
+ * A model provider selectable as `activeProvider` in `ai_provider_config`.
+ * Adapters return the raw model text; JSON parsing and validation are done by `aiService`.
+ */
+export interface AiProvider {
+    // Local servers can run without credentials.
+    requiresApiKey: boolean;
+    generate: (request: GenerationRequest, config: ProviderDetail) => Promise<ProviderResult>;
+    stream: (request: GenerationRequest, config: ProviderDetail, options: StreamOptions) => Promise<ProviderResult>;
+    // Returns one embedding vector per text, using `config.model` as the embedding model.
+    // Absent for providers without an embeddings API.
+    embed?: (texts: string[], config: ProviderDetail) => Promise<number[][]>;
+}
@@ -0,0 +1,38 @@
+import { RateLimitStore } from './types';
+
+const DEFAULT_MAX_BUCKETS = 10000;
+
+/**
+ * Creates a per-process store. Once full it drops the least recently used bucket, which only
+ * ever makes the limiter more lenient for that caller. Limits are per instance, so a
+ * deployment with several instances needs a shared store to enforce them exactly.
+ */
+export const createMemoryRateLimitStore = (maxBuckets = DEFAULT_MAX_BUCKETS): RateLimitStore => {
+    // Map iteration follows insertion order, so re-inserting on access keeps it in LRU order.
+    const buckets = new Map<string, { tokens: number; updatedAt: number }>();
+
+    return {
+        take: async (key, limit, cost) => {
+            const now = Date.now();
+            const bucket = buckets.get(key);
+            const elapsedSeconds = bucket ? (now - bucket.updatedAt) / 1000 : 0;
+            let tokens = bucket ? Math.min(limit.capacity, bucket.tokens + elapsedSeconds * limit.refillPerSecond) : limit.capacity;
+
+            const allowed = tokens >= cost;
+            if (allowed) tokens -= cost;
+            buckets.delete(key);
+            buckets.set(key, { tokens, updatedAt: now });
+            while (buckets.size > maxBuckets) {
+                buckets.delete(buckets.keys().next().value as string);
+            }
+
+            const msUntil = (target: number) => Math.max(0, Math.ceil(((target - tokens) / limit.refillPerSecond) * 1000));
+            return {
+                allowed,
+                remaining: Math.floor(tokens),
+                retryAfterMs: allowed && tokens >= 1 ? 0 : msUntil(allowed ? 1 : cost),
+                resetMs: msUntil(limit.capacity),
+            };
+        },
+    };
+};
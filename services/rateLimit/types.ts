@@ -0,0 +1,25 @@
+export interface TokenBucketLimit {
+    // The most requests that can be made in a burst.
+    capacity: number;
+    // Tokens added back per second, up to `capacity`.
+    refillPerSecond: number;
+}
+
+export interface TokenBucketResult {
+    allowed: boolean;
+    // Whole tokens left after this request.
+    remaining: number;
+    // Until a token is available again; 0 when `allowed` is true and tokens remain.
+    retryAfterMs: number;
+    // Until the bucket is full again.
+    resetMs: number;
+}
+
+/**
+ * Storage behind the rate limiter. `take` must be atomic per key so that concurrent requests
+ * cannot spend the same token; a Redis store would run it as a Lua script.
+ */
+export interface RateLimitStore {
+    // Takes `cost` tokens from the bucket at `key`, which starts full, if it holds that many.
+    take(key: string, limit: TokenBucketLimit, cost: number): Promise<TokenBucketResult>;
+}
@@ -0,0 +1,131 @@
+import { getCachedConfig } from '../controllers/adminController';
+import { RateLimitStore, TokenBucketResult } from './rateLimit/types';
+import { createMemoryRateLimitStore } from './rateLimit/memoryStore';
+
+// Token-bucket rate limits for the AI routes, so a single user or key cannot drain the shared
+// provider keys. Every caller (API key, else user, else IP address) gets one bucket per route.
+// The bucket size comes from the most specific rule: the API key's own rule, then the route's
+// rule for the caller's plan, then the plan's rule. Settings come from the `rate_limit_config`
+// config value, e.g. { "routes": { "chat": { "free": { "capacity": 10, "refillPerMinute": 5 } } } }.
+
+export type RateLimitPlan = 'free' | 'hobbyist' | 'pro' | 'business';
+
+export const RATE_LIMIT_PLANS: RateLimitPlan[] = ['free', 'hobbyist', 'pro', 'business'];
+
+export interface RateLimitRule {
+    // The most requests that can be made in a burst.
+    capacity: number;
+    // The sustained rate.
+    refillPerMinute: number;
+}
+
+export interface RateLimitConfig {
+    enabled: boolean;
+    plans: Record<RateLimitPlan, RateLimitRule>;
+    // Overrides by route name and then by plan.
+    routes: Record<string, Partial<Record<RateLimitPlan, RateLimitRule>>>;
+    // Overrides by API key id; they apply to every route.
+    apiKeys: Record<string, RateLimitRule>;
+}
+
+export interface RateLimitSubject {
+    route: string;
+    plan: string;
+    // `key:<id>`, `user:<id>` or `ip:<address>`.
+    identity: string;
+    apiKeyId?: string;
+}
+
+export interface RateLimitOutcome {
+    rule: RateLimitRule;
+    plan: RateLimitPlan;
+    result: TokenBucketResult;
+}
+
+const DEFAULT_CONFIG: RateLimitConfig = {
+    enabled: true,
+    plans: {
+        free: { capacity: 5, refillPerMinute: 2 },
+        hobbyist: { capacity: 10, refillPerMinute: 5 },
+        pro: { capacity: 30, refillPerMinute: 20 },
+        business: { capacity: 60, refillPerMinute: 60 },
+    },
+    routes: {
+        // Viewing a shared diagram renders it but costs no AI call, so viewers get more room.
+        shared: {
+            free: { capacity: 30, refillPerMinute: 30 },
+            hobbyist: { capacity: 30, refillPerMinute: 30 },
+            pro: { capacity: 30, refillPerMinute: 30 },
+            business: { capacity: 30, refillPerMinute: 30 },
+        },
+    },
+    apiKeys: {},
+};
+
+let store: RateLimitStore = createMemoryRateLimitStore();
+
+/**
+ * Replaces the store behind the limiter, e.g. with one shared between instances.
+ */
+export const setRateLimitStore = (newStore: RateLimitStore) => {
+    store = newStore;
+};
+
+export const getRateLimitConfig = async (): Promise<RateLimitConfig> => {
+    const config = await getCachedConfig();
+    try {
+        const stored = JSON.parse(config.rate_limit_config || '{}');
+        return {
+            ...DEFAULT_CONFIG,
+            ...stored,
+            plans: { ...DEFAULT_CONFIG.plans, ...stored.plans },
+            routes: { ...DEFAULT_CONFIG.routes, ...stored.routes },
+            apiKeys: { ...DEFAULT_CONFIG.apiKeys, ...stored.apiKeys },
+        };
+    } catch {
+        console.error('[Rate Limit] rate_limit_config is not valid JSON; using the default limits.');
+        return DEFAULT_CONFIG;
+    }
+};
+
+const isValidRule = (rule: unknown): rule is RateLimitRule =>
+    !!rule && typeof rule === 'object'
+    && Number.isFinite((rule as RateLimitRule).capacity) && (rule as RateLimitRule).capacity >= 1
+    && Number.isFinite((rule as RateLimitRule).refillPerMinute) && (rule as RateLimitRule).refillPerMinute > 0;
+
+// Unknown plans get the most restrictive limits.
+export const toRateLimitPlan = (plan: string): RateLimitPlan =>
+    (RATE_LIMIT_PLANS as string[]).includes(plan) ? plan as RateLimitPlan : 'free';
+
+/**
+ * Picks the most specific valid rule for a caller. Invalid rules in the config are skipped.
+ */
+export const resolveRateLimitRule = (config: RateLimitConfig, route: string, plan: RateLimitPlan, apiKeyId?: string): RateLimitRule => {
+    const candidates = [
+        apiKeyId ? config.apiKeys[apiKeyId] : undefined,
+        config.routes[route]?.[plan],
+        config.plans[plan],
+    ];
+    return candidates.find(isValidRule) || DEFAULT_CONFIG.plans[plan];
+};
+
+/**
+ * Takes one token from the caller's bucket for the route.
+ * @returns The rule and bucket state, or null when rate limiting is disabled or the store failed.
+ */
+export const checkRateLimit = async (subject: RateLimitSubject): Promise<RateLimitOutcome | null> => {
+    const config = await getRateLimitConfig();
+    if (!config.enabled) return null;
+
+    const plan = toRateLimitPlan(subject.plan);
+    const rule = resolveRateLimitRule(config, subject.route, plan, subject.apiKeyId);
+    try {
+        const result = await store.take(`${subject.route}:${subject.identity}`, { capacity: rule.capacity, refillPerSecond: rule.refillPerMinute / 60 }, 1);
+        return { rule, plan, result };
+    } catch (e: any) {
+        // An unavailable store should not take the API down with it.
+        console.error(`[Rate Limit] Store failed; allowing the request: ${e.message}`);
+        return null;
+    }
+};
+
@@ -0,0 +1,227 @@
+import { Resvg } from '@resvg/resvg-js';
+import { ArchNode, Container, DiagramData, Link } from '../types';
+import { escapeXml, iconPalette, isHexColor, linkEndpoint, nodeBounds } from './exporters/common';
+
+export type RenderFormat = 'svg' | 'png';
+
+export const RENDER_FORMATS: RenderFormat[] = ['svg', 'png'];
+
+const MARGIN = 40;
+const FONT_FAMILY = 'Helvetica, Arial, sans-serif';
+const FONT_SIZE = 13;
+const CHAR_WIDTH = 7;
+const LINE_HEIGHT = 16;
+const DEFAULT_LINK_COLOR = '#64748b';
+const STROKE_WIDTHS: Record<NonNullable<Link['thickness']>, number> = { thin: 1.5, medium: 2.5, thick: 4 };
+const PNG_SCALE = 2;
+// Rasterizing allocates width × height × 4 bytes at once, so larger canvases are scaled down
+// to this many pixels rather than rendered at PNG_SCALE.
+const MAX_PNG_PIXELS = 16 * 1024 * 1024;
+
+interface Box {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+// Greedy word wrap based on an estimated character width.
+const wrapText = (text: string, maxWidth: number): string[] => {
+    const maxChars = Math.max(4, Math.floor(maxWidth / CHAR_WIDTH));
+    const lines: string[] = [];
+    let current = '';
+    for (const word of text.split(/\s+/).filter(Boolean)) {
+        if (current && (current.length + 1 + word.length) > maxChars) {
+            lines.push(current);
+            current = word;
+        } else {
+            current = current ? `${current} ${word}` : word;
+        }
+    }
+    if (current) lines.push(current);
+    return lines.length > 0 ? lines : [''];
+};
+
+const multilineText = (lines: string[], centerX: number, centerY: number, attributes: string): string => {
+    const firstBaseline = centerY - ((lines.length - 1) * LINE_HEIGHT) / 2 + FONT_SIZE / 3;
+    const spans = lines
+        .map((line, i) => `<tspan x="${centerX}" y="${Math.round(firstBaseline + i * LINE_HEIGHT)}">${escapeXml(line)}</tspan>`)
+        .join('');
+    return `<text text-anchor="middle" font-family="${FONT_FAMILY}" font-size="${FONT_SIZE}" ${attributes}>${spans}</text>`;
+};
+
+// The point where the segment from a box's center towards (toX, toY) leaves the box,
+// so link lines and arrowheads stop at the node outline instead of its center.
+const clipToBox = (box: Box, toX: number, toY: number): { x: number; y: number } => {
+    const cx = box.x + box.width / 2;
+    const cy = box.y + box.height / 2;
+    const dx = toX - cx;
+    const dy = toY - cy;
+    if (dx === 0 && dy === 0) return { x: cx, y: cy };
+    const scale = Math.min(
+        dx !== 0 ? (box.width / 2) / Math.abs(dx) : Infinity,
+        dy !== 0 ? (box.height / 2) / Math.abs(dy) : Infinity,
+    );
+    return { x: cx + dx * Math.min(1, scale), y: cy + dy * Math.min(1, scale) };
+};
+
+const containerDepth = (container: Container, byId: Map<string, Container>): number => {
+    let depth = 0;
+    const seen = new Set<string>();
+    let parentId = container.parentContainerId;
+    while (parentId && byId.has(parentId) && !seen.has(parentId)) {
+        seen.add(parentId);
+        depth++;
+        parentId = byId.get(parentId)!.parentContainerId;
+    }
+    return depth;
+};
+
+const renderContainer = (container: Container): string => {
+    const stroke = isHexColor(container.color) ? container.color : '#5a6c86';
+    const dash = container.borderStyle === 'dashed' ? ' stroke-dasharray="8 5"' : '';
+    return [
+        `<rect x="${container.x}" y="${container.y}" width="${container.width}" height="${container.height}" rx="6" fill="${stroke}" fill-opacity="0.04" stroke="${stroke}" stroke-width="1.5"${dash}/>`,
+        `<text x="${container.x + 10}" y="${container.y + 20}" font-family="${FONT_FAMILY}" font-size="${FONT_SIZE}" font-weight="bold" fill="${stroke}">${escapeXml(container.label)}</text>`,
+    ].join('');
+};
+
+const renderNode = (node: ArchNode): string => {
+    const box = nodeBounds(node);
+    const palette = iconPalette(node.type);
+    const fill = isHexColor(node.color) ? node.color : palette.fill;
+    const paint = `fill="${fill}" stroke="${palette.stroke}" stroke-width="1.5"`;
+    let shape: string;
+    switch (node.shape) {
+        case 'ellipse':
+            shape = `<ellipse cx="${node.x}" cy="${node.y}" rx="${box.width / 2}" ry="${box.height / 2}" ${paint}/>`;
+            break;
+        case 'diamond':
+            shape = `<polygon points="${node.x},${box.y} ${box.x + box.width},${node.y} ${node.x},${box.y + box.height} ${box.x},${node.y}" ${paint}/>`;
+            break;
+        default:
+            shape = `<rect x="${box.x}" y="${box.y}" width="${box.width}" height="${box.height}" rx="8" ${paint}/>`;
+    }
+    // Ellipses and diamonds have a narrower usable interior for the label.
+    const textWidth = node.shape === 'ellipse' || node.shape === 'diamond' ? box.width * 0.65 : box.width - 16;
+    const label = multilineText(wrapText(node.label, textWidth), node.x, node.y, 'fill="#1e293b"');
+    const tooltip = node.description ? `<title>${escapeXml(node.description)}</title>` : '';
+    return `<g id="${escapeXml(`node-${node.id}`)}">${tooltip}${shape}${label}</g>`;
+};
+
+const markerId = (color: string) => `arrow-${color.replace('#', '')}`;
+
+const renderLink = (link: Link, nodeById: Map<string, ArchNode>): string => {
+    const source = nodeById.get(linkEndpoint(link.source));
+    const target = nodeById.get(linkEndpoint(link.target));
+    if (!source || !target || source === target) return '';
+
+    const start = clipToBox(nodeBounds(source), target.x, target.y);
+    const end = clipToBox(nodeBounds(target), source.x, source.y);
+    const color = isHexColor(link.color) ? link.color : DEFAULT_LINK_COLOR;
+    const width = STROKE_WIDTHS[link.thickness || 'thin'] ?? STROKE_WIDTHS.thin;
+    const dash = link.style === 'dashed' ? ' stroke-dasharray="8 5"' : link.style === 'dotted' ? ' stroke-dasharray="2 4"' : '';
+    const markers = ` marker-end="url(#${markerId(color)})"${link.bidirectional ? ` marker-start="url(#${markerId(color)})"` : ''}`;
+    const line = (stroke: string, strokeWidth: number, extra: string) =>
+        `<line x1="${start.x.toFixed(1)}" y1="${start.y.toFixed(1)}" x2="${end.x.toFixed(1)}" y2="${end.y.toFixed(1)}" stroke="${stroke}" stroke-width="${strokeWidth}"${extra}/>`;
+
+    const parts = link.style === 'double'
+        // A double line is a wide stroke with a white core.
+        ? [line(color, width * 3, markers), line('#ffffff', width, '')]
+        : [line(color, width, `${dash}${markers}`)];
+
+    if (link.label) {
+        const midX = (start.x + end.x) / 2;
+        const midY = (start.y + end.y) / 2;
+        const labelWidth = link.label.length * CHAR_WIDTH + 8;
+        parts.push(`<rect x="${(midX - labelWidth / 2).toFixed(1)}" y="${(midY - LINE_HEIGHT / 2 - 2).toFixed(1)}" width="${labelWidth}" height="${LINE_HEIGHT + 4}" rx="3" fill="#ffffff" fill-opacity="0.9"/>`);
+        parts.push(multilineText([link.label], Math.round(midX), midY, `fill="${color}"`));
+    }
+    return `<g id="${escapeXml(`link-${link.id}`)}">${parts.join('')}</g>`;
+};
+
+// The drawing area around every node and container, with a margin. A loop rather than
+// Math.min(...boxes), which overflows the call stack on very large diagrams.
+const canvasBounds = (diagram: DiagramData): { minX: number; minY: number; width: number; height: number } => {
+    const boxes: Box[] = [...(diagram.containers || []), ...diagram.nodes.map(nodeBounds)];
+    if (boxes.length === 0) return { minX: 0, minY: 0, width: 2 * MARGIN, height: 2 * MARGIN };
+    let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
+    for (const box of boxes) {
+        minX = Math.min(minX, box.x);
+        minY = Math.min(minY, box.y);
+        maxX = Math.max(maxX, box.x + box.width);
+        maxY = Math.max(maxY, box.y + box.height);
+    }
+    return {
+        minX: minX - MARGIN,
+        minY: minY - MARGIN,
+        width: Math.round(maxX - minX + 2 * MARGIN),
+        height: Math.round(maxY - minY + 2 * MARGIN),
+    };
+};
+
+/**
+ * Draws a diagram as a standalone SVG document using the geometry already present in
+ * the diagram (either the model's or the auto-layout's). Containers are drawn outermost
+ * first so nested boxes stay visible, then links, then nodes on top.
+ * @param diagram A diagram that has passed through `validateAndRepairDiagram`.
+ */
+export const renderDiagramToSvg = (diagram: DiagramData): string => {
+    const containers = diagram.containers || [];
+    const containerById = new Map(containers.map(c => [c.id, c]));
+    const nodeById = new Map(diagram.nodes.map(n => [n.id, n]));
+
+    const { minX, minY, width, height } = canvasBounds(diagram);
+
+    const colors = [...new Set(diagram.links.map(l => (isHexColor(l.color) ? l.color : DEFAULT_LINK_COLOR)))];
+    const markers = colors.map(color =>
+        `<marker id="${markerId(color)}" viewBox="0 0 10 10" refX="9" refY="5" markerWidth="7" markerHeight="7" orient="auto-start-reverse" markerUnits="userSpaceOnUse"><path d="M0,0 L10,5 L0,10 z" fill="${color}"/></marker>`);
+
+    const sortedContainers = [...containers].sort((a, b) => containerDepth(a, containerById) - containerDepth(b, containerById));
+
+    return [
+        `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="${Math.round(minX)} ${Math.round(minY)} ${width} ${height}">`,
+        `<title>${escapeXml(diagram.title || 'Diagram')}</title>`,
+        `<defs>${markers.join('')}</defs>`,
+        `<rect x="${Math.round(minX)}" y="${Math.round(minY)}" width="${width}" height="${height}" fill="#ffffff"/>`,
+        ...sortedContainers.map(renderContainer),
+        ...diagram.links.map(link => renderLink(link, nodeById)),
+        ...diagram.nodes.map(renderNode),
+        '</svg>',
+        '',
+    ].join('\n');
+};
+
+/**
+ * Rasterizes a diagram to PNG without a browser, by rendering the SVG with resvg.
+ * Text uses the fonts installed on the host. Canvases over MAX_PNG_PIXELS are scaled down.
+ */
+export const renderDiagramToPng = (diagram: DiagramData): Buffer => {
+    const { width, height } = canvasBounds(diagram);
+    const zoom = Math.min(PNG_SCALE, Math.sqrt(MAX_PNG_PIXELS / (width * height)));
+    const resvg = new Resvg(renderDiagramToSvg(diagram), {
+        fitTo: { mode: 'zoom', value: zoom },
+        font: { loadSystemFonts: true, defaultFontFamily: 'Arial' },
+    });
+    return resvg.render().asPng();
+};
+
+export interface RenderedDiagram {
+    format: RenderFormat;
+    mimeType: string;
+    encoding: 'utf8' | 'base64';
+    content: string;
+}
+
+export const isRenderFormat = (value: unknown): value is RenderFormat =>
+    typeof value === 'string' && (RENDER_FORMATS as string[]).includes(value);
+
+/**
+ * Renders a diagram for embedding in a JSON response. PNG data is base64-encoded.
+ */
+export const renderDiagram = (diagram: DiagramData, format: RenderFormat): RenderedDiagram => {
+    if (format === 'png') {
+        return { format, mimeType: 'image/png', encoding: 'base64', content: renderDiagramToPng(diagram).toString('base64') };
+    }
+    return { format, mimeType: 'image/svg+xml', encoding: 'utf8', content: renderDiagramToSvg(diagram) };
+};
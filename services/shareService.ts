@@ -0,0 +1,161 @@
+import { randomBytes, scrypt, timingSafeEqual } from 'crypto';
+import { promisify } from 'util';
+import { supabaseAdmin } from '../supabaseClient';
+import { DiagramData } from '../types';
+import { getDiagram } from './diagramService';
+import { createLruCache } from './cache/lru';
+
+// Share links are stored in:
+//   diagram_shares (id uuid pk, diagram_id uuid fk -> diagrams on delete cascade, user_id uuid,
+//                   token text unique, password_hash text, expires_at timestamptz, revoked_at timestamptz, created_at)
+// A share always serves the diagram's latest revision.
+
+const scryptAsync = promisify(scrypt) as (password: string, salt: Buffer, keyLength: number) => Promise<Buffer>;
+const KEY_LENGTH = 32;
+export const MIN_SHARE_PASSWORD_LENGTH = 8;
+// Password attempts per share, counted before the (expensive) hash runs and cleared by a correct
+// password. Once a share has used them up, it rejects passwords until PASSWORD_LOCKOUT_MS have
+// passed since the last attempt. Counts are per process.
+const MAX_PASSWORD_ATTEMPTS = 5;
+const PASSWORD_LOCKOUT_MS = 15 * 60 * 1000;
+const MAX_TRACKED_SHARES = 10000;
+
+const passwordAttempts = createLruCache<number>(MAX_TRACKED_SHARES, PASSWORD_LOCKOUT_MS);
+
+export interface DiagramShare {
+    id: string;
+    diagram_id: string;
+    token: string;
+    has_password: boolean;
+    expires_at: string | null;
+    revoked_at: string | null;
+    created_at: string;
+}
+
+export interface SharedDiagram {
+    title: string;
+    revision: number;
+    updated_at: string;
+    data: DiagramData;
+}
+
+// Hashes are stored as `scrypt$<salt>$<hash>`, both base64-encoded.
+const hashPassword = async (password: string): Promise<string> => {
+    const salt = randomBytes(16);
+    const hash = await scryptAsync(password, salt, KEY_LENGTH);
+    return `scrypt$${salt.toString('base64')}$${hash.toString('base64')}`;
+};
+
+const verifyPassword = async (password: string, stored: string): Promise<boolean> => {
+    const [scheme, salt, hash] = stored.split('$');
+    if (scheme !== 'scrypt' || !salt || !hash) return false;
+    const expected = Buffer.from(hash, 'base64');
+    const actual = await scryptAsync(password, Buffer.from(salt, 'base64'), expected.length);
+    return timingSafeEqual(actual, expected);
+};
+
+const toPublicShare = (row: any): DiagramShare => ({
+    id: row.id,
+    diagram_id: row.diagram_id,
+    token: row.token,
+    has_password: !!row.password_hash,
+    expires_at: row.expires_at,
+    revoked_at: row.revoked_at,
+    created_at: row.created_at,
+});
+
+/**
+ * Creates a read-only share link for one of the user's diagrams.
+ * @param options.password Optional password viewers must supply.
+ * @param options.expiresAt Optional expiry; must be in the future.
+ * @throws A `DIAGRAM_NOT_FOUND` error if the diagram does not belong to the user,
+ *         or an `INVALID_SHARE_OPTIONS` error if the expiry is in the past.
+ */
+export const createShare = async (userId: string, diagramId: string, options: { password?: string; expiresAt?: Date } = {}): Promise<DiagramShare> => {
+    await getDiagram(userId, diagramId);
+    if (options.expiresAt && options.expiresAt.getTime() <= Date.now()) {
+        throw new Error('INVALID_SHARE_OPTIONS: The expiry date must be in the future.');
+    }
+
+    const { data, error } = await supabaseAdmin
+        .from('diagram_shares')
+        .insert({
+            diagram_id: diagramId,
+            user_id: userId,
+            token: randomBytes(24).toString('base64url'),
+            password_hash: options.password ? await hashPassword(options.password) : null,
+            expires_at: options.expiresAt ? options.expiresAt.toISOString() : null,
+        })
+        .select()
+        .single();
+    if (error) throw error;
+    return toPublicShare(data);
+};
+
+/**
+ * Lists every share link of a diagram, including expired and revoked ones.
+ */
+export const listShares = async (userId: string, diagramId: string): Promise<DiagramShare[]> => {
+    await getDiagram(userId, diagramId);
+    const { data, error } = await supabaseAdmin
+        .from('diagram_shares')
+        .select('*')
+        .eq('diagram_id', diagramId)
+        .order('created_at', { ascending: false });
+    if (error) throw error;
+    return (data || []).map(toPublicShare);
+};
+
+/**
+ * Revokes a share link. Revoked links stay listed so owners can see what was shared.
+ * @throws A `DIAGRAM_NOT_FOUND` error if the diagram or share does not belong to the user.
+ */
+export const revokeShare = async (userId: string, diagramId: string, shareId: string): Promise<DiagramShare> => {
+    await getDiagram(userId, diagramId);
+    const { data, error } = await supabaseAdmin
+        .from('diagram_shares')
+        .update({ revoked_at: new Date().toISOString() })
+        .eq('id', shareId)
+        .eq('diagram_id', diagramId)
+        .is('revoked_at', null)
+        .select()
+        .maybeSingle();
+    if (error) throw error;
+    if (!data) throw new Error('DIAGRAM_NOT_FOUND: Active share link was not found.');
+    return toPublicShare(data);
+};
+
+/**
+ * Resolves a share token to the diagram it exposes.
+ * @throws `SHARE_NOT_FOUND` for unknown or revoked tokens, `SHARE_EXPIRED` for expired ones,
+ *         `SHARE_PASSWORD_REQUIRED` when no password was given, `SHARE_PASSWORD_INVALID` when it is wrong
+ *         and `SHARE_PASSWORD_LOCKED` after too many attempts.
+ */
+export const getSharedDiagram = async (token: string, password?: string): Promise<SharedDiagram> => {
+    const { data: share, error } = await supabaseAdmin
+        .from('diagram_shares')
+        .select('*')
+        .eq('token', token)
+        .maybeSingle();
+    if (error) throw error;
+    if (!share || share.revoked_at) throw new Error('SHARE_NOT_FOUND: This share link does not exist or has been revoked.');
+    if (share.expires_at && new Date(share.expires_at).getTime() <= Date.now()) {
+        throw new Error('SHARE_EXPIRED: This share link has expired.');
+    }
+    if (share.password_hash) {
+        if (!password) throw new Error('SHARE_PASSWORD_REQUIRED: This diagram is password-protected.');
+        // Counted before verifying, so concurrent guesses cannot get past the limit.
+        const attempts = passwordAttempts.get(share.id) || 0;
+        if (attempts >= MAX_PASSWORD_ATTEMPTS) {
+            throw new Error(`SHARE_PASSWORD_LOCKED: Too many incorrect passwords. Try again in ${PASSWORD_LOCKOUT_MS / 60000} minutes.`);
+        }
+        passwordAttempts.set(share.id, attempts + 1);
+        if (!(await verifyPassword(password, share.password_hash))) {
+            throw new Error('SHARE_PASSWORD_INVALID: The password is incorrect.');
+        }
+        passwordAttempts.delete(share.id);
+    }
+
+    const diagram = await getDiagram(share.user_id, share.diagram_id);
+    return { title: diagram.title, revision: diagram.current_revision, updated_at: diagram.updated_at, data: diagram.data };
+};
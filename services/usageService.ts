@@ -0,0 +1,155 @@
+import { supabaseAdmin } from '../supabaseClient';
+import { getCachedConfig } from '../controllers/adminController';
+import { TokenUsage } from './providers/types';
+import { PromptVersion } from './promptService';
+
+// One row per AI call:
+//   ai_usage (id uuid pk, created_at timestamptz default now(), user_id uuid, plan text, endpoint text,
+//             provider text, model text, prompt_tokens int, completion_tokens int, cost_usd numeric,
+//             latency_ms int, success boolean, user_key boolean, repair_attempts int,
+//             prompt_versions jsonb, error text)
+
+const USAGE_TABLE = 'ai_usage';
+const PAGE_SIZE = 1000;
+
+// USD per million tokens, keyed by provider and then by model. A `*` model entry
+// applies to every model of that provider without its own entry. Edited by admins as the
+// `ai_price_table` config value, e.g. { "gemini": { "gemini-2.5-flash": { "input": 0.3, "output": 2.5 } } }.
+export type PriceTable = Record<string, Record<string, { input: number; output: number }>>;
+
+export interface UsageRecord {
+    userId: string | null;
+    plan: string | null;
+    endpoint: string;
+    provider: string | null;
+    model: string | null;
+    usage: TokenUsage;
+    costUsd: number;
+    latencyMs: number;
+    success: boolean;
+    // Calls made with the user's own key cost us nothing.
+    userKey: boolean;
+    repairAttempts: number;
+    promptVersions: PromptVersion[];
+    error?: string;
+}
+
+export type UsageGrouping = 'day' | 'provider' | 'model' | 'plan' | 'user' | 'endpoint' | 'prompt';
+
+export const USAGE_GROUPINGS: UsageGrouping[] = ['day', 'provider', 'model', 'plan', 'user', 'endpoint', 'prompt'];
+
+export interface UsageAggregate {
+    key: string;
+    calls: number;
+    failedCalls: number;
+    promptTokens: number;
+    completionTokens: number;
+    costUsd: number;
+    averageLatencyMs: number;
+    repairAttempts: number;
+}
+
+/**
+ * Reads the admin-edited price table. A missing or malformed table prices everything at zero.
+ */
+export const getPriceTable = async (): Promise<PriceTable> => {
+    const config = await getCachedConfig();
+    try {
+        const table = JSON.parse(config.ai_price_table || '{}');
+        return table && typeof table === 'object' ? table : {};
+    } catch {
+        console.error('[Usage] ai_price_table is not valid JSON; costs will be recorded as 0.');
+        return {};
+    }
+};
+
+export const calculateCost = (table: PriceTable, provider: string, model: string, usage: TokenUsage): number => {
+    const price = table[provider]?.[model] ?? table[provider]?.['*'];
+    if (!price) return 0;
+    return (usage.promptTokens * (Number(price.input) || 0) + usage.completionTokens * (Number(price.output) || 0)) / 1_000_000;
+};
+
+/**
+ * Persists a usage record. Failures are logged and swallowed so accounting never breaks a generation.
+ */
+export const recordUsage = async (record: UsageRecord): Promise<void> => {
+    const { error } = await supabaseAdmin.from(USAGE_TABLE).insert({
+        user_id: record.userId,
+        plan: record.plan,
+        endpoint: record.endpoint,
+        provider: record.provider,
+        model: record.model,
+        prompt_tokens: record.usage.promptTokens,
+        completion_tokens: record.usage.completionTokens,
+        cost_usd: record.costUsd,
+        latency_ms: record.latencyMs,
+        success: record.success,
+        user_key: record.userKey,
+        repair_attempts: record.repairAttempts,
+        prompt_versions: record.promptVersions,
+        error: record.error ? record.error.slice(0, 500) : null,
+    });
+    if (error) {
+        console.error(`[Usage] Failed to record usage for ${record.endpoint}: ${error.message}`);
+    }
+};
+
+// A generation built from several templates counts towards each of their versions.
+const groupKeysOf = (row: any, groupBy: UsageGrouping): string[] => {
+    switch (groupBy) {
+        case 'day': return [String(row.created_at).slice(0, 10)];
+        case 'user': return [row.user_id || 'anonymous'];
+        case 'prompt': {
+            const versions: PromptVersion[] = Array.isArray(row.prompt_versions) ? row.prompt_versions : [];
+            return versions.length > 0 ? versions.map(p => `${p.key}@v${p.version}`) : ['none'];
+        }
+        default: return [row[groupBy] || 'unknown'];
+    }
+};
+
+/**
+ * Aggregates usage records in a time range, grouped by one dimension and sorted by cost.
+ * @param from Inclusive ISO start of the range.
+ * @param to Exclusive ISO end of the range.
+ */
+export const aggregateUsage = async (from: string, to: string, groupBy: UsageGrouping): Promise<UsageAggregate[]> => {
+    const groups = new Map<string, UsageAggregate & { totalLatencyMs: number }>();
+
+    // PostgREST caps each response, so the range is read page by page.
+    for (let offset = 0; ; offset += PAGE_SIZE) {
+        const { data, error } = await supabaseAdmin
+            .from(USAGE_TABLE)
+            .select('created_at, user_id, plan, endpoint, provider, model, prompt_tokens, completion_tokens, cost_usd, latency_ms, success, repair_attempts, prompt_versions')
+            .gte('created_at', from)
+            .lt('created_at', to)
+            .order('created_at', { ascending: true })
+            .range(offset, offset + PAGE_SIZE - 1);
+        if (error) throw error;
+
+        for (const row of data || []) {
+            for (const key of groupKeysOf(row, groupBy)) {
+                let group = groups.get(key);
+                if (!group) {
+                    group = { key, calls: 0, failedCalls: 0, promptTokens: 0, completionTokens: 0, costUsd: 0, averageLatencyMs: 0, repairAttempts: 0, totalLatencyMs: 0 };
+                    groups.set(key, group);
+                }
+                group.calls += 1;
+                if (!row.success) group.failedCalls += 1;
+                group.promptTokens += row.prompt_tokens || 0;
+                group.completionTokens += row.completion_tokens || 0;
+                group.costUsd += Number(row.cost_usd) || 0;
+                group.repairAttempts += row.repair_attempts || 0;
+                group.totalLatencyMs += row.latency_ms || 0;
+            }
+        }
+        if (!data || data.length < PAGE_SIZE) break;
+    }
+
+    return [...groups.values()]
+        .map(({ totalLatencyMs, ...group }) => ({
+            ...group,
+            costUsd: Math.round(group.costUsd * 1e6) / 1e6,
+            averageLatencyMs: Math.round(totalLatencyMs / group.calls),
+        }))
+        .sort((a, b) => b.costUsd - a.costUsd || a.key.localeCompare(b.key));
+};
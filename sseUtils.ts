@@ -0,0 +1,72 @@
+import * as express from 'express';
+
+const HEARTBEAT_INTERVAL_MS = 15000;
+
+export interface SseStream {
+    /** Aborted when the client disconnects; pass it to the AI call so the upstream request is cancelled. */
+    signal: AbortSignal;
+    /** Sends a named event with a JSON payload. Does nothing once the stream is closed. */
+    send: (event: string, data: unknown) => void;
+    /** Ends the response. Safe to call more than once. */
+    close: () => void;
+}
+
+/**
+ * Switches the response into a Server-Sent Events stream.
+ * A comment line is written periodically so proxies do not time out idle connections.
+ * @param res The Express response object. No headers may have been sent yet.
+ * @returns A handle for sending events and detecting client disconnects.
+ */
+export const openSseStream = (res: express.Response): SseStream => {
+    const controller = new AbortController();
+    let closed = false;
+
+    res.status(200).set({
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache, no-transform',
+        'Connection': 'keep-alive',
+        // Disables response buffering in nginx, which would otherwise hold events back.
+        'X-Accel-Buffering': 'no',
+    });
+    res.flushHeaders();
+
+    const heartbeat = setInterval(() => {
+        if (!closed) res.write(': heartbeat\n\n');
+    }, HEARTBEAT_INTERVAL_MS);
+
+    // `res` (not `req`) is used here: the request emits 'close' as soon as its body has been read.
+    res.on('close', () => {
+        clearInterval(heartbeat);
+        if (!closed) {
+            closed = true;
+            controller.abort();
+        }
+    });
+
+    return {
+        signal: controller.signal,
+        send: (event, data) => {
+            if (closed) return;
+            res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+        },
+        close: () => {
+            if (closed) return;
+            closed = true;
+            clearInterval(heartbeat);
+            res.end();
+        },
+    };
+};
+
+/**
+ * Reports a failure on an open stream. Failures caused by the client disconnecting are not reported.
+ */
+export const sendSseError = (stream: SseStream, e: any, fallback: string) => {
+    if (stream.signal.aborted) {
+        console.log('[SSE] Client disconnected; generation cancelled.');
+        return;
+    }
+    console.error(`[Backend Error] ${e.message}`);
+    stream.send('error', { error: e.message || fallback });
+    stream.close();
+};
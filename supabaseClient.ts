@@ -22,3 +22,8 @@ export const supabaseAdmin: SupabaseClient = createClient(supabaseUrl, serviceKe
 });
 
 console.log('[SupabaseClient] Admin client configured successfully.');
+
+// Table ids are Postgres uuids. Filtering by anything else fails with a cast error, so callers
+// check ids first and treat malformed ones as not found.
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+export const isUuid = (value: unknown): value is string => typeof value === 'string' && UUID_PATTERN.test(value);
@@ -0,0 +1,29 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { parseTable } from '../services/chartService';
+
+describe('parseTable', () => {
+    it('reads CSV with a header row and quoted fields', () => {
+        const table = parseTable('region,sales\n"North, East",10\r\nSouth,"2""0"\n\n');
+        assert.deepEqual(table, { columns: ['region', 'sales'], rows: [['North, East', '10'], ['South', '2"0']] });
+    });
+
+    it('reads JSON records and rows, as text or already parsed', () => {
+        const expected = { columns: ['stage', 'count'], rows: [['Visit', 100], ['Buy', 5]] };
+        assert.deepEqual(parseTable('[{"stage":"Visit","count":100},{"stage":"Buy","count":5}]'), expected);
+        assert.deepEqual(parseTable([['stage', 'count'], ['Visit', 100], ['Buy', 5]]), expected);
+    });
+
+    it('honours an explicit format', () => {
+        assert.deepEqual(parseTable('[label],value\na,1', 'csv').columns, ['[label]', 'value']);
+        assert.throws(() => parseTable('label,value\na,1', 'json'), /INVALID_CHART_INPUT: The table is not valid JSON/);
+    });
+
+    it('rejects tables it cannot chart', () => {
+        assert.throws(() => parseTable(''), /INVALID_CHART_INPUT/);
+        assert.throws(() => parseTable('label\na'), /needs a label column and at least one value column/);
+        assert.throws(() => parseTable('label,value'), /has no data rows/);
+        assert.throws(() => parseTable('a,"b'), /unterminated quoted field/);
+        assert.throws(() => parseTable({ not: 'a table' }), /must be a non-empty array/);
+    });
+});
@@ -0,0 +1,81 @@
+import { afterEach, beforeEach, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { recordFailure, recordSuccess, releaseProbe, tryAcquire } from '../services/providers/circuitBreaker';
+import { ProviderName } from '../services/providers';
+
+const SETTINGS = { failureThreshold: 2, cooldownSeconds: 60 };
+
+// Circuits are per process, so each test starts by closing the circuit it uses.
+const trip = (provider: ProviderName) => {
+    recordSuccess(provider);
+    recordFailure(provider, SETTINGS);
+    recordFailure(provider, SETTINGS);
+};
+
+describe('circuit breaker', () => {
+    beforeEach(() => {
+        mock.method(console, 'log', () => {});
+        mock.method(console, 'warn', () => {});
+        mock.timers.enable({ apis: ['Date'], now: 0 });
+    });
+    afterEach(() => {
+        mock.timers.reset();
+        mock.restoreAll();
+    });
+
+    it('stays closed below the failure threshold', () => {
+        recordSuccess('gemini');
+        recordFailure('gemini', SETTINGS);
+        assert.equal(tryAcquire('gemini', SETTINGS), true);
+    });
+
+    it('resets the failure count on success', () => {
+        recordSuccess('gemini');
+        recordFailure('gemini', SETTINGS);
+        recordSuccess('gemini');
+        recordFailure('gemini', SETTINGS);
+        assert.equal(tryAcquire('gemini', SETTINGS), true);
+    });
+
+    it('opens at the threshold and rejects requests during the cooldown', () => {
+        trip('openai');
+        assert.equal(tryAcquire('openai', SETTINGS), false);
+        mock.timers.tick(59 * 1000);
+        assert.equal(tryAcquire('openai', SETTINGS), false);
+    });
+
+    it('lets a single probe through once the cooldown has passed', () => {
+        trip('anthropic');
+        mock.timers.tick(60 * 1000);
+        assert.equal(tryAcquire('anthropic', SETTINGS), true);
+        assert.equal(tryAcquire('anthropic', SETTINGS), false);
+    });
+
+    it('closes when the probe succeeds', () => {
+        trip('deepseek');
+        mock.timers.tick(60 * 1000);
+        tryAcquire('deepseek', SETTINGS);
+        recordSuccess('deepseek');
+        assert.equal(tryAcquire('deepseek', SETTINGS), true);
+        assert.equal(tryAcquire('deepseek', SETTINGS), true);
+    });
+
+    it('reopens for a full cooldown when the probe fails', () => {
+        trip('ollama');
+        mock.timers.tick(60 * 1000);
+        tryAcquire('ollama', SETTINGS);
+        recordFailure('ollama', SETTINGS);
+        mock.timers.tick(59 * 1000);
+        assert.equal(tryAcquire('ollama', SETTINGS), false);
+        mock.timers.tick(1000);
+        assert.equal(tryAcquire('ollama', SETTINGS), true);
+    });
+
+    it('frees the probe slot when the probe is released', () => {
+        trip('gemini');
+        mock.timers.tick(60 * 1000);
+        tryAcquire('gemini', SETTINGS);
+        releaseProbe('gemini');
+        assert.equal(tryAcquire('gemini', SETTINGS), true);
+    });
+});
@@ -0,0 +1,41 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { diffDiagrams } from '../services/diagramDiff';
+import { DiagramData } from '../types';
+
+const node = (id: string, extra: Record<string, unknown> = {}): any => ({ id, label: id, type: 'generic', x: 0, y: 0, width: 150, height: 80, ...extra });
+
+const diagram = (parts: Partial<DiagramData>): DiagramData => ({ title: 't', architectureType: 'x', nodes: [], links: [], ...parts });
+
+describe('diffDiagrams', () => {
+    it('reports nothing for identical diagrams', () => {
+        const d = diagram({ nodes: [node('a')], links: [{ id: 'l', source: 'a', target: 'a' }] });
+        assert.deepEqual(diffDiagrams(d, JSON.parse(JSON.stringify(d))), []);
+    });
+
+    it('lists added, removed and modified elements by type', () => {
+        const before = diagram({
+            nodes: [node('a'), node('b')],
+            links: [{ id: 'l1', source: 'a', target: 'b' }],
+            containers: [{ id: 'g', label: 'g', type: 'group', x: 0, y: 0, width: 1, height: 1, childNodeIds: ['a'] }],
+        });
+        const after = diagram({
+            nodes: [node('a', { label: 'A', x: 10 }), node('c')],
+            links: [],
+            containers: [{ id: 'g', label: 'g', type: 'group', x: 0, y: 0, width: 1, height: 1, childNodeIds: ['a', 'c'] }],
+        });
+        assert.deepEqual(diffDiagrams(before, after), [
+            { element: 'node', change: 'modified', id: 'a', fields: ['label', 'x'] },
+            { element: 'node', change: 'removed', id: 'b' },
+            { element: 'node', change: 'added', id: 'c' },
+            { element: 'link', change: 'removed', id: 'l1' },
+            { element: 'container', change: 'modified', id: 'g', fields: ['childNodeIds'] },
+        ]);
+    });
+
+    it('compares link endpoints by node id and ignores undefined fields', () => {
+        const before = diagram({ nodes: [node('a'), node('b')], links: [{ id: 'l', source: 'a', target: 'b', label: undefined }] });
+        const after = diagram({ nodes: [node('a'), node('b')], links: [{ id: 'l', source: node('a'), target: node('b') }] });
+        assert.deepEqual(diffDiagrams(before, after), []);
+    });
+});
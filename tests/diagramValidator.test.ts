@@ -0,0 +1,94 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { validateAndRepairDiagram } from '../services/diagramValidator';
+
+const node = (id: string, extra: Record<string, unknown> = {}) => ({ id, label: id, type: 'generic', x: 0, y: 0, width: 150, height: 80, ...extra });
+const container = (id: string, extra: Record<string, unknown> = {}) => ({ id, label: id, type: 'group', x: 0, y: 0, width: 300, height: 200, childNodeIds: [], ...extra });
+const codes = (warnings: { code: string }[]) => warnings.map(w => w.code);
+
+describe('validateAndRepairDiagram', () => {
+    it('fills in a missing title and architecture type', () => {
+        const { diagram, warnings } = validateAndRepairDiagram({ nodes: [node('a')], links: [] });
+        assert.equal(diagram.title, 'Untitled Diagram');
+        assert.equal(diagram.architectureType, 'General');
+        assert.deepEqual(codes(warnings), ['MISSING_FIELD', 'MISSING_FIELD']);
+    });
+
+    it('assigns missing ids and renames duplicate ones', () => {
+        const { diagram, warnings } = validateAndRepairDiagram({
+            title: 't', architectureType: 'x',
+            nodes: [node('a'), node('a'), { ...node('unnamed'), id: undefined }],
+            links: [],
+        });
+        assert.deepEqual(diagram.nodes.map(n => n.id), ['a', 'a-2', 'node-3']);
+        assert.deepEqual(codes(warnings), ['DUPLICATE_ID', 'MISSING_FIELD']);
+    });
+
+    it('replaces invalid geometry with defaults', () => {
+        const { diagram, warnings } = validateAndRepairDiagram({ title: 't', architectureType: 'x', nodes: [node('a', { x: 'left', width: -5 })], links: [] });
+        assert.deepEqual([diagram.nodes[0].x, diagram.nodes[0].width], [0, 150]);
+        assert.deepEqual(codes(warnings), ['INVALID_GEOMETRY']);
+    });
+
+    it('drops dangling links and resolves hydrated endpoints to ids', () => {
+        const { diagram, warnings } = validateAndRepairDiagram({
+            title: 't', architectureType: 'x',
+            nodes: [node('a'), node('b')],
+            links: [{ id: 'l1', source: node('a'), target: 'b' }, { id: 'l2', source: 'a', target: 'missing' }],
+        });
+        assert.deepEqual(diagram.links, [{ id: 'l1', source: 'a', target: 'b' }]);
+        assert.deepEqual(codes(warnings), ['DANGLING_LINK']);
+    });
+
+    it('keeps a node listed by several containers only in the first', () => {
+        const { diagram, warnings } = validateAndRepairDiagram({
+            title: 't', architectureType: 'x',
+            nodes: [node('a')],
+            links: [],
+            containers: [container('c1', { childNodeIds: ['a', 'ghost'] }), container('c2', { childNodeIds: ['a'] })],
+        });
+        assert.deepEqual(diagram.containers!.map(c => c.childNodeIds), [['a'], []]);
+        assert.deepEqual(codes(warnings), ['MISSING_CHILD_NODE', 'NODE_IN_MULTIPLE_CONTAINERS']);
+    });
+
+    it('reconciles parentContainerId with childContainerIds', () => {
+        const { diagram } = validateAndRepairDiagram({
+            title: 't', architectureType: 'x',
+            nodes: [node('a')],
+            links: [],
+            containers: [container('vpc', { childContainerIds: ['subnet'] }), container('subnet')],
+        });
+        const [vpc, subnet] = diagram.containers!;
+        assert.deepEqual(vpc.childContainerIds, ['subnet']);
+        assert.equal(subnet.parentContainerId, 'vpc');
+    });
+
+    it('breaks a nesting cycle without detaching containers outside it', () => {
+        // x sits inside a, and a and b contain each other.
+        const { diagram, warnings } = validateAndRepairDiagram({
+            title: 't', architectureType: 'x',
+            nodes: [node('n')],
+            links: [],
+            containers: [
+                container('x', { parentContainerId: 'a' }),
+                container('a', { parentContainerId: 'b' }),
+                container('b', { parentContainerId: 'a' }),
+            ],
+        });
+        const parents = Object.fromEntries(diagram.containers!.map(c => [c.id, c.parentContainerId ?? null]));
+        assert.deepEqual(parents, { x: 'a', a: null, b: 'a' });
+        assert.deepEqual(codes(warnings).filter(code => code === 'CONTAINER_CYCLE'), ['CONTAINER_CYCLE']);
+    });
+
+    it('reports unknown types without repairing them', () => {
+        const { warnings } = validateAndRepairDiagram({ title: 't', architectureType: 'x', nodes: [node('a', { type: 'teleporter' })], links: [] });
+        assert.deepEqual(warnings.map(w => [w.code, w.repaired]), [['UNKNOWN_NODE_TYPE', false]]);
+    });
+
+    it('does not mutate its input', () => {
+        const input = { nodes: [node('a'), node('a')], links: [] };
+        const before = JSON.stringify(input);
+        validateAndRepairDiagram(input);
+        assert.equal(JSON.stringify(input), before);
+    });
+});
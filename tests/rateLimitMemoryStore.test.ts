@@ -0,0 +1,51 @@
+import { afterEach, beforeEach, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { createMemoryRateLimitStore } from '../services/rateLimit/memoryStore';
+
+const LIMIT = { capacity: 2, refillPerSecond: 1 };
+
+describe('createMemoryRateLimitStore', () => {
+    beforeEach(() => mock.timers.enable({ apis: ['Date'], now: 0 }));
+    afterEach(() => mock.timers.reset());
+
+    it('allows a burst up to the capacity, then rejects', async () => {
+        const store = createMemoryRateLimitStore();
+        assert.deepEqual(await store.take('k', LIMIT, 1), { allowed: true, remaining: 1, retryAfterMs: 0, resetMs: 1000 });
+        assert.deepEqual(await store.take('k', LIMIT, 1), { allowed: true, remaining: 0, retryAfterMs: 1000, resetMs: 2000 });
+        assert.deepEqual(await store.take('k', LIMIT, 1), { allowed: false, remaining: 0, retryAfterMs: 1000, resetMs: 2000 });
+    });
+
+    it('refills over time without exceeding the capacity', async () => {
+        const store = createMemoryRateLimitStore();
+        await store.take('k', LIMIT, 2);
+        mock.timers.tick(1500);
+        assert.equal((await store.take('k', LIMIT, 1)).allowed, true);
+        mock.timers.tick(60 * 1000);
+        assert.equal((await store.take('k', LIMIT, 1)).remaining, 1);
+    });
+
+    it('rejects a cost larger than the tokens left without spending them', async () => {
+        const store = createMemoryRateLimitStore();
+        await store.take('k', LIMIT, 1);
+        const result = await store.take('k', LIMIT, 2);
+        assert.deepEqual(result, { allowed: false, remaining: 1, retryAfterMs: 1000, resetMs: 1000 });
+        assert.equal((await store.take('k', LIMIT, 1)).allowed, true);
+    });
+
+    it('keeps separate buckets per key', async () => {
+        const store = createMemoryRateLimitStore();
+        await store.take('a', LIMIT, 2);
+        assert.equal((await store.take('b', LIMIT, 2)).allowed, true);
+    });
+
+    it('evicts the least recently used bucket when full', async () => {
+        const store = createMemoryRateLimitStore(2);
+        await store.take('a', LIMIT, 2);
+        await store.take('b', LIMIT, 2);
+        await store.take('a', LIMIT, 0);
+        await store.take('c', LIMIT, 2);
+        // 'a' was used more recently than 'b', so it is kept and still empty, while 'b' starts full again.
+        assert.equal((await store.take('a', LIMIT, 1)).allowed, false);
+        assert.equal((await store.take('b', LIMIT, 2)).allowed, true);
+    });
+});
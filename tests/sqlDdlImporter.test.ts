@@ -0,0 +1,64 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { parseSqlDdl } from '../services/importers/sqlDdl';
+
+const SCRIPT = `
+-- Users and their profiles
+CREATE TABLE users (
+  id SERIAL PRIMARY KEY,
+  email VARCHAR(255) NOT NULL UNIQUE,
+  "display name" TEXT
+);
+
+CREATE TABLE IF NOT EXISTS profiles (
+  user_id INTEGER NOT NULL REFERENCES users(id),
+  bio TEXT,
+  CONSTRAINT profiles_pk PRIMARY KEY (user_id)
+);
+
+CREATE TABLE orders (
+  id BIGINT NOT NULL,
+  user_id INTEGER,
+  total NUMERIC(10, 2) DEFAULT 0,
+  PRIMARY KEY (id)
+);
+
+ALTER TABLE orders ADD CONSTRAINT orders_user_fk FOREIGN KEY (user_id) REFERENCES users (id);
+`;
+
+describe('parseSqlDdl', () => {
+    const diagram = parseSqlDdl(SCRIPT, 'Shop');
+    const entity = (name: string) => diagram.entities.find(e => e.name === name)!;
+
+    it('reads every table with its columns', () => {
+        assert.equal(diagram.title, 'Shop');
+        assert.deepEqual(diagram.entities.map(e => e.name), ['users', 'profiles', 'orders']);
+        assert.deepEqual(entity('users').attributes.map(a => a.name), ['id', 'email', 'display name']);
+        assert.deepEqual(entity('orders').attributes.map(a => a.name), ['id', 'user_id', 'total']);
+    });
+
+    it('marks primary keys from column and table constraints', () => {
+        assert.ok(entity('users').attributes[0].primaryKey);
+        assert.ok(entity('orders').attributes[0].primaryKey);
+        assert.ok(entity('profiles').attributes[0].primaryKey);
+    });
+
+    it('reads nullability and uniqueness', () => {
+        const [, email, displayName] = entity('users').attributes;
+        assert.equal(email.nullable, false);
+        assert.equal(email.unique, true);
+        assert.equal(displayName.nullable, true);
+    });
+
+    it('turns foreign keys into relationships', () => {
+        assert.deepEqual(diagram.relationships.map(r => [r.from, r.to, r.cardinality]), [
+            ['profiles', 'users', 'one-to-one'],
+            ['orders', 'users', 'many-to-one'],
+        ]);
+        assert.ok(entity('orders').attributes[1].foreignKey);
+    });
+
+    it('rejects scripts without CREATE TABLE statements', () => {
+        assert.throws(() => parseSqlDdl('SELECT 1;'), /^Error: INVALID_IMPORT_SOURCE/);
+    });
+});
@@ -0,0 +1,70 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { parseTerraformHcl } from '../services/importers/terraform';
+
+const SOURCE = `
+provider "aws" {
+  region = "eu-west-1"
+}
+
+# A comment mentioning aws_vpc.ignored
+resource "aws_vpc" "main" {
+  cidr_block = "10.0.0.0/16"
+}
+
+resource "aws_subnet" "public" {
+  vpc_id     = aws_vpc.main.id
+  cidr_block = "10.0.1.0/24"
+  tags = {
+    Name = "public"
+  }
+}
+
+resource "aws_instance" "web" {
+  ami           = data.aws_ami.ubuntu.id
+  subnet_id     = aws_subnet.public.id
+  instance_type = "t3.micro"
+  depends_on    = [aws_vpc.main]
+}
+
+data "aws_ami" "ubuntu" {
+  most_recent = true
+}
+
+module "db" {
+  source = "./modules/db"
+  subnet = aws_subnet.public.id
+}
+
+variable "unused" {
+  default = "x"
+}
+`;
+
+describe('parseTerraformHcl', () => {
+    const model = parseTerraformHcl(SOURCE);
+    const byAddress = new Map(model.resources.map(r => [r.address, r]));
+
+    it('reads resource, data and module blocks and skips the others', () => {
+        assert.deepEqual(model.resources.map(r => r.address), ['aws_vpc.main', 'aws_subnet.public', 'aws_instance.web', 'data.aws_ami.ubuntu', 'module.db']);
+    });
+
+    it('takes the region from the provider block', () => {
+        assert.equal(model.region, 'eu-west-1');
+    });
+
+    it('keeps literal attributes and leaves out references', () => {
+        assert.deepEqual(byAddress.get('aws_subnet.public')!.attributes, { cidr_block: '10.0.1.0/24', tags: { Name: 'public' } });
+    });
+
+    it('separates references from depends_on', () => {
+        const web = byAddress.get('aws_instance.web')!;
+        assert.deepEqual(web.references, ['data.aws_ami.ubuntu', 'aws_subnet.public']);
+        assert.deepEqual(web.dependsOn, ['aws_vpc.main']);
+        assert.deepEqual(byAddress.get('module.db')!.references, ['aws_subnet.public']);
+    });
+
+    it('ignores comments', () => {
+        assert.ok(model.resources.every(r => !r.references.includes('aws_vpc.ignored')));
+    });
+});
@@ -26,15 +26,20 @@ export interface Link {
   bidirectional?: boolean;
 }
 
+export type ContainerType = 'region' | 'vpc' | 'availability-zone' | 'subnet' | 'security-group' | 'tier' | 'group';
+
 export interface Container {
   id:string;
   label: string;
-  type: 'region' | 'availability-zone' | 'tier';
+  type: ContainerType;
   x: number;
   y: number;
   width: number;
   height: number;
   childNodeIds: string[];
+  childContainerIds?: string[];
+  parentContainerId?: string;
+  borderStyle?: 'solid' | 'dashed';
   description?: string;
   color?: string;
 }
@@ -47,6 +52,39 @@ export interface DiagramData {
   containers?: Container[];
 }
 
+// Structured findings reported by the diagram validator (services/diagramValidator.ts).
+// `repaired` is true when the problem was fixed in the returned diagram.
+export type DiagramWarningCode =
+  | 'MISSING_FIELD'
+  | 'INVALID_GEOMETRY'
+  | 'DUPLICATE_ID'
+  | 'DANGLING_LINK'
+  | 'SELF_LINK'
+  | 'MISSING_CHILD_NODE'
+  | 'NODE_IN_MULTIPLE_CONTAINERS'
+  | 'MISSING_CHILD_CONTAINER'
+  | 'CONTAINER_HIERARCHY_MISMATCH'
+  | 'CONTAINER_CYCLE'
+  | 'UNKNOWN_NODE_TYPE'
+  | 'UNKNOWN_CONTAINER_TYPE'
+  | 'EMPTY_DIAGRAM'
+  | 'LOCKED_NODE_RESTORED';
+
+export interface DiagramWarning {
+  code: DiagramWarningCode;
+  message: string;
+  elementId?: string;
+  repaired: boolean;
+}
+
+// A single structural difference between two versions of a diagram (services/diagramDiff.ts).
+export interface DiagramChange {
+  element: 'node' | 'link' | 'container';
+  change: 'added' | 'removed' | 'modified';
+  id: string;
+  fields?: string[];
+}
+
 // These types are for your Graph/Chart modeler
 export interface PieChartSlice {
   label: string;
@@ -70,6 +108,157 @@ export interface FunnelChartData {
   stages: FunnelChartStage[];
 }
 
+// One named series of a bar or line chart; `values` line up with the chart's `categories`.
+export interface ChartSeries {
+  label: string;
+  values: number[];
+  color: string;
+}
+
+export interface BarChartData {
+  title: string;
+  xAxisLabel?: string;
+  yAxisLabel?: string;
+  categories: string[];
+  series: ChartSeries[];
+}
+
+export interface LineChartData {
+  title: string;
+  xAxisLabel?: string;
+  yAxisLabel?: string;
+  categories: string[];
+  series: ChartSeries[];
+}
+
+export type ChartType = 'pie' | 'funnel' | 'bar' | 'line';
+
+export type ChartData = PieChartData | FunnelChartData | BarChartData | LineChartData;
+
+// Findings reported by the chart validator (services/chartService.ts), like `DiagramWarning`.
+export type ChartWarningCode =
+  | 'MISSING_FIELD'
+  | 'INVALID_VALUE'
+  | 'INVALID_COLOR'
+  | 'SERIES_LENGTH_MISMATCH'
+  | 'UNSORTED_FUNNEL';
+
+export interface ChartWarning {
+  code: ChartWarningCode;
+  message: string;
+  repaired: boolean;
+}
+
+// These types are for the sequence, ER and flowchart modelers (services/modelers).
+// Unlike architecture diagrams they carry no coordinates; the frontend lays them out.
+
+export type SequenceParticipantKind = 'actor' | 'service' | 'database' | 'queue' | 'external';
+
+export interface SequenceParticipant {
+  id: string;
+  label: string;
+  kind: SequenceParticipantKind;
+}
+
+// `reply` is the dashed return arrow; `self` is a call from a participant to itself.
+export type SequenceMessageType = 'sync' | 'async' | 'reply' | 'self';
+
+// Messages are in chronological order.
+export interface SequenceMessage {
+  id: string;
+  from: string;
+  to: string;
+  label: string;
+  type: SequenceMessageType;
+}
+
+// A participant is active (busy) from the message that starts the activation to the one that ends it.
+export interface SequenceActivation {
+  participant: string;
+  startMessage: string;
+  endMessage: string;
+}
+
+export interface SequenceDiagramData {
+  title: string;
+  participants: SequenceParticipant[];
+  messages: SequenceMessage[];
+  activations: SequenceActivation[];
+}
+
+export interface ErAttribute {
+  name: string;
+  type: string;
+  primaryKey?: boolean;
+  foreignKey?: boolean;
+  unique?: boolean;
+  nullable?: boolean;
+}
+
+export interface ErEntity {
+  id: string;
+  name: string;
+  attributes: ErAttribute[];
+}
+
+// Read from `from` to `to`: 'many-to-one' means many `from` rows relate to one `to` row.
+export type ErCardinality = 'one-to-one' | 'one-to-many' | 'many-to-one' | 'many-to-many';
+
+export interface ErRelationship {
+  id: string;
+  from: string;
+  to: string;
+  cardinality: ErCardinality;
+  label?: string;
+  // Column names, when the relationship comes from a foreign key.
+  fromAttributes?: string[];
+  toAttributes?: string[];
+}
+
+export interface ErDiagramData {
+  title: string;
+  entities: ErEntity[];
+  relationships: ErRelationship[];
+}
+
+export type FlowchartNodeKind = 'start' | 'end' | 'process' | 'decision' | 'input-output' | 'subprocess';
+
+export interface FlowchartNode {
+  id: string;
+  label: string;
+  kind: FlowchartNodeKind;
+}
+
+// Edges leaving a decision carry the branch condition (e.g. 'Yes', 'No') as their label.
+export interface FlowchartEdge {
+  id: string;
+  source: string;
+  target: string;
+  label?: string;
+}
+
+export interface FlowchartData {
+  title: string;
+  nodes: FlowchartNode[];
+  edges: FlowchartEdge[];
+}
+
+// Findings reported by the modeler validators, like `DiagramWarning`.
+export type ModelWarningCode =
+  | 'MISSING_FIELD'
+  | 'DUPLICATE_ID'
+  | 'DANGLING_REFERENCE'
+  | 'INVALID_VALUE'
+  | 'UNREACHABLE_NODE'
+  | 'DECISION_BRANCHES';
+
+export interface ModelWarning {
+  code: ModelWarningCode;
+  message: string;
+  elementId?: string;
+  repaired: boolean;
+}
+
 
 // Note: The IconType enum is used by your frontend,
 // but it is good practice to have it here for reference
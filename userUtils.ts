@@ -29,6 +29,14 @@ export const authenticateUser = async (req: express.Request): Promise<User | nul
     }
 };
 
+/**
+ * Resolves the user for routes that are served both internally and under /v1.
+ * On v1 routes `apiKeyAuth` has already attached the user; otherwise the session token is checked.
+ * @param req The Express request object.
+ * @returns The authenticated Supabase User object or null.
+ */
+export const resolveRequestUser = async (req: express.Request): Promise<User | null> => req.user ?? authenticateUser(req);
+
 /**
  * Checks if a user can generate content based on their plan and usage, without modifying their count.
  * This is now the source of truth for permissions.